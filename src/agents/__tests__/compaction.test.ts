@@ -0,0 +1,71 @@
+import { SUMMARY_HEADER, compactMessages, dropOldMessages } from '../compaction';
+import { Message, getTextContent } from '../../providers/base';
+import { StubProvider } from '../../providers/__tests__/helpers/stub-provider';
+
+// 固定の要約を返すプロバイダー
+function summaryProvider(summary: string = '要約です'): StubProvider {
+  const provider = new StubProvider();
+  provider.complete.mockResolvedValue({ content: summary });
+  return provider;
+}
+
+function conversation(turns: number): Message[] {
+  const messages: Message[] = [{ role: 'system', content: 'system prompt' }];
+  for (let i = 1; i <= turns; i++) {
+    messages.push({ role: 'user', content: `question ${i}` });
+    messages.push({ role: 'assistant', content: `answer ${i}` });
+  }
+  return messages;
+}
+
+describe('compactMessages', () => {
+  it('replaces older turns with a summary and keeps recent turns', async () => {
+    const provider = summaryProvider();
+    const result = await compactMessages(provider, conversation(4));
+
+    expect(result!.summarizedCount).toBe(4);
+    expect(result!.messages.map(m => getTextContent(m.content))).toEqual([
+      'system prompt',
+      `${SUMMARY_HEADER}\n要約です`,
+      'question 3',
+      'answer 3',
+      'question 4',
+      'answer 4',
+    ]);
+    expect(result!.tokensAfter).toBeLessThan(result!.tokensBefore);
+    expect(provider.complete.mock.calls[0][0].caller).toBe('compaction');
+    expect(getTextContent(provider.complete.mock.calls[0][0].messages[1].content)).toContain('ユーザー: question 1');
+  });
+
+  it('folds the previous summary into the new one', async () => {
+    const provider = summaryProvider('新しい要約');
+    const first = await compactMessages(summaryProvider('古い要約'), conversation(4));
+    const messages = [
+      ...first!.messages,
+      { role: 'user' as const, content: 'question 5' },
+      { role: 'assistant' as const, content: 'answer 5' },
+    ];
+
+    const result = await compactMessages(provider, messages);
+
+    const transcript = getTextContent(provider.complete.mock.calls[0][0].messages[1].content);
+    expect(transcript).toContain('古い要約');
+    expect(transcript).toContain('question 3');
+    expect(result!.messages.filter(m => getTextContent(m.content).startsWith(SUMMARY_HEADER))).toHaveLength(1);
+  });
+
+  it('returns null when there is nothing old enough to summarize', async () => {
+    const provider = summaryProvider();
+
+    expect(await compactMessages(provider, conversation(2))).toBeNull();
+    expect(provider.complete).not.toHaveBeenCalled();
+  });
+});
+
+describe('dropOldMessages', () => {
+  it('keeps system messages and the most recent turns', () => {
+    const messages = dropOldMessages(conversation(3), 2);
+
+    expect(messages.map(m => getTextContent(m.content))).toEqual(['system prompt', 'question 3', 'answer 3']);
+  });
+});
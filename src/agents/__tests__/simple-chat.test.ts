@@ -0,0 +1,58 @@
+import { RequestAbortedError, getTextContent } from '../../providers/base';
+import { StubProvider } from '../../providers/__tests__/helpers/stub-provider';
+import { SimpleChatAgent } from '../simple-chat';
+
+const provider = new StubProvider();
+jest.mock('../../providers', () => ({ ProviderFactory: { getProvider: () => provider } }));
+jest.mock('../../analyzers/project', () => ({ ProjectAnalyzer: jest.fn() }));
+jest.mock('../../utils/setup', () => ({ getSessionDir: () => '' }));
+jest.mock('../../config', () => {
+  const values: Record<string, unknown> = { language: 'ja', streaming: true, temperature: 0, maxTokens: 4096, compactThreshold: 0.8 };
+  return { config: { get: (key: string) => values[key] } };
+});
+
+// 1チャンク受信した後に失敗するストリーム
+function failAfterFirstChunk(error: Error): void {
+  provider.streamComplete = async function* () {
+    yield { content: 'こん', done: false };
+    throw error;
+  };
+}
+
+async function collect(agent: SimpleChatAgent, message: string): Promise<string> {
+  let text = '';
+  for await (const chunk of agent.streamChat(message)) {
+    text += chunk;
+  }
+  return text;
+}
+
+describe('SimpleChatAgent.streamChat', () => {
+  // システムプロンプトを除いた履歴
+  const history = (agent: SimpleChatAgent) => agent.getHistory()
+    .filter(message => message.role !== 'system')
+    .map(message => `${message.role}: ${getTextContent(message.content)}`);
+
+  it('withdraws the question when the stream fails after partial output', async () => {
+    const agent = new SimpleChatAgent('stub-model');
+    failAfterFirstChunk(new Error('socket hang up'));
+
+    await expect(collect(agent, '質問1')).rejects.toThrow('socket hang up');
+    expect(history(agent)).toEqual([]);
+
+    // 次の質問で、応答の無い質問が続けて送られない
+    provider.streamComplete = StubProvider.prototype.streamComplete;
+    provider.streamContents = ['回答'];
+    await collect(agent, '質問2');
+    expect(history(agent)).toEqual(['user: 質問2', 'assistant: 回答']);
+  });
+
+  it('keeps the partial reply when the stream is aborted', async () => {
+    const agent = new SimpleChatAgent('stub-model');
+    failAfterFirstChunk(new RequestAbortedError());
+
+    await expect(collect(agent, '質問')).resolves.toBe('こん');
+    expect(history(agent)).toEqual(['user: 質問', 'assistant: こん']);
+    expect(agent.getLastFinishReason()).toBe('aborted');
+  });
+});
@@ -1,4 +1,4 @@
-import { Message, CompletionOptions } from '../providers/base';
+import { Message, CompletionOptions, getTextContent } from '../providers/base';
 import { ProviderFactory } from '../providers';
 import { config } from '../config';
 import { ProjectAnalyzer } from '../analyzers/project';
@@ -29,9 +29,12 @@ export class ChatAgent {
   private provider = ProviderFactory.getProvider();
   private streaming: boolean = true;
   private systemPrompt: string;
+  // 使用量の記録に使う呼び出し元
+  private caller: string;
 
-  constructor(session: Session) {
+  constructor(session: Session, caller: string = 'chat') {
     this.session = session;
+    this.caller = caller;
     this.streaming = config.get('streaming');
     this.systemPrompt = this.buildSystemPrompt();
   }
@@ -77,7 +80,7 @@ Follow these guidelines:
     this.addMessage('user', message);
 
     // コンテキストを含むメッセージを構築
-    const messages = this.buildMessages();
+    const messages = await this.buildMessages();
 
     // AIプロバイダーに送信
     const options: CompletionOptions = {
@@ -86,6 +89,7 @@ Follow these guidelines:
       temperature: config.get('temperature'),
       maxTokens: config.get('maxTokens'),
       stream: false,
+      caller: this.caller,
     };
 
     const response = await this.provider.complete(options);
@@ -107,7 +111,7 @@ Follow these guidelines:
     this.addMessage('user', message);
 
     // コンテキストを含むメッセージを構築
-    const messages = this.buildMessages();
+    const messages = await this.buildMessages();
 
     // AIプロバイダーに送信
     const options: CompletionOptions = {
@@ -116,6 +120,7 @@ Follow these guidelines:
       temperature: config.get('temperature'),
       maxTokens: config.get('maxTokens'),
       stream: true,
+      caller: this.caller,
     };
 
     let fullResponse = '';
@@ -131,7 +136,7 @@ Follow these guidelines:
     this.addMessage('assistant', fullResponse);
   }
 
-  private buildMessages(): Message[] {
+  private async buildMessages(): Promise<Message[]> {
     const messages: Message[] = [];
 
     // システムプロンプト
@@ -154,9 +159,9 @@ Follow these guidelines:
     const reservedTokens = config.get('maxTokens'); // 出力用に予約
     const availableTokens = maxTokens - reservedTokens;
 
-    let currentTokens = this.provider.estimateTokens(this.systemPrompt);
+    let currentTokens = await this.provider.countTokens(this.systemPrompt);
     if (this.session.contexts.length > 0) {
-      currentTokens += this.provider.estimateTokens(this.buildContextContent());
+      currentTokens += await this.provider.countTokens(this.buildContextContent());
     }
 
     // 新しいメッセージから順に追加
@@ -164,7 +169,7 @@ Follow these guidelines:
     const includedMessages: Message[] = [];
 
     for (const msg of historyMessages) {
-      const msgTokens = this.provider.estimateTokens(msg.content);
+      const msgTokens = await this.provider.countTokens(getTextContent(msg.content));
       if (currentTokens + msgTokens > availableTokens) {
         break;
       }
@@ -0,0 +1,164 @@
+import { AIProvider, Message, RequestAbortedError, getTextContent } from '../providers/base';
+
+export const SUMMARY_HEADER = '[これまでの会話の要約]';
+
+// 画像1枚あたりのトークン数の目安（プロバイダーごとの正確な計算は行わない）
+const IMAGE_TOKENS = 1000;
+// メッセージごとの役割などの付加トークン
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// 要約の最大トークン数
+const SUMMARY_MAX_TOKENS = 1024;
+// 要約に渡す1メッセージあたりの最大文字数
+const MAX_MESSAGE_CHARS = 4000;
+
+const SUMMARY_PROMPT = `あなたは会話の要約を作成するアシスタントです。
+以下の会話を、続きの会話に必要な情報を失わないように簡潔に要約してください。
+- ユーザーの目的と要望
+- 決定した事項と理由
+- 扱ったファイル・関数・コマンドとその内容の要点
+- 未解決の課題や次にやること
+要約だけを、会話と同じ言語で出力してください。`;
+
+export interface CompactOptions {
+  // 要約せずに残す直近のメッセージ数（ユーザーの発言から始まるように調整する）
+  keepRecent?: number;
+  model?: string;
+  signal?: AbortSignal;
+}
+
+export interface CompactionResult {
+  messages: Message[];
+  // 要約に置き換えたメッセージ数
+  summarizedCount: number;
+  // 要約の本文（セッションに保存して復元時に使う）
+  summary: string;
+  // 要約せずに残した直近の会話のメッセージ数
+  keptCount: number;
+  tokensBefore: number;
+  tokensAfter: number;
+}
+
+/**
+ * メッセージ列のトークン数を見積もる
+ */
+export function estimateMessagesTokens(provider: AIProvider, messages: Message[]): number {
+  return messages.reduce((sum, message) => {
+    const images = typeof message.content === 'string'
+      ? 0
+      : message.content.filter(part => part.type === 'image').length;
+    return sum + provider.estimateTokens(getTextContent(message.content)) + images * IMAGE_TOKENS + MESSAGE_OVERHEAD_TOKENS;
+  }, 0);
+}
+
+export function isSummaryMessage(message: Message): boolean {
+  return message.role === 'system' && typeof message.content === 'string' && message.content.startsWith(SUMMARY_HEADER);
+}
+
+/**
+ * 古い会話を要約メッセージ1件に置き換える
+ * システムプロンプトや追加したコンテキストはそのまま残し、前回の要約は新しい要約に含める
+ * 要約できる会話が無い場合はnullを返す
+ */
+export async function compactMessages(
+  provider: AIProvider,
+  messages: Message[],
+  options: CompactOptions = {}
+): Promise<CompactionResult | null> {
+  const { system, summary, older, recent } = splitForCompaction(messages, options.keepRecent ?? 4);
+  if (older.length === 0) {
+    return null;
+  }
+
+  const response = await provider.complete({
+    model: options.model,
+    messages: [
+      { role: 'system', content: SUMMARY_PROMPT },
+      { role: 'user', content: buildTranscript(provider, summary, older) },
+    ],
+    temperature: 0.2,
+    maxTokens: SUMMARY_MAX_TOKENS,
+    caller: 'compaction',
+    priority: 'interactive',
+    signal: options.signal,
+  });
+  if (options.signal?.aborted) {
+    throw new RequestAbortedError();
+  }
+  if (!response.content.trim()) {
+    throw new Error('要約が空でした');
+  }
+
+  const summaryText = response.content.trim();
+  const compacted: Message[] = [
+    ...system,
+    { role: 'system', content: `${SUMMARY_HEADER}\n${summaryText}` },
+    ...recent,
+  ];
+  return {
+    messages: compacted,
+    summarizedCount: older.length,
+    summary: summaryText,
+    keptCount: recent.length,
+    tokensBefore: estimateMessagesTokens(provider, messages),
+    tokensAfter: estimateMessagesTokens(provider, compacted),
+  };
+}
+
+/**
+ * 要約せずに古い会話を削除する（要約に失敗した場合の代替）
+ */
+export function dropOldMessages(messages: Message[], keepRecent: number = 4): Message[] {
+  const { system, summary, recent } = splitForCompaction(messages, keepRecent);
+  return [...system, ...(summary ? [summary] : []), ...recent];
+}
+
+function splitForCompaction(messages: Message[], keepRecent: number) {
+  const system = messages.filter(message => message.role === 'system' && !isSummaryMessage(message));
+  const summary = messages.find(isSummaryMessage);
+  const conversation = messages.filter(message => message.role !== 'system');
+
+  // 直近の会話はユーザーの発言から始まるように残す（ツール呼び出しと結果を分けない）
+  let start = Math.max(conversation.length - keepRecent, 0);
+  while (start > 0 && conversation[start].role !== 'user') {
+    start--;
+  }
+
+  return {
+    system,
+    summary,
+    older: conversation.slice(0, start),
+    recent: conversation.slice(start),
+  };
+}
+
+function buildTranscript(provider: AIProvider, summary: Message | undefined, older: Message[]): string {
+  const labels: Record<Message['role'], string> = {
+    system: 'システム',
+    user: 'ユーザー',
+    assistant: 'アシスタント',
+    tool: 'ツール結果',
+  };
+  const entries = older.map(message => {
+    let text = getTextContent(message.content);
+    if (text.length > MAX_MESSAGE_CHARS) {
+      text = `${text.slice(0, MAX_MESSAGE_CHARS)}…（省略）`;
+    }
+    return `${labels[message.role]}: ${text}`;
+  });
+
+  // 要約のリクエスト自体がコンテキスト長を超えないよう、古い発言から省く
+  const budget = provider.getMaxTokens() - SUMMARY_MAX_TOKENS - provider.estimateTokens(SUMMARY_PROMPT) - 100;
+  const header = summary ? `${getTextContent(summary.content)}\n\n` : '';
+  let used = provider.estimateTokens(header);
+  let first = entries.length;
+  while (first > 0) {
+    const tokens = provider.estimateTokens(entries[first - 1]) + MESSAGE_OVERHEAD_TOKENS;
+    if (used + tokens > budget && first < entries.length) {
+      break;
+    }
+    used += tokens;
+    first--;
+  }
+
+  return `${header}${first > 0 ? '（これより前の会話は省略）\n\n' : ''}${entries.slice(first).join('\n\n')}`;
+}
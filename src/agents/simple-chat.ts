@@ -1,12 +1,31 @@
-import { Message, CompletionOptions } from '../providers/base';
+import fs from 'fs-extra';
+import { Message, MessageContent, CompletionOptions, RequestAbortedError, TokenUsage, getTextContent } from '../providers/base';
 import { ProviderFactory } from '../providers';
+import { ProjectAnalyzer } from '../analyzers/project';
 import { config } from '../config';
+import { CompactionResult, SUMMARY_HEADER, compactMessages, dropOldMessages, estimateMessagesTokens } from './compaction';
+import { restoreImageData } from '../utils/images';
+import { ChatSession, SessionContext, getActiveMessages } from '../session/manager';
+
+const PROJECT_CONTEXT_HEADER = '[プロジェクトコンテキスト]';
 
 export class SimpleChatAgent {
   private provider = ProviderFactory.getProvider();
   private messages: Message[] = [];
   private model: string;
   private streaming: boolean = true;
+  // 直前の応答の終了理由（中断された場合は'aborted'）
+  private lastFinishReason?: string;
+  // 直前の応答の思考過程（推論モデルのみ。履歴には含めない）
+  private lastReasoning?: string;
+  // 直前の応答の使用量（APIが返さない場合は推定値）
+  private lastUsage?: TokenUsage;
+  // 直前の送信前に自動で要約した結果（要約しなかった場合はnull）
+  private lastCompaction: CompactionResult | null = null;
+  // NIPPONCODE.mdなどのプロジェクトコンテキスト（システムプロンプトの次に1回だけ含める）
+  private projectContext = '';
+  // 追加したファイル・ディレクトリ（/context で一覧・削除するためにメッセージを保持する）
+  private attachments = new Map<string, { type: string; content: string; message: Message }>();
 
   constructor(model: string) {
     this.model = model;
@@ -37,9 +56,99 @@ You have the following capabilities:
       role: 'system',
       content: systemPrompt,
     });
+    if (this.projectContext) {
+      this.messages.push({
+        role: 'system',
+        content: `${PROJECT_CONTEXT_HEADER}\n${this.projectContext}`,
+      });
+    }
+  }
+
+  /**
+   * プロジェクトコンテキストを設定する（既に設定されている場合は置き換える）
+   */
+  public setProjectContext(content: string): void {
+    this.projectContext = content;
+    const index = this.messages.findIndex(
+      message => message.role === 'system' && typeof message.content === 'string' && message.content.startsWith(PROJECT_CONTEXT_HEADER)
+    );
+    if (index >= 0) {
+      this.messages.splice(index, 1);
+    }
+    if (content) {
+      this.messages.splice(1, 0, { role: 'system', content: `${PROJECT_CONTEXT_HEADER}\n${content}` });
+    }
+  }
+
+  /**
+   * コンテキストウィンドウの使用状況
+   * limitはモデルの最大トークン数から応答用のmaxTokensを除いた、履歴に使えるトークン数
+   */
+  public getContextUsage(pending?: MessageContent): { used: number; limit: number } {
+    const maxTokens = this.provider.getMaxTokens();
+    const messages = pending ? [...this.messages, { role: 'user' as const, content: pending }] : this.messages;
+    return {
+      used: estimateMessagesTokens(this.provider, messages),
+      // maxTokensがコンテキスト長に近いモデルでも履歴を残せるよう、半分は履歴に使う
+      limit: Math.max(maxTokens - config.get('maxTokens'), Math.floor(maxTokens / 2)),
+    };
+  }
+
+  /**
+   * 次のメッセージを送るとcompactThresholdを超えるか
+   */
+  public shouldCompact(pending?: MessageContent): boolean {
+    const threshold = config.get('compactThreshold');
+    if (!threshold) {
+      return false;
+    }
+    const { used, limit } = this.getContextUsage(pending);
+    return used > limit * threshold;
+  }
+
+  /**
+   * 古い会話を要約に置き換える（要約できる会話が無い場合はnull）
+   */
+  public async compact(signal?: AbortSignal): Promise<CompactionResult | null> {
+    const result = await compactMessages(this.provider, this.messages, { model: this.model, signal });
+    if (result) {
+      this.messages = result.messages;
+    }
+    return result;
+  }
+
+  /**
+   * しきい値を超える場合に送信前に自動で要約する
+   * 要約に失敗した場合は古い会話を削除して、コンテキスト長の超過を避ける
+   */
+  private async compactIfNeeded(message: MessageContent, signal?: AbortSignal): Promise<void> {
+    this.lastCompaction = null;
+    await this.countHistoryTokens(message);
+    if (!this.shouldCompact(message)) {
+      return;
+    }
+    try {
+      this.lastCompaction = await this.compact(signal);
+    } catch (error) {
+      if (error instanceof RequestAbortedError) {
+        throw error;
+      }
+      this.messages = dropOldMessages(this.messages);
+    }
+  }
+
+  /**
+   * サーバーに問い合わせて数えるトークナイザー（vllmなど）で履歴のトークン数を数えておく
+   * 数えた結果はキャッシュされ、getContextUsageや要約の判定に使う同期的な見積もりが正確になる
+   */
+  private async countHistoryTokens(pending?: MessageContent): Promise<void> {
+    const contents = pending ? [...this.messages.map(message => message.content), pending] : this.messages.map(message => message.content);
+    await Promise.all(contents.map(content => this.provider.countTokens(getTextContent(content))));
   }
 
-  public async chat(message: string): Promise<string> {
+  public async chat(message: MessageContent, signal?: AbortSignal): Promise<string> {
+    await this.compactIfNeeded(message, signal);
+
     // メッセージを追加
     this.messages.push({
       role: 'user',
@@ -52,24 +161,42 @@ You have the following capabilities:
       temperature: config.get('temperature'),
       maxTokens: config.get('maxTokens'),
       stream: false,
+      caller: 'chat',
+      priority: 'interactive',
+      signal,
     };
 
     try {
       const response = await this.provider.complete(options);
+      this.lastFinishReason = response.finishReason;
+      this.lastReasoning = response.reasoning;
+      this.lastUsage = response.usage || this.estimateUsage(response.content);
       
       // アシスタントの応答を履歴に追加
       this.messages.push({
         role: 'assistant',
         content: response.content,
       });
+      await this.countHistoryTokens();
 
       return response.content;
     } catch (error: any) {
+      // 応答の無い質問は履歴から取り消す（送信できない画像などを次の質問に持ち越さない）
+      this.messages.pop();
+      if (error instanceof RequestAbortedError) {
+        throw error;
+      }
       throw new Error(`チャット中にエラーが発生しました: ${error.message}`);
     }
   }
 
-  public async *streamChat(message: string): AsyncGenerator<string> {
+  /**
+   * 応答をストリーミングする
+   * signalで中断された場合は、それまでに受信した部分を履歴に残して終了する
+   */
+  public async *streamChat(message: MessageContent, signal?: AbortSignal): AsyncGenerator<string> {
+    await this.compactIfNeeded(message, signal);
+
     // メッセージを追加
     this.messages.push({
       role: 'user',
@@ -82,24 +209,85 @@ You have the following capabilities:
       temperature: config.get('temperature'),
       maxTokens: config.get('maxTokens'),
       stream: true,
+      caller: 'chat',
+      priority: 'interactive',
+      signal,
     };
 
+    let fullResponse = '';
+    let reasoning = '';
+    let usage: TokenUsage | undefined;
+    this.lastFinishReason = undefined;
+    this.lastReasoning = undefined;
+    this.lastUsage = undefined;
+
     try {
-      let fullResponse = '';
-      
       for await (const chunk of this.provider.streamComplete(options)) {
         fullResponse += chunk.content;
+        reasoning += chunk.reasoning || '';
+        this.lastReasoning = reasoning || undefined;
+        if (chunk.done) {
+          this.lastFinishReason = chunk.finishReason;
+          usage = chunk.usage;
+        }
         yield chunk.content;
       }
-
-      // アシスタントの応答を履歴に追加
-      this.messages.push({
-        role: 'assistant',
-        content: fullResponse,
-      });
     } catch (error: any) {
-      throw new Error(`ストリーミング中にエラーが発生しました: ${error.message}`);
+      if (!(error instanceof RequestAbortedError)) {
+        // 途中まで受信していても失敗した応答はセッションに記録されないため、質問ごと取り消す
+        this.messages.pop();
+        throw new Error(`ストリーミング中にエラーが発生しました: ${error.message}`);
+      }
+      this.lastFinishReason = 'aborted';
+
+      if (!fullResponse) {
+        // 何も受信せずに中断された場合は質問ごと取り消す
+        this.messages.pop();
+        return;
+      }
     }
+
+    this.lastUsage = usage || this.estimateUsage(fullResponse);
+
+    // アシスタントの応答を履歴に追加
+    this.messages.push({
+      role: 'assistant',
+      content: fullResponse,
+    });
+    await this.countHistoryTokens();
+  }
+
+  /**
+   * 使用量を返さないAPIのために、送信した履歴と応答から推定する
+   */
+  private estimateUsage(response: string): TokenUsage {
+    const promptTokens = estimateMessagesTokens(this.provider, this.messages);
+    const completionTokens = this.provider.estimateTokens(response);
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+
+  public getLastCompaction(): CompactionResult | null {
+    return this.lastCompaction;
+  }
+
+  public getLastUsage(): TokenUsage | undefined {
+    return this.lastUsage;
+  }
+
+  public getLastReasoning(): string | undefined {
+    return this.lastReasoning;
+  }
+
+  public getLastFinishReason(): string | undefined {
+    return this.lastFinishReason;
+  }
+
+  /**
+   * 直前の応答が最大トークン数で打ち切られたか
+   * （OpenAI互換は'length'、Anthropicは'max_tokens'）
+   */
+  public isTruncated(): boolean {
+    return this.lastFinishReason === 'length' || this.lastFinishReason === 'max_tokens';
   }
 
   public getHistory(): Message[] {
@@ -108,6 +296,7 @@ You have the following capabilities:
 
   public clearHistory(): void {
     this.messages = [];
+    this.attachments.clear();
     this.initializeSystemPrompt();
   }
 
@@ -119,23 +308,124 @@ You have the following capabilities:
     this.streaming = value;
   }
 
+  /**
+   * ファイルなどの内容をコンテキストに追加する
+   * 同じパスを追加し直した場合は古い内容を置き換える
+   */
   public addContext(context: { type: string; content: string; path?: string }): void {
-    const contextMessage = `[${context.type.toUpperCase()}${context.path ? `: ${context.path}` : ''}]\n${context.content}`;
-    this.messages.push({
+    const id = context.path || context.type;
+    this.removeContext(id);
+
+    const message: Message = {
       role: 'system',
-      content: contextMessage,
-    });
+      content: `[${context.type.toUpperCase()}${context.path ? `: ${context.path}` : ''}]\n${context.content}`,
+    };
+    this.messages.push(message);
+    this.attachments.set(id, { type: context.type, content: context.content, message });
   }
 
+  /**
+   * 追加したコンテキストを取り除く（見つからない場合はfalse）
+   */
+  public removeContext(id: string): boolean {
+    const attachment = this.attachments.get(id);
+    if (!attachment) {
+      return false;
+    }
+    this.attachments.delete(id);
+    this.messages = this.messages.filter(m => m !== attachment.message);
+    return true;
+  }
+
+  /**
+   * 追加したコンテキストとそのトークン数
+   */
+  public getAttachments(): Array<{ id: string; tokens: number }> {
+    return [...this.attachments.entries()].map(([id, attachment]) => ({
+      id,
+      tokens: estimateMessagesTokens(this.provider, [attachment.message]),
+    }));
+  }
+
+  /**
+   * セッションに保存するため、追加したコンテキストの内容を返す
+   */
+  public getContextItems(): SessionContext[] {
+    return [...this.attachments.entries()].map(([id, attachment]) => ({
+      id,
+      type: attachment.type,
+      content: attachment.content,
+    }));
+  }
+
+  /**
+   * ファイルの内容をコンテキストに追加する
+   */
+  public async addFile(filePath: string): Promise<void> {
+    if (!await fs.pathExists(filePath)) {
+      throw new Error(`ファイルが見つかりません: ${filePath}`);
+    }
+    const content = await fs.readFile(filePath, 'utf-8');
+    this.addContext({ type: 'file', path: filePath, content });
+  }
+
+  /**
+   * ディレクトリを分析し、構成・言語・主要ファイルをコンテキストに追加する
+   */
   public async analyzeDirectory(dirPath: string): Promise<void> {
-    // ディレクトリ分析のダミー実装
+    if (!await fs.pathExists(dirPath)) {
+      throw new Error(`ディレクトリが見つかりません: ${dirPath}`);
+    }
+    const analyzer = new ProjectAnalyzer();
+    const analysis = await analyzer.analyzeDirectory(dirPath, {
+      depth: config.get('analysisDepth'),
+      includeStructure: true,
+      includeDependencies: true,
+    });
+
     this.addContext({
       type: 'directory',
       path: dirPath,
-      content: `Directory ${dirPath} analyzed`,
+      content: analyzer.formatAnalysis(analysis),
     });
   }
 
+  /**
+   * 保存されたセッションの現在の分岐の会話とコンテキストで履歴を置き換える
+   * 画像は保存されたパスから読み直す
+   */
+  public async restoreSession(session: Pick<ChatSession, 'messages' | 'head' | 'contexts'>): Promise<void> {
+    const active = getActiveMessages(session);
+    // 要約済みの会話は最後の要約に置き換え、それより後のメッセージだけを復元する
+    const summarized = active.map(message => message.summary !== undefined).lastIndexOf(true);
+    const messages = await Promise.all(active.slice(summarized + 1).map(async message => ({
+      ...message,
+      content: await restoreImageData(message.content),
+    })));
+    if (summarized >= 0) {
+      messages.unshift({ ...active[summarized], role: 'system', content: `${SUMMARY_HEADER}\n${active[summarized].summary}` });
+    }
+
+    this.clearHistory();
+    for (const context of session.contexts) {
+      this.addContext({ type: context.type, path: context.id, content: context.content });
+    }
+    this.loadHistory(messages);
+  }
+
+  /**
+   * 保存されたセッションの会話を履歴に復元する
+   * （読み込めなかった画像は参照だけのため、ファイル名のテキストに置き換える）
+   */
+  public loadHistory(messages: Array<{ role: 'user' | 'assistant' | 'system'; content: MessageContent }>): void {
+    for (const message of messages) {
+      const content: MessageContent = typeof message.content === 'string'
+        ? message.content
+        : message.content.map(part => (part.type === 'image' && !part.data ? { type: 'text', text: `[画像: ${part.path}]` } : part));
+      this.messages.push({ role: message.role, content });
+    }
+  }
+
   public getContexts(): any[] {
     return this.messages
       .filter(msg => msg.role === 'system')
@@ -217,6 +217,22 @@ export class ProjectAnalyzer {
     return structure;
   }
 
+  /**
+   * 無視パターン（デフォルト・.gitignore）を適用したテキストファイルの一覧を取得
+   */
+  public async listTextFiles(dirPath: string, maxFiles: number = 5000): Promise<string[]> {
+    const files = await this.listFiles(dirPath, Infinity);
+    return files.filter(file => this.isTextFile(file)).slice(0, maxFiles);
+  }
+
+  /**
+   * 無視パターン（デフォルト・.gitignore）を適用したファイルの一覧を取得
+   */
+  public async listFiles(dirPath: string, maxFiles: number = 20000): Promise<string[]> {
+    await this.loadGitignore(dirPath);
+    return this.getProjectFiles(dirPath, maxFiles);
+  }
+
   private async getProjectFiles(dirPath: string, maxFiles: number): Promise<string[]> {
     const files = await glob('**/*', {
       cwd: dirPath,
@@ -7,7 +7,11 @@ import { initCommand } from './commands/init';
 import { chatCommand } from './commands/chat';
 import { analyzeCommand } from './commands/analyze';
 import { configCommand } from './commands/config';
+import { usageCommand } from './commands/usage';
+import { sessionsListCommand, sessionsSearchCommand } from './commands/sessions';
+import { runCommand } from './commands/run';
 import { setupEnvironment } from './utils/setup';
+import { ProviderFactory } from './providers';
 
 const program = new Command();
 
@@ -18,6 +22,11 @@ async function main() {
   // 環境のセットアップ
   await setupEnvironment();
 
+  // providerModulesの独自プロバイダーを登録する（読み込めなくても設定の変更などはできるようにする）
+  await ProviderFactory.loadProviderModules().catch(error => {
+    console.error(chalk.yellow(`⚠️  ${error.message}`));
+  });
+
   program
     .name('nipponcode')
     .description(chalk.yellow('日本語に強いAIコーディングアシスタント'))
@@ -45,6 +54,8 @@ async function main() {
     .option('--no-stream', 'ストリーミングを無効化')
     .option('--session <name>', 'セッション名を指定')
     .option('--resume', '前回のセッションを再開')
+    .option('--format <format>', '-m・パイプ入力時の出力形式（text/json/markdown）', 'text')
+    .option('--no-cache', '応答キャッシュを使用しない')
     .action(chatCommand);
 
   // analyze コマンド：プロジェクト分析
@@ -69,6 +80,52 @@ async function main() {
     .option('--reset', '設定をリセット')
     .action(configCommand);
 
+  // usage コマンド：トークン使用量と料金の集計
+  program
+    .command('usage')
+    .description('トークン使用量と料金を集計して表示')
+    .option('-g, --group <by>', '集計単位（day/model/session/profile/caller）', 'day')
+    .option('--since <date>', '集計開始日時（例: 2024-01-01）')
+    .option('--until <date>', '集計終了日時（例: 2024-01-31）')
+    .option('--json', 'JSON形式で出力')
+    .action(usageCommand);
+
+  // sessions コマンド：保存されたセッションの一覧・検索
+  const sessions = program
+    .command('sessions')
+    .description('保存されたセッションの一覧・検索');
+
+  sessions
+    .command('list')
+    .description('セッションを新しい順に表示')
+    .option('--since <date>', 'この日時以降に更新されたセッション（例: 2024-01-01, 7d）')
+    .option('--until <date>', 'この日時以前に更新されたセッション')
+    .option('--model <model>', 'モデル名で絞り込む（部分一致）')
+    .option('-n, --limit <number>', '表示件数', '20')
+    .option('--json', 'JSON形式で出力')
+    .action(sessionsListCommand);
+
+  sessions
+    .command('search <query...>')
+    .description('セッションの会話を全文検索')
+    .option('--since <date>', 'この日時以降に更新されたセッション（例: 2024-01-01, 7d）')
+    .option('--until <date>', 'この日時以前に更新されたセッション')
+    .option('--model <model>', 'モデル名で絞り込む（部分一致）')
+    .option('-n, --limit <number>', '表示件数', '20')
+    .option('--open <number>', '指定した番号の検索結果を対話モードで開く')
+    .option('--json', 'JSON形式で出力')
+    .action(sessionsSearchCommand);
+
+  // run コマンド：カスタムコマンドを非対話で実行
+  program
+    .command('run [name] [args...]')
+    .description('.nipponcode/commands のカスタムコマンドを実行（名前を省略すると一覧を表示）')
+    .option('--format <format>', '出力形式（text/json/markdown）', 'text')
+    .option('--session <name>', '会話を保存するセッション名')
+    .option('--no-stream', 'ストリーミングを無効化')
+    .option('--no-cache', '応答キャッシュを使用しない')
+    .action(runCommand);
+
   // デフォルトアクション（引数なしで実行された場合）
   program.action(async () => {
     const { displayCompactBanner } = await import('./utils/ascii-art');
@@ -0,0 +1,40 @@
+import { applySessionSettings } from '../chat';
+import { config } from '../../config';
+import { ChatProfile } from '../../config/profiles';
+import { ProviderFactory } from '../../providers';
+
+jest.mock('../interactive-chat', () => ({ InteractiveChat: jest.fn() }));
+jest.mock('chalk', () => ({ __esModule: true, default: { gray: (text: string) => text } }));
+
+describe('applySessionSettings', () => {
+  const work: ChatProfile = { name: 'work', provider: 'openai', apiKey: 'work-key', apiBaseUrl: 'http://vllm.local/v1', model: 'qwen2.5-7b' };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await config.reset();
+  });
+
+  it('switches to the profile and model the session was using', () => {
+    const reset = jest.spyOn(ProviderFactory, 'reset');
+
+    applySessionSettings({ profile: 'work', model: 'qwen2.5-72b' }, new Map([['work', work]]));
+
+    expect(config.get('apiBaseUrl')).toBe('http://vllm.local/v1');
+    expect(config.get('apiKey')).toBe('work-key');
+    expect(config.get('model')).toBe('qwen2.5-72b');
+    expect(reset).toHaveBeenCalled();
+  });
+
+  it('keeps the current profile when the saved one no longer exists', () => {
+    const baseUrl = config.get('apiBaseUrl');
+
+    applySessionSettings({ profile: 'removed', model: 'gpt-4o' }, new Map());
+
+    expect(config.get('apiBaseUrl')).toBe(baseUrl);
+    expect(config.get('model')).toBe('gpt-4o');
+  });
+});
@@ -1,8 +1,43 @@
 import { InteractiveChat } from './interactive-chat';
 import { config } from '../config';
+import { SimpleChatAgent } from '../agents/simple-chat';
+import { ChatSession, SessionManager } from '../session/manager';
+import { ProviderFactory, RequestAbortedError } from '../providers';
+import { usageLedger } from '../usage/ledger';
+import { stripMarkdown } from '../utils/markdown';
+import { Mention, resolveMention } from '../utils/mentions';
+import { ProjectAnalyzer } from '../analyzers/project';
+import { loadProjectMemory } from '../memory/project-memory';
+import { ChatProfile, readProfiles } from '../config/profiles';
 import chalk from 'chalk';
 
-export async function chatCommand(): Promise<void> {
+type OutputFormat = 'text' | 'json' | 'markdown';
+
+const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'markdown'];
+
+interface ChatOptions {
+  message?: string;
+  file?: string;
+  directory?: string;
+  stream?: boolean;
+  session?: string;
+  resume?: boolean;
+  cache?: boolean;
+  format?: string;
+  // コンテキストに追加する @ファイル（カスタムコマンドの実行時）
+  attach?: Mention[];
+}
+
+export async function chatCommand(options: ChatOptions = {}): Promise<void> {
+  // --no-cache: 応答キャッシュを使わずに常にAPIを呼び出す
+  if (options.cache === false) {
+    config.set('cache', false);
+  }
+  // --no-stream: 応答をまとめて受け取る
+  if (options.stream === false) {
+    config.set('streaming', false);
+  }
+
   // 設定の検証
   const validation = config.validate();
   if (!validation.valid) {
@@ -14,7 +49,169 @@ export async function chatCommand(): Promise<void> {
     process.exit(1);
   }
 
+  const format = (options.format || 'text') as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    console.error(chalk.red(`出力形式は次のいずれかを指定してください: ${OUTPUT_FORMATS.join(', ')}`));
+    process.exit(1);
+  }
+
+  // -m または標準入力へのパイプでは1回だけ応答して終了する
+  if (options.message || !process.stdin.isTTY) {
+    try {
+      await runOnce(options, format);
+    } catch (error: any) {
+      if (error instanceof RequestAbortedError) {
+        process.exit(130);
+      }
+      console.error(chalk.red('エラー:'), error.message);
+      process.exit(1);
+    }
+    return;
+  }
+
   // 対話型チャットを開始
-  const chat = new InteractiveChat();
+  const chat = new InteractiveChat({
+    file: options.file,
+    directory: options.directory,
+    session: options.session,
+    resume: options.resume,
+  });
   await chat.start();
-}
\ No newline at end of file
+}
+
+/**
+ * メッセージ（と標準入力の内容）を1回送信し、応答を指定の形式で標準出力に書き出す
+ * 進捗や警告は標準エラー出力に出し、標準出力には応答だけを出す
+ */
+async function runOnce(options: ChatOptions, format: OutputFormat): Promise<void> {
+  const input = process.stdin.isTTY ? '' : await readStdin();
+  const message = [options.message, input.trim() && `\`\`\`\n${input.trimEnd()}\n\`\`\``]
+    .filter(Boolean)
+    .join('\n\n');
+  if (!message) {
+    throw new Error('送信するメッセージがありません（-m または標準入力で指定してください）');
+  }
+
+  const sessionManager = new SessionManager();
+  const session = await sessionManager.open({ name: options.session, resume: options.resume });
+  if (session) {
+    // エージェントはプロバイダーを作成時に取得するため、先に切り替える
+    applySessionSettings(session, readProfiles());
+  }
+  const agent = new SimpleChatAgent(config.get('model'));
+  if (session) {
+    await agent.restoreSession(session);
+  } else if (options.resume) {
+    console.error(chalk.yellow('再開できるセッションがありません。新しい会話として送信します'));
+  }
+  usageLedger.setContext({ sessionId: session?.id });
+
+  if (options.file) {
+    await agent.addFile(options.file);
+  }
+  if (options.directory) {
+    await agent.analyzeDirectory(options.directory);
+  }
+  for (const mention of options.attach || []) {
+    const context = await resolveMention(mention, {
+      cwd: process.cwd(),
+      listFiles: dir => new ProjectAnalyzer().listFiles(dir),
+    });
+    if (!context) {
+      console.error(chalk.yellow(`⚠️  @${mention.raw} が見つからないため、そのまま送信します`));
+      continue;
+    }
+    agent.addContext({ type: context.type, path: context.id, content: context.content });
+  }
+
+  // NIPPONCODE.md（追加したファイルの階層のものを含む）をプロジェクトコンテキストにする
+  const provider = ProviderFactory.getProvider();
+  const memory = await loadProjectMemory({
+    cwd: process.cwd(),
+    paths: agent.getContextItems().map(item => item.id),
+    budget: config.get('memoryTokenBudget'),
+    countTokens: text => provider.estimateTokens(text),
+  });
+  agent.setProjectContext(memory.content);
+  memory.warnings.forEach(warning => console.error(chalk.yellow(`⚠️  ${warning}`)));
+
+  // Ctrl+Cで応答を中断する（生成が終わったらハンドラーを外し、以降は通常どおり終了する）
+  const controller = new AbortController();
+  const onInterrupt = () => controller.abort();
+  process.on('SIGINT', onInterrupt);
+
+  let response = '';
+  const streamed = agent.isStreaming() && format === 'markdown';
+  try {
+    if (streamed) {
+      // Markdownはそのまま出力するため、受信しながら書き出す
+      for await (const chunk of agent.streamChat(message, controller.signal)) {
+        process.stdout.write(chunk);
+        response += chunk;
+      }
+      process.stdout.write('\n');
+      if (controller.signal.aborted) {
+        throw new RequestAbortedError();
+      }
+    } else {
+      response = await agent.chat(message, controller.signal);
+    }
+  } finally {
+    process.off('SIGINT', onInterrupt);
+  }
+
+  if (format === 'json') {
+    console.log(JSON.stringify({
+      response,
+      reasoning: agent.getLastReasoning(),
+      model: config.get('model'),
+      sessionId: session?.id,
+      finishReason: agent.getLastFinishReason(),
+      truncated: agent.isTruncated(),
+    }, null, 2));
+  } else {
+    if (format === 'text') {
+      console.log(stripMarkdown(response));
+    } else if (!streamed) {
+      console.log(response);
+    }
+    if (agent.isTruncated()) {
+      console.error(chalk.yellow('⚠️  最大トークン数に達したため応答が途中で終わっています'));
+    }
+  }
+
+  // セッションを指定した場合だけ会話を保存する（スクリプトからの呼び出しでセッションを増やさない）
+  if (session) {
+    await sessionManager.addMessage({ role: 'user', content: message });
+    await sessionManager.addMessage({ role: 'assistant', content: response });
+    sessionManager.addUsage(agent.getLastUsage());
+    sessionManager.updateState({ model: config.get('model'), contexts: agent.getContextItems() });
+    await sessionManager.saveSession();
+  }
+}
+
+/**
+ * セッションで使っていたプロファイル・モデルに切り替える（対話モードでセッションを読み込む場合と同じ）
+ */
+export function applySessionSettings(session: Pick<ChatSession, 'profile' | 'model'>, profiles: Map<string, ChatProfile>): void {
+  const profile = session.profile ? profiles.get(session.profile) : undefined;
+  if (profile) {
+    config.applyProfile(profile);
+    console.error(chalk.gray(`プロファイルを${profile.name}に切り替えました`));
+  }
+  if (session.model && session.model !== config.get('model')) {
+    config.set('model', session.model);
+    console.error(chalk.gray(`モデルを${session.model}に切り替えました`));
+  }
+  if (profile || session.model) {
+    ProviderFactory.reset();
+  }
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
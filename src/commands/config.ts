@@ -1,5 +1,6 @@
 import chalk from 'chalk';
 import { config } from '../config';
+import { ProviderFactory } from '../providers';
 
 interface ConfigOptions {
   set?: string;
@@ -69,17 +70,35 @@ export async function configCommand(options: ConfigOptions): Promise<void> {
 
 function getConfigValue(key: string): any {
   const validKeys = [
+    'provider',
+    'providerModules',
     'apiBaseUrl',
     'apiKey',
     'model',
+    'tokenizer',
+    'apiVersion',
+    'deployments',
     'maxTokens',
     'temperature',
     'debug',
     'sessionDir',
+    'saveReasoning',
+    'embeddingModel',
+    'autoRetrieval',
+    'retrievalMinScore',
+    'compactThreshold',
+    'memoryTokenBudget',
     'maxParallel',
+    'requestsPerMinute',
+    'tokensPerMinute',
     'analysisDepth',
     'streaming',
     'language',
+    'failover',
+    'failoverCooldown',
+    'cache',
+    'cacheTtl',
+    'cacheMaxSize',
   ];
 
   if (validKeys.includes(key)) {
@@ -92,6 +111,20 @@ function getConfigValue(key: string): any {
 function setConfigValue(key: string, value: string): boolean {
   try {
     switch (key) {
+      case 'provider': {
+        const providers = ProviderFactory.getAvailableProviders();
+        if (!providers.includes(value)) {
+          throw new Error(`プロバイダーは次のいずれかを指定してください: ${providers.join(', ')}`);
+        }
+        config.set('provider', value);
+        config.applyProviderDefaults();
+        return true;
+      }
+
+      case 'providerModules':
+        config.set('providerModules', value.split(',').map(p => p.trim()).filter(Boolean));
+        return true;
+
       case 'apiBaseUrl':
         config.set('apiBaseUrl', value);
         return true;
@@ -120,14 +153,83 @@ function setConfigValue(key: string, value: string): boolean {
         config.set('debug', value.toLowerCase() === 'true');
         return true;
       
+      case 'tokenizer':
+        config.set('tokenizer', value);
+        return true;
+
+      case 'apiVersion':
+        config.set('apiVersion', value);
+        return true;
+
+      case 'deployments': {
+        // デプロイ名=モデル名 をカンマ区切りで指定
+        const deployments: Record<string, string> = {};
+        for (const entry of value.split(',').map(e => e.trim()).filter(Boolean)) {
+          const [name, model] = entry.split('=').map(part => part.trim());
+          if (!name || !model) {
+            throw new Error('deploymentsは「デプロイ名=モデル名」をカンマ区切りで指定してください');
+          }
+          deployments[name] = model;
+        }
+        config.set('deployments', deployments);
+        return true;
+      }
+
       case 'sessionDir':
         config.set('sessionDir', value);
         return true;
       
+      case 'saveReasoning':
+        config.set('saveReasoning', value.toLowerCase() === 'true');
+        return true;
+
+      case 'embeddingModel':
+        config.set('embeddingModel', value);
+        return true;
+
+      case 'autoRetrieval':
+        config.set('autoRetrieval', value.toLowerCase() === 'true');
+        return true;
+
+      case 'retrievalMinScore': {
+        const score = parseFloat(value);
+        if (isNaN(score) || score < 0 || score > 1) {
+          throw new Error('retrievalMinScoreは0から1の間で設定してください');
+        }
+        config.set('retrievalMinScore', score);
+        return true;
+      }
+
+      case 'compactThreshold': {
+        const threshold = parseFloat(value);
+        if (isNaN(threshold) || threshold < 0 || threshold > 1) {
+          throw new Error('compactThresholdは0から1の間で設定してください（0で自動要約を無効化）');
+        }
+        config.set('compactThreshold', threshold);
+        return true;
+      }
+      
+      case 'memoryTokenBudget': {
+        const budget = parseInt(value);
+        if (isNaN(budget) || budget < 0) {
+          throw new Error('memoryTokenBudgetは0以上の数値で設定してください（0で無制限）');
+        }
+        config.set('memoryTokenBudget', budget);
+        return true;
+      }
+      
       case 'maxParallel':
         config.set('maxParallel', parseInt(value));
         return true;
       
+      case 'requestsPerMinute':
+        config.set('requestsPerMinute', parseInt(value));
+        return true;
+
+      case 'tokensPerMinute':
+        config.set('tokensPerMinute', parseInt(value));
+        return true;
+      
       case 'analysisDepth':
         config.set('analysisDepth', parseInt(value));
         return true;
@@ -143,6 +245,26 @@ function setConfigValue(key: string, value: string): boolean {
         config.set('language', value as 'ja' | 'en');
         return true;
       
+      case 'failover':
+        config.set('failover', value.split(',').map(p => p.trim()).filter(Boolean));
+        return true;
+
+      case 'failoverCooldown':
+        config.set('failoverCooldown', parseInt(value));
+        return true;
+
+      case 'cache':
+        config.set('cache', value.toLowerCase() === 'true');
+        return true;
+
+      case 'cacheTtl':
+        config.set('cacheTtl', parseInt(value));
+        return true;
+
+      case 'cacheMaxSize':
+        config.set('cacheMaxSize', parseInt(value));
+        return true;
+      
       default:
         return false;
     }
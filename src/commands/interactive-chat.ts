@@ -2,11 +2,13 @@ import chalk from 'chalk';
 import readline from 'readline';
 import { config } from '../config';
 import { SimpleChatAgent } from '../agents/simple-chat';
+import { CompactionResult } from '../agents/compaction';
 import { displayBanner, displayCompactBanner } from '../utils/ascii-art';
-import { SimpleSessionManager } from '../session/simple-manager';
-import fs from 'fs-extra';
+import { ChatSession, SessionManager, SessionMessage, getActiveMessages, getSessionTitle, listBranches } from '../session/manager';
+import { searchSessions } from '../session/search';
+import { parseFilter, printSearchHits, printSessionList } from './sessions';
 import path from 'path';
-import { globSync } from 'glob';
+import { spawnSync } from 'child_process';
 import { TaskPlanner } from '../planning/planner';
 import { TaskManager } from '../planning/task-manager';
 import { TaskExecutor } from '../execution/executor';
@@ -16,27 +18,66 @@ import { CommandExecutor } from '../execution/command-executor';
 import { TaskPlan, Permission } from '../planning/interfaces';
 import { autonomousAgent } from '../execution/autonomous-agent';
 import { platformDetector } from '../utils/platform-detector';
+import { ImageContentPart, MessageContent, ProviderFactory, RequestAbortedError, getTextContent, modelRegistry } from '../providers';
+import { ChatProfile, readProfiles, writeProfiles } from '../config/profiles';
+import { usageLedger } from '../usage/ledger';
+import { isImagePath, loadImage, restoreImageData } from '../utils/images';
+import { Mention, MentionCompleter, parseMentions, resolveMention } from '../utils/mentions';
+import { CustomCommand, ExpandedCommand, expandCustomCommand, formatUsage, loadCustomCommands, splitArguments } from '../config/custom-commands';
+import { ProjectAnalyzer } from '../analyzers/project';
+import { MarkdownWriter } from '../utils/terminal-markdown';
+import { MEMORY_FILE_NAME, ProjectMemory, appendMemory, findProjectRoot, getUserMemoryPath, loadProjectMemory } from '../memory/project-memory';
+import { getProjectIndex } from '../search/project-index';
+import { formatSearchResults } from '../search/semantic-index';
 
-interface ChatProfile {
-  name: string;
-  apiKey: string;
-  apiBaseUrl: string;
-  model: string;
-  temperature?: number;
-  maxTokens?: number;
+export interface InteractiveChatOptions {
+  // 起動時にコンテキストに含めるファイル・ディレクトリ
+  file?: string;
+  directory?: string;
+  // 名前付きセッション（無ければ作成）
+  session?: string;
+  // 最後に更新されたセッションを再開する
+  resume?: boolean;
 }
 
+// 自動検索の前に索引を更新する間隔
+const SEARCH_INDEX_REFRESH_MS = 5 * 60 * 1000;
+
 export class InteractiveChat {
+  private options: InteractiveChatOptions;
   private multilineMode = false;
   private multilineBuffer: string[] = [];
   private rl: readline.Interface;
   private agent: SimpleChatAgent;
-  private sessionManager: SimpleSessionManager;
+  private sessionManager: SessionManager;
   private currentProfile: ChatProfile;
   private profiles: Map<string, ChatProfile>;
   private running: boolean = true;
   private projectContext: string = '';
+  // 読み込んだメモリファイル（NIPPONCODE.md）。projectContextはその内容
+  private memory: ProjectMemory | null = null;
   private isProcessing: boolean = false;
+  // 生成中の応答を中断するためのコントローラー
+  private abortController: AbortController | null = null;
+  // Ctrl+Cのハンドラー（終了時にprocessから外せるよう同じ関数を使う）
+  private readonly interruptHandler = () => this.handleInterrupt();
+  // 次のメッセージと一緒に送る画像（/image または @画像ファイル で添付）
+  private pendingImages: ImageContentPart[] = [];
+  // 直前に表示したセッション一覧・検索結果（/session load <番号> で開く）
+  private listedSessions: ChatSession[] = [];
+  // 次のプロンプトの入力欄にあらかじめ入れておく文字列（/edit で最後の質問を編集する）
+  private pendingInput = '';
+  // .nipponcode/commands のカスタムコマンド（組み込みのコマンドと同じ名前のものは使われない）
+  private customCommands: CustomCommand[] = [];
+  // 自動検索の失敗を一度だけ警告する
+  private retrievalWarned: boolean = false;
+  // 最後に意味検索の索引を更新した時刻（自動検索では毎回更新しない）
+  private searchIndexUpdatedAt = 0;
+  // @ファイル・@ディレクトリ のタブ補完（.gitignoreで無視されるファイルは候補にしない）
+  private mentionCompleter = new MentionCompleter({
+    cwd: process.cwd(),
+    listFiles: dir => new ProjectAnalyzer().listFiles(dir),
+  });
   private taskPlanner: TaskPlanner;
   private taskManager: TaskManager;
   private taskExecutor: TaskExecutor;
@@ -48,21 +89,27 @@ export class InteractiveChat {
   // @ts-ignore - Used for state tracking in plan operations
   private _planMode: boolean = false;
 
-  constructor() {
+  constructor(options: InteractiveChatOptions = {}) {
+    this.options = options;
     this.rl = readline.createInterface({
       input: process.stdin,
       output: process.stdout,
       prompt: this.getPrompt(),
+      completer: (line: string, callback: (error: null, result: [string[], string]) => void) => {
+        this.mentionCompleter.complete(line).then(
+          result => callback(null, result),
+          () => callback(null, [[], line])
+        );
+      },
     });
     
-    this.sessionManager = new SimpleSessionManager();
+    this.sessionManager = new SessionManager();
     this.profiles = new Map();
     this.loadProfiles();
-    this.loadProjectContext();
     
     // デフォルトプロファイル設定
     this.currentProfile = this.profiles.get('default') || this.createDefaultProfile();
-    this.agent = new SimpleChatAgent(this.currentProfile.model);
+    this.agent = this.createAgent(this.currentProfile.model);
     
     // タスク管理システムの初期化
     this.taskPlanner = new TaskPlanner();
@@ -78,26 +125,22 @@ export class InteractiveChat {
   private createDefaultProfile(): ChatProfile {
     return {
       name: 'default',
+      provider: config.get('provider'),
       apiKey: config.get('apiKey'),
       apiBaseUrl: config.get('apiBaseUrl'),
       model: config.get('model'),
+      apiVersion: config.get('apiVersion') || undefined,
+      deployments: config.get('deployments'),
       temperature: config.get('temperature'),
       maxTokens: config.get('maxTokens'),
     };
   }
 
   private loadProfiles(): void {
-    const configPath = path.join(process.cwd(), '.nipponcode', 'profiles.json');
-    
-    if (fs.existsSync(configPath)) {
-      try {
-        const profilesData = fs.readJsonSync(configPath);
-        for (const [name, profile] of Object.entries(profilesData)) {
-          this.profiles.set(name, profile as ChatProfile);
-        }
-      } catch (error) {
-        console.warn(chalk.yellow('プロファイルの読み込みに失敗しました'));
-      }
+    try {
+      this.profiles = readProfiles();
+    } catch (error) {
+      console.warn(chalk.yellow('プロファイルの読み込みに失敗しました'));
     }
     
     // デフォルトプロファイルを必ず設定
@@ -107,69 +150,34 @@ export class InteractiveChat {
   }
 
   private async saveProfiles(): Promise<void> {
-    const configDir = path.join(process.cwd(), '.nipponcode');
-    await fs.ensureDir(configDir);
-    
-    const profilesData: Record<string, ChatProfile> = {};
-    for (const [name, profile] of this.profiles.entries()) {
-      profilesData[name] = profile;
-    }
-    
-    await fs.writeJson(path.join(configDir, 'profiles.json'), profilesData, { spaces: 2 });
+    await writeProfiles(this.profiles);
   }
 
-  private loadProjectContext(): void {
-    // プロジェクトディレクトリの.mdファイルを読み込む
-    const projectDir = process.cwd();
-    const nipponCodeDir = path.join(projectDir, '.nipponcode');
-    
-    if (!fs.existsSync(nipponCodeDir)) {
-      return;
-    }
-    
-    // NIPPONCODE.md または PROJECT.md を優先的に読み込む
-    const contextFiles = ['NIPPONCODE.md', 'PROJECT.md', 'README.md'];
-    
-    for (const fileName of contextFiles) {
-      const filePath = path.join(projectDir, fileName);
-      if (fs.existsSync(filePath)) {
-        try {
-          const content = fs.readFileSync(filePath, 'utf8');
-          this.projectContext += `\n## ${fileName}\n${content}\n`;
-        } catch (error) {
-          console.warn(chalk.yellow(`${fileName}の読み込みに失敗しました`));
-        }
-      }
-    }
-    
-    // その他の.mdファイルも読み込む
-    const mdFiles = globSync('*.md', { 
-      cwd: projectDir,
-      ignore: contextFiles,
-    });
-    
-    for (const mdFile of mdFiles.slice(0, 5)) { // 最大5ファイルまで
-      try {
-        const content = fs.readFileSync(path.join(projectDir, mdFile), 'utf8');
-        this.projectContext += `\n## ${mdFile}\n${content.substring(0, 1000)}...\n`; // 各ファイル1000文字まで
-      } catch (error) {
-        // エラーは無視
-      }
-    }
+  /**
+   * プロジェクトコンテキストを設定したエージェントを作成する
+   */
+  private createAgent(model: string): SimpleChatAgent {
+    const agent = new SimpleChatAgent(model);
+    agent.setProjectContext(this.projectContext);
+    return agent;
   }
 
   public async start(): Promise<void> {
     displayBanner();
     
-    if (this.projectContext) {
-      console.log(chalk.gray('📁 プロジェクトコンテキストを読み込みました'));
-    }
+    await this.applyStartupOptions();
+    await this.refreshMemory();
+    await this.loadCustomCommands();
     
     console.log(chalk.yellow('\n💬 対話モードを開始しました'));
     console.log(chalk.gray('終了: /exit または Ctrl+C'));
     console.log(chalk.gray('ヘルプ: /help'));
     console.log(chalk.cyan('複数行入力: ``` で開始/終了、ペースト対応\n'));
     
+    // サーバーが返すコンテキスト長などをバックグラウンドで取得
+    void ProviderFactory.detectModelInfo();
+    
+    this.rl.setPrompt(this.getPrompt());
     this.rl.prompt();
     
     this.rl.on('line', async (input) => {
@@ -219,7 +227,14 @@ export class InteractiveChat {
       }
       
       if (this.running) {
+        if (!this.multilineMode) {
+          this.rl.setPrompt(this.getPrompt());
+        }
         this.rl.prompt();
+        if (this.pendingInput) {
+          this.rl.write(this.pendingInput);
+          this.pendingInput = '';
+        }
       }
     });
     
@@ -227,10 +242,50 @@ export class InteractiveChat {
       this.exit();
     });
     
-    // プロセス終了時のクリーンアップ
-    process.on('SIGINT', () => {
-      this.exit();
-    });
+    // Ctrl+C: 生成中なら応答を中断し、それ以外は終了する
+    // 端末ではreadlineがCtrl+Cを受け取るため、プロセスのSIGINTはパイプ入力の場合だけ監視する
+    // （両方で受け取ると1回のCtrl+Cで中断と終了が続けて起きる）
+    if (this.rl.terminal) {
+      this.rl.on('SIGINT', this.interruptHandler);
+    } else {
+      process.on('SIGINT', this.interruptHandler);
+    }
+  }
+
+  /**
+   * 起動オプションのセッションとコンテキストを読み込む
+   */
+  private async applyStartupOptions(): Promise<void> {
+    const { file, directory, session: name, resume } = this.options;
+
+    try {
+      const session = await this.sessionManager.open({ name, resume });
+      if (session) {
+        await this.restoreSession(session);
+        console.log(chalk.green(`✓ セッション'${getSessionTitle(session)}'を再開しました（${getActiveMessages(session).length}件のメッセージ）`));
+      } else if (resume) {
+        console.log(chalk.yellow('再開できるセッションがありません'));
+      }
+    } catch (error: any) {
+      console.log(chalk.red(`❌ ${error.message}`));
+    }
+
+    if (file) {
+      try {
+        await this.agent.addFile(file);
+        console.log(chalk.gray(`📄 ${file} をコンテキストに追加しました`));
+      } catch (error: any) {
+        console.log(chalk.red(`❌ ${error.message}`));
+      }
+    }
+    if (directory) {
+      try {
+        await this.agent.analyzeDirectory(directory);
+        console.log(chalk.gray(`📁 ${directory} を分析してコンテキストに追加しました`));
+      } catch (error: any) {
+        console.log(chalk.red(`❌ ${error.message}`));
+      }
+    }
   }
 
   private async handleCommand(command: string): Promise<void> {
@@ -258,7 +313,7 @@ export class InteractiveChat {
       case '/model':
         if (args.length > 0) {
           this.currentProfile.model = args.join(' ');
-          this.agent = new SimpleChatAgent(this.currentProfile.model);
+          await this.switchAgent();
           console.log(chalk.green(`✓ モデルを${this.currentProfile.model}に変更しました`));
         } else {
           console.log(chalk.cyan(`現在のモデル: ${this.currentProfile.model}`));
@@ -270,12 +325,49 @@ export class InteractiveChat {
         break;
         
       case '/context':
-        this.showContext();
+        await this.handleContextCommand(args);
+        break;
+        
+      case '/rewind':
+        await this.rewindConversation(args);
+        break;
+        
+      case '/edit':
+        await this.editLastMessage(args.join(' '));
+        break;
+        
+      case '/retry':
+        await this.retryLastMessage(args[0]);
+        break;
+        
+      case '/branch':
+        await this.handleBranchCommand(args);
+        break;
+        
+      case '/image':
+        await this.handleImageCommand(args);
+        break;
+        
+      case '/thinking':
+        this.showReasoning();
+        break;
+        
+      case '/compact':
+        await this.compactConversation();
+        break;
+        
+      case '/search':
+        await this.handleSearchCommand(args);
         break;
         
       case '/reload':
-        this.loadProjectContext();
-        console.log(chalk.green('✓ プロジェクトコンテキストを再読み込みしました'));
+        await this.refreshMemory();
+        await this.loadCustomCommands();
+        console.log(chalk.green('✓ メモリとカスタムコマンドを再読み込みしました'));
+        break;
+        
+      case '/memory':
+        await this.handleMemoryCommand(args);
         break;
         
       case '/config':
@@ -311,10 +403,72 @@ export class InteractiveChat {
         this.abortExecution();
         break;
         
-      default:
+      default: {
+        const custom = this.customCommands.find(item => `/${item.name}` === cmd);
+        if (custom) {
+          await this.runCustomCommand(custom, command.slice(cmd.length));
+          break;
+        }
         console.log(chalk.red(`不明なコマンド: ${cmd}`));
         console.log(chalk.gray('/help でコマンド一覧を表示'));
+      }
+    }
+  }
+
+  private async loadCustomCommands(): Promise<void> {
+    const { commands, errors } = await loadCustomCommands();
+    this.customCommands = commands;
+    errors.forEach(error => console.log(chalk.yellow(`⚠️  カスタムコマンドを読み込めません: ${error}`)));
+  }
+
+  /**
+   * カスタムコマンドのプロンプトを送信する
+   * モデル・プロファイルが指定されている場合はこの応答だけ切り替え、終わったら元に戻す
+   */
+  private async runCustomCommand(command: CustomCommand, input: string): Promise<void> {
+    let expanded: ExpandedCommand;
+    try {
+      expanded = expandCustomCommand(command, splitArguments(input), input);
+    } catch (error: any) {
+      console.log(chalk.red(`❌ ${error.message}`));
+      return;
+    }
+    if (command.profile && !this.profiles.has(command.profile)) {
+      console.log(chalk.red(`プロファイル'${command.profile}'が見つかりません（${command.path}）`));
+      return;
+    }
+    expanded.warnings.forEach(warning => console.log(chalk.yellow(`⚠️  ${warning}`)));
+    if (!await this.attachMentions(expanded.files)) {
+      return;
+    }
+
+    const previous = this.currentProfile.name;
+    const switching = (!!command.profile && command.profile !== previous) || (!!command.model && command.model !== this.currentProfile.model);
+    if (switching) {
+      await this.switchAgent(command.profile, command.model);
+      console.log(chalk.gray(`${command.model || this.currentProfile.model} で実行します`));
+    }
+    try {
+      await this.handleMessage(expanded.prompt, { chatOnly: true });
+    } finally {
+      if (switching) {
+        await this.switchAgent(previous);
+      }
+    }
+  }
+
+  /**
+   * プロファイル・モデルを切り替えてエージェントを作り直し、会話と追加したコンテキストを引き継ぐ
+   * （modelはプロファイルを書き換えず、このエージェントだけで使う）
+   */
+  private async switchAgent(profileName?: string, model?: string): Promise<void> {
+    if (profileName && profileName !== this.currentProfile.name) {
+      this.applyProfile(profileName);
     }
+    const contexts = this.agent.getContextItems();
+    this.agent = this.createAgent(model || this.currentProfile.model);
+    const session = this.sessionManager.getCurrentSession();
+    await this.agent.restoreSession({ messages: session?.messages || [], head: session?.head ?? null, contexts });
   }
 
   private async handleProfileCommand(args: string[]): Promise<void> {
@@ -324,6 +478,7 @@ export class InteractiveChat {
       for (const [name, profile] of this.profiles.entries()) {
         const current = name === this.currentProfile.name ? ' (現在)' : '';
         console.log(chalk.white(`  - ${name}${current}`));
+        console.log(chalk.gray(`    Provider: ${profile.provider || config.get('provider')}`));
         console.log(chalk.gray(`    Model: ${profile.model}`));
         console.log(chalk.gray(`    API: ${profile.apiBaseUrl}`));
       }
@@ -340,11 +495,7 @@ export class InteractiveChat {
         }
         const profileName = args[1];
         if (this.profiles.has(profileName)) {
-          this.currentProfile = this.profiles.get(profileName)!;
-          config.set('apiKey', this.currentProfile.apiKey);
-          config.set('apiBaseUrl', this.currentProfile.apiBaseUrl);
-          config.set('model', this.currentProfile.model);
-          this.agent = new SimpleChatAgent(this.currentProfile.model);
+          await this.switchAgent(profileName);
           console.log(chalk.green(`✓ プロファイルを${profileName}に切り替えました`));
         } else {
           console.log(chalk.red(`プロファイル'${profileName}'が見つかりません`));
@@ -383,61 +534,607 @@ export class InteractiveChat {
     }
   }
 
+  /**
+   * プロファイルの接続設定を反映する（エージェントは呼び出し側で作り直す）
+   */
+  private applyProfile(profileName: string): void {
+    this.currentProfile = this.profiles.get(profileName)!;
+    config.applyProfile(this.currentProfile);
+    ProviderFactory.reset();
+    void ProviderFactory.detectModelInfo();
+  }
+
   private async handleSessionCommand(args: string[]): Promise<void> {
     if (args.length === 0) {
-      const sessions = await this.sessionManager.listSessions();
+      this.listedSessions = (await this.sessionManager.listSessions()).slice(0, 20);
       console.log(chalk.cyan('\n📂 セッション一覧:'));
-      sessions.forEach(session => {
-        console.log(chalk.white(`  - ${session.id} (${new Date(session.createdAt).toLocaleString('ja-JP')})`));
-      });
+      printSessionList(this.listedSessions, this.sessionManager.getCurrentSessionId());
+      console.log(chalk.gray('\n/session load <番号|名前|ID> で開く · /session search <query> で検索'));
       return;
     }
     
     const subCommand = args[0];
     
-    switch (subCommand) {
-      case 'load':
-        if (args.length < 2) {
-          console.log(chalk.red('セッションIDを指定してください'));
-          return;
+    try {
+      switch (subCommand) {
+        case 'load': {
+          if (args.length < 2) {
+            console.log(chalk.red('セッションの名前またはIDを指定してください'));
+            return;
+          }
+          const ref = args.slice(1).join(' ');
+          // 番号は直前の一覧・検索結果から選ぶ
+          const listed = /^\d+$/.test(ref) ? this.listedSessions[parseInt(ref, 10) - 1] : undefined;
+          const session = await this.sessionManager.loadSession(listed ? listed.id : ref);
+          if (session) {
+            await this.restoreSession(session);
+            console.log(chalk.green(`✓ セッション'${getSessionTitle(session)}'を読み込みました（${getActiveMessages(session).length}件のメッセージ）`));
+          } else {
+            console.log(chalk.red(`セッション'${ref}'が見つかりません`));
+          }
+          break;
         }
-        const sessionId = args[1];
-        const session = await this.sessionManager.loadSession(sessionId);
-        if (session) {
-          console.log(chalk.green(`✓ セッション'${sessionId}'を読み込みました`));
-        } else {
-          console.log(chalk.red(`セッション'${sessionId}'が見つかりません`));
+          
+        case 'new': {
+          const session = await this.sessionManager.createSession(args[1]);
+          this.agent.clearHistory();
+          this.agent.setProjectContext(this.projectContext);
+          console.log(chalk.green(`✓ 新しいセッション'${getSessionTitle(session)}'を作成しました`));
+          break;
         }
-        break;
-        
-      case 'new':
-        await this.sessionManager.createSession();
-        console.log(chalk.green('✓ 新しいセッションを作成しました'));
-        break;
-        
-      default:
-        console.log(chalk.red(`不明なサブコマンド: ${subCommand}`));
+          
+        case 'search':
+          await this.searchSessions(args.slice(1));
+          break;
+          
+        case 'rename':
+          if (args.length < 2) {
+            console.log(chalk.red('新しい名前を指定してください'));
+            return;
+          }
+          if (!this.sessionManager.getCurrentSessionId()) {
+            await this.sessionManager.createSession();
+          }
+          await this.sessionManager.rename(args[1]);
+          console.log(chalk.green(`✓ セッションの名前を'${args[1]}'に変更しました`));
+          break;
+          
+        default:
+          console.log(chalk.red(`不明なサブコマンド: ${subCommand}`));
+      }
+    } catch (error: any) {
+      console.log(chalk.red(`❌ ${error.message}`));
+    }
+  }
+
+  /**
+   * /session search <query> [--model <name>] [--since <date>] [--until <date>]
+   */
+  private async searchSessions(args: string[]): Promise<void> {
+    const words: string[] = [];
+    const options: { since?: string; until?: string; model?: string } = {};
+    for (let i = 0; i < args.length; i++) {
+      const flag = args[i].match(/^--(since|until|model)$/);
+      if (flag && args[i + 1]) {
+        options[flag[1] as 'since' | 'until' | 'model'] = args[++i];
+      } else {
+        words.push(args[i]);
+      }
+    }
+
+    const query = words.join(' ');
+    const hits = searchSessions(await this.sessionManager.listSessions(), query, { ...parseFilter(options), limit: 10 });
+    this.listedSessions = hits.map(hit => hit.session);
+    if (hits.length === 0) {
+      console.log(chalk.yellow(`「${query}」に一致するセッションはありません`));
+      return;
+    }
+    console.log(chalk.cyan(`\n🔍 「${query}」の検索結果（${hits.length}件）:`));
+    printSearchHits(hits);
+    console.log(chalk.gray('\n/session load <番号> で開く'));
+  }
+
+  /**
+   * 保存されたセッションの状態に戻す
+   * セッションで使っていたプロファイル・モデルに切り替えてから、会話と追加したコンテキストを復元する
+   */
+  private async restoreSession(session: ChatSession): Promise<void> {
+    if (session.profile && session.profile !== this.currentProfile.name && this.profiles.has(session.profile)) {
+      this.applyProfile(session.profile);
+      console.log(chalk.gray(`プロファイルを${session.profile}に切り替えました`));
+    }
+    if (session.model && session.model !== this.currentProfile.model) {
+      this.currentProfile.model = session.model;
+      console.log(chalk.gray(`モデルを${session.model}に切り替えました`));
     }
+    this.agent = this.createAgent(this.currentProfile.model);
+    await this.agent.restoreSession(session);
+    await this.refreshMemory();
   }
 
-  private async handleMessage(message: string): Promise<void> {
+  /**
+   * /rewind [n]: 最後のn往復を取り消す（取り消した会話は分岐として残る）
+   */
+  private async rewindConversation(args: string[]): Promise<void> {
+    const turns = args[0] ? parseInt(args[0], 10) : 1;
+    if (isNaN(turns) || turns <= 0) {
+      console.log(chalk.red('取り消す往復数は1以上の数値で指定してください'));
+      return;
+    }
+    try {
+      const removed = await this.rewind(turns);
+      console.log(chalk.green(`✓ ${turns}往復（${removed.length}件のメッセージ）を取り消しました`));
+      console.log(chalk.gray('取り消した会話は /branch list で確認・復元できます'));
+    } catch (error: any) {
+      console.log(chalk.red(`❌ ${error.message}`));
+    }
+  }
+
+  /**
+   * /edit [メッセージ]: 最後の質問を編集して送り直す
+   * メッセージを省略すると、最後の質問を入力欄に入れて編集できるようにする
+   */
+  private async editLastMessage(text: string): Promise<void> {
+    let removed: SessionMessage[];
+    try {
+      removed = await this.rewind(1);
+    } catch (error: any) {
+      console.log(chalk.red(`❌ ${error.message}`));
+      return;
+    }
+
+    const previous = await this.prepareResend(removed[0].content);
+    if (text.trim()) {
+      await this.handleMessage(text.trim());
+      return;
+    }
+    if (previous.includes('\n')) {
+      // 複数行のメッセージは入力欄に入れられないため、表示して入力し直してもらう
+      console.log(chalk.gray('最後の質問:'));
+      console.log(previous);
+      console.log(chalk.gray('``` で複数行入力を始めて、編集したメッセージを送信してください'));
+    } else {
+      console.log(chalk.gray('最後の質問を編集して Enter で送信してください'));
+      this.pendingInput = previous;
+    }
+    console.log(chalk.gray('元の会話は /branch list で確認・復元できます'));
+  }
+
+  /**
+   * /retry [プロファイル]: 最後の応答を生成し直す（元の応答は分岐として残る）
+   */
+  private async retryLastMessage(profileName?: string): Promise<void> {
+    if (profileName && !this.profiles.has(profileName)) {
+      console.log(chalk.red(`プロファイル'${profileName}'が見つかりません`));
+      return;
+    }
+
+    let removed: SessionMessage[];
+    try {
+      removed = await this.rewind(1);
+    } catch (error: any) {
+      console.log(chalk.red(`❌ ${error.message}`));
+      return;
+    }
+
+    if (profileName && profileName !== this.currentProfile.name) {
+      await this.switchAgent(profileName);
+      console.log(chalk.gray(`プロファイルを${profileName}に切り替えました`));
+    }
+    await this.handleMessage(await this.prepareResend(removed[0].content));
+  }
+
+  /**
+   * /branch [list|switch <番号>]: 会話の分岐を一覧・切り替える
+   */
+  private async handleBranchCommand(args: string[]): Promise<void> {
+    const session = this.sessionManager.getCurrentSession();
+    if (!session || session.messages.length === 0) {
+      console.log(chalk.gray('分岐はありません（/rewind・/edit・/retry で作成されます）'));
+      return;
+    }
+
+    const branches = listBranches(session);
+    const subCommand = args[0] || 'list';
+    try {
+      switch (subCommand) {
+        case 'list': {
+          const active = getActiveMessages(session).length;
+          console.log(chalk.cyan('\n🌿 会話の分岐:'));
+          branches.forEach((branch, i) => {
+            const label = branch.lastUserMessage ? `「${branch.lastUserMessage}」` : '（会話の先頭）';
+            const fork = branch.current
+              ? ' (現在)'
+              : branch.forkAt === active
+                ? ` · 現在の会話の続き（+${branch.length - branch.forkAt}件）`
+                : branch.forkAt === 0 ? ' · 最初から別の会話' : ` · ${branch.forkAt}件目の後で分岐`;
+            console.log(chalk.white(`  ${i + 1}. ${label}`) + chalk.gray(` ${branch.length}件${fork}`));
+            if (branch.lastAssistantMessage) {
+              console.log(chalk.gray(`     🤖 ${branch.lastAssistantMessage}`));
+            }
+          });
+          console.log(chalk.gray('\n/branch switch <番号> で切り替え'));
+          break;
+        }
+
+        case 'switch': {
+          const branch = branches[parseInt(args[1], 10) - 1];
+          if (!branch) {
+            console.log(chalk.red('分岐の番号を指定してください（/branch list で確認できます）'));
+            return;
+          }
+          this.sessionManager.switchBranch(branch.head);
+          await this.syncAgentWithSession();
+          console.log(chalk.green(`✓ 分岐${args[1]}に切り替えました（${branch.length}件のメッセージ）`));
+          break;
+        }
+
+        default:
+          console.log(chalk.red(`不明なサブコマンド: ${subCommand}`));
+      }
+    } catch (error: any) {
+      console.log(chalk.red(`❌ ${error.message}`));
+    }
+  }
+
+  /**
+   * セッションの会話を巻き戻し、エージェントの履歴を合わせる
+   */
+  private async rewind(turns: number): Promise<SessionMessage[]> {
+    const removed = this.sessionManager.rewind(turns);
+    await this.syncAgentWithSession();
+    return removed;
+  }
+
+  /**
+   * エージェントの履歴をセッションの現在の分岐で置き換える（追加したコンテキストはそのまま残す）
+   */
+  private async syncAgentWithSession(): Promise<void> {
+    const session = this.sessionManager.getCurrentSession();
+    if (!session) {
+      return;
+    }
+    await this.agent.restoreSession({ messages: session.messages, head: session.head, contexts: this.agent.getContextItems() });
+    await this.persistSession();
+  }
+
+  /**
+   * 送り直すメッセージの本文を取り出し、添付していた画像を次のメッセージに添付し直す
+   * （@画像ファイル で添付した画像は送信時に添付されるため除く）
+   */
+  private async prepareResend(content: MessageContent): Promise<string> {
+    const restored = await restoreImageData(content);
+    const text = getTextContent(restored);
+    if (typeof restored !== 'string') {
+      const mentioned = new Set(parseMentions(text).map(mention => path.resolve(mention.path)));
+      this.pendingImages = restored.filter((part): part is ImageContentPart =>
+        part.type === 'image' && !!part.data && !mentioned.has(path.resolve(part.path || '')));
+      if (this.pendingImages.length > 0) {
+        console.log(chalk.gray(`🖼  ${this.pendingImages.length}枚の画像を添付し直しました（/image clear で取り消し）`));
+      }
+    }
+    return text;
+  }
+
+  /**
+   * NIPPONCODE.md などのメモリファイルを読み直し、エージェントのプロジェクトコンテキストを更新する
+   * （追加したファイル・ディレクトリの階層にあるNIPPONCODE.mdも含める）
+   */
+  private async refreshMemory(): Promise<void> {
+    const previous = this.memory;
+    const provider = ProviderFactory.getProvider();
+    const memory = await loadProjectMemory({
+      cwd: process.cwd(),
+      paths: this.agent.getContextItems().map(item => item.id),
+      budget: config.get('memoryTokenBudget'),
+      countTokens: text => provider.estimateTokens(text),
+    });
+    this.memory = memory;
+    this.projectContext = memory.content;
+    this.agent.setProjectContext(this.projectContext);
+
+    if (!previous) {
+      if (memory.files.length > 0) {
+        console.log(chalk.gray(`📒 メモリを読み込みました: ${memory.files.map(file => file.label).join(', ')}（${memory.tokens.toLocaleString()}トークン）`));
+      }
+    } else {
+      const known = new Set(previous.files.map(file => file.path));
+      memory.files
+        .filter(file => !known.has(file.path))
+        .forEach(file => console.log(chalk.gray(`📒 ${file.label} をメモリに追加しました（${file.tokens.toLocaleString()}トークン）`)));
+    }
+    // 警告は新しく出たものだけ表示する
+    memory.warnings
+      .filter(warning => !previous?.warnings.includes(warning))
+      .forEach(warning => console.log(chalk.yellow(`⚠️  ${warning}`)));
+    memory.skipped
+      .filter(label => !previous?.skipped.includes(label))
+      .forEach(label => console.log(chalk.yellow(`⚠️  トークン数の上限（memoryTokenBudget）のため ${label} を読み込みませんでした`)));
+  }
+
+  /**
+   * /memory [show|add [--user] <内容>|edit [--user]]
+   * 追記・編集はプロジェクトのルートのNIPPONCODE.md（--user で ~/.nipponcode/NIPPONCODE.md）が対象
+   */
+  private async handleMemoryCommand(args: string[]): Promise<void> {
+    const subCommand = args[0] || 'list';
+    const user = args[1] === '--user';
+    const target = user ? getUserMemoryPath() : path.join(findProjectRoot(process.cwd()), MEMORY_FILE_NAME);
+
+    try {
+      switch (subCommand) {
+        case 'list':
+        case 'show':
+          this.showMemory(subCommand === 'show');
+          break;
+
+        case 'add':
+          await appendMemory(target, args.slice(user ? 2 : 1).join(' '));
+          await this.refreshMemory();
+          console.log(chalk.green(`✓ ${target} に追加しました`));
+          break;
+
+        case 'edit':
+          this.openEditor(target);
+          await this.refreshMemory();
+          console.log(chalk.green('✓ メモリを再読み込みしました'));
+          break;
+
+        default:
+          console.log(chalk.red(`不明なサブコマンド: ${subCommand}`));
+      }
+    } catch (error: any) {
+      console.log(chalk.red(`❌ ${error.message}`));
+    }
+  }
+
+  private showMemory(full: boolean): void {
+    const memory = this.memory;
+    if (!memory || memory.files.length === 0) {
+      console.log(chalk.yellow(`メモリファイルがありません（/memory add <内容> で ${MEMORY_FILE_NAME} に追記できます）`));
+      return;
+    }
+
+    const budget = config.get('memoryTokenBudget');
+    const scopes = { user: 'ホーム', project: 'プロジェクト', directory: 'ディレクトリ' };
+    console.log(chalk.cyan(`\n📒 メモリ（${memory.tokens.toLocaleString()}${budget ? ` / ${budget.toLocaleString()}` : ''}トークン）:`));
+    for (const file of memory.files) {
+      const truncated = file.truncated ? '・一部省略' : '';
+      console.log(chalk.white(`  ${file.label}`) + chalk.gray(` (${scopes[file.scope]}・${file.tokens.toLocaleString()}トークン${truncated})`));
+      if (full) {
+        console.log(chalk.gray(file.content.replace(/^/gm, '    ')));
+      }
+    }
+    memory.skipped.forEach(label => console.log(chalk.yellow(`  ⚠️  ${label}（上限のため読み込んでいません）`)));
+    memory.warnings.forEach(warning => console.log(chalk.yellow(`  ⚠️  ${warning}`)));
+    if (!full) {
+      console.log(chalk.gray('\n/memory show で内容を表示 · /memory add <内容> で追記 · /memory edit でエディタを開く'));
+    }
+  }
+
+  /**
+   * $VISUAL・$EDITOR（無ければvi、Windowsではnotepad）でファイルを開き、閉じるまで待つ
+   */
+  private openEditor(filePath: string): void {
+    const editor = process.env.VISUAL || process.env.EDITOR || (process.platform === 'win32' ? 'notepad' : 'vi');
+    this.rl.pause();
+    try {
+      const result = spawnSync(`${editor} "${filePath}"`, { stdio: 'inherit', shell: true });
+      if (result.error || result.status !== 0) {
+        throw new Error(`エディタを起動できませんでした: ${editor}`);
+      }
+    } finally {
+      this.rl.resume();
+    }
+  }
+
+  private async handleImageCommand(args: string[]): Promise<void> {
+    if (args.length === 0) {
+      if (this.pendingImages.length === 0) {
+        console.log(chalk.gray('添付中の画像はありません（/image <path> で添付）'));
+      } else {
+        console.log(chalk.cyan('\n🖼  添付中の画像:'));
+        this.pendingImages.forEach(image => console.log(chalk.white(`  - ${image.path}`)));
+      }
+      return;
+    }
+
+    if (args[0] === 'clear') {
+      this.pendingImages = [];
+      console.log(chalk.green('✓ 添付中の画像を取り消しました'));
+      return;
+    }
+
+    if (await this.attachImage(args.join(' '))) {
+      console.log(chalk.gray('次のメッセージと一緒に送信されます'));
+    }
+  }
+
+  /**
+   * 画像を次のメッセージに添付する（失敗した場合は理由を表示してfalseを返す）
+   */
+  private async attachImage(filePath: string): Promise<boolean> {
+    if (modelRegistry.lookup(this.currentProfile.model)?.supportsVision === false) {
+      console.log(chalk.red(`❌ モデル ${this.currentProfile.model} は画像入力に対応していません`));
+      console.log(chalk.gray('画像に対応したモデルに /model または /profile switch で切り替えてください'));
+      return false;
+    }
+
+    try {
+      const image = await loadImage(filePath);
+      this.pendingImages.push(image);
+      console.log(chalk.green(`✓ 画像を添付しました: ${filePath}`));
+      return true;
+    } catch (error: any) {
+      console.log(chalk.red(`❌ ${error.message}`));
+      return false;
+    }
+  }
+
+  /**
+   * メッセージ中の @画像ファイル を添付する
+   */
+  private async attachMentionedImages(message: string): Promise<boolean> {
+    for (const mention of parseMentions(message)) {
+      if (isImagePath(mention.path) && !await this.attachImage(mention.path)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * メッセージ中の @ファイル・@ディレクトリ の内容をコンテキストに追加する
+   * （読み込めないファイルがあればfalseを返し、メッセージは送信しない）
+   */
+  private async attachMentionedFiles(message: string): Promise<boolean> {
+    return this.attachMentions(parseMentions(message));
+  }
+
+  private async attachMentions(mentions: Mention[]): Promise<boolean> {
+    for (const mention of mentions) {
+      if (isImagePath(mention.path)) {
+        continue;
+      }
+      try {
+        const context = await resolveMention(mention, {
+          cwd: process.cwd(),
+          listFiles: dir => new ProjectAnalyzer().listFiles(dir),
+        });
+        if (!context) {
+          console.log(chalk.yellow(`⚠️  @${mention.raw} が見つからないため、そのまま送信します`));
+          continue;
+        }
+        this.agent.addContext({ type: context.type, path: context.id, content: context.content });
+        const tokens = this.agent.getAttachments().find(item => item.id === context.id)?.tokens || 0;
+        console.log(chalk.gray(`📎 ${context.id} をコンテキストに追加しました（${tokens.toLocaleString()}トークン）`));
+      } catch (error: any) {
+        console.log(chalk.red(`❌ ${error.message}`));
+        return false;
+      }
+    }
+    // 追加したファイルの階層にあるNIPPONCODE.mdを読み込む
+    if (mentions.length > 0) {
+      await this.refreshMemory();
+    }
+    return true;
+  }
+
+  private async handleSearchCommand(args: string[]): Promise<void> {
+    const query = args.join(' ').trim();
+    if (!query) {
+      console.log(chalk.red('検索したい内容を指定してください（例: /search 請求書の検証はどこ？）'));
+      return;
+    }
+
+    try {
+      const index = getProjectIndex();
+      await this.updateSearchIndex();
+      const results = await index.search(query, 5);
+
+      if (results.length === 0) {
+        console.log(chalk.yellow('該当するコードが見つかりませんでした'));
+        return;
+      }
+      console.log(chalk.cyan(`\n🔍 「${query}」の検索結果:`));
+      for (const result of results) {
+        console.log(chalk.white(`  ${result.path}:${result.startLine}-${result.endLine}`) + chalk.gray(` (${result.score.toFixed(3)})`));
+        const preview = result.text.split('\n').filter(line => line.trim()).slice(0, 3);
+        preview.forEach(line => console.log(chalk.gray.dim(`    ${line.trim().substring(0, 100)}`)));
+      }
+      console.log();
+    } catch (error: any) {
+      console.log(chalk.red(`❌ 検索に失敗しました: ${error.message}`));
+      console.log(chalk.gray('埋め込みモデルは /config の embeddingModel で指定できます'));
+    }
+  }
+
+  /**
+   * 意味検索の索引を更新し、埋め込み直すファイルがあれば進捗を表示する
+   */
+  private async updateSearchIndex(): Promise<void> {
+    this.searchIndexUpdatedAt = Date.now();
+    const result = await getProjectIndex().update((done, total) => {
+      process.stdout.write('\r' + chalk.gray(`📚 検索索引を更新中... ${done}/${total}`));
+    });
+    if (result.updated > 0) {
+      process.stdout.write('\r' + ' '.repeat(50) + '\r');
+      console.log(chalk.gray(`📚 検索索引を更新しました（${result.files}ファイル・${result.chunks}チャンク）`));
+    }
+  }
+
+  /**
+   * メッセージに関連するコードを意味検索する（autoRetrievalが有効な場合のみ）
+   * 索引の更新は毎回行わず、前回の更新から一定時間が経った場合だけ行う（/search では常に更新する）
+   * 類似度がretrievalMinScore未満のコードは関係が無いものとして含めない
+   * 埋め込みを利用できない場合は警告して検索せずに続ける
+   */
+  private async retrieveRelatedCode(message: string): Promise<string> {
+    if (!config.get('autoRetrieval')) {
+      return '';
+    }
+
+    try {
+      if (Date.now() - this.searchIndexUpdatedAt > SEARCH_INDEX_REFRESH_MS) {
+        await this.updateSearchIndex();
+      }
+      const results = await getProjectIndex().search(message, 3, config.get('retrievalMinScore'));
+      if (results.length > 0) {
+        console.log(chalk.gray(`🔍 関連するコード: ${results.map(result => result.path).join(', ')}`));
+      }
+      return formatSearchResults(results);
+    } catch (error: any) {
+      if (!this.retrievalWarned) {
+        this.retrievalWarned = true;
+        console.log(chalk.yellow(`⚠️  関連コードの自動検索に失敗しました: ${error.message}`));
+      }
+      return '';
+    }
+  }
+
+  /**
+   * chatOnly: 自動実行の判定をせずにチャットで答える（カスタムコマンドのプロンプト）
+   */
+  private async handleMessage(message: string, options: { chatOnly?: boolean } = {}): Promise<void> {
     if (this.isProcessing) {
       console.log(chalk.yellow('\n⚠️  まだ処理中です...'));
       return;
     }
     
+    if (!await this.attachMentionedImages(message)) {
+      // 画像を添付できなかった場合は送信しない
+      this.pendingImages = [];
+      return;
+    }
+    if (!await this.attachMentionedFiles(message)) {
+      this.pendingImages = [];
+      return;
+    }
+    
     this.isProcessing = true;
     
     try {
-      // タスク実行リクエストの判定
-      const isTaskRequest = this.isTaskRequest(message);
+      // 使用量を記録する前にセッションを確定させる
+      if (!this.sessionManager.getCurrentSessionId()) {
+        await this.sessionManager.createSession();
+      }
+      usageLedger.setContext({
+        profile: this.currentProfile.name,
+        sessionId: this.sessionManager.getCurrentSessionId() || undefined,
+      });
+
+      // タスク実行リクエストの判定（画像付きの質問は自動実行せずチャットで答える）
+      const images = this.pendingImages;
+      this.pendingImages = [];
+      const isTaskRequest = !options.chatOnly && images.length === 0 && this.isTaskRequest(message);
       
       if (isTaskRequest) {
         // 自動実行フロー
         await this.handleAutonomousExecution(message);
       } else {
-        // 通常のチャット応答
-        await this.handleNormalChat(message);
+        // 通常のチャット応答（関連するコードを検索してコンテキストに含める）
+        const relatedCode = await this.retrieveRelatedCode(message);
+        await this.handleNormalChat(message, images, relatedCode);
       }
       
     } catch (error: any) {
@@ -477,38 +1174,145 @@ export class InteractiveChat {
   
   
   
-  private async handleNormalChat(message: string): Promise<void> {
-    // プロジェクトコンテキストを含めてメッセージを送信
-    const contextualMessage = this.projectContext 
-      ? `[プロジェクトコンテキスト]\n${this.projectContext}\n\n[ユーザーメッセージ]\n${message}`
+  private async handleNormalChat(message: string, images: ImageContentPart[] = [], relatedCode: string = ''): Promise<void> {
+    // 関連するコードを含めてメッセージを送信（プロジェクトコンテキストはエージェントが1回だけ含める）
+    const contextualText = relatedCode
+      ? `[関連するコード]\n${relatedCode}\n\n[ユーザーメッセージ]\n${message}`
       : message;
+    const contextualMessage: MessageContent = images.length > 0
+      ? [{ type: 'text', text: contextualText }, ...images]
+      : contextualText;
     
     // Processingアニメーションを開始
     const spinner = this.startProcessingAnimation();
+    this.abortController = new AbortController();
+    const signal = this.abortController.signal;
     
     let fullResponse = '';
+    let output: MarkdownWriter | null = null;
     
-    // ストリーミングが有効な場合も、全て受信してから表示
-    if (this.agent.isStreaming()) {
-      for await (const chunk of this.agent.streamChat(contextualMessage)) {
-        fullResponse += chunk;
+    try {
+      // 受信したそばからMarkdownを整形して表示する
+      if (this.agent.isStreaming()) {
+        for await (const chunk of this.agent.streamChat(contextualMessage, signal)) {
+          if (chunk) {
+            output = output || this.beginResponse(spinner);
+            output.write(chunk);
+            fullResponse += chunk;
+          }
+        }
+      } else {
+        fullResponse = await this.agent.chat(contextualMessage, signal);
+        output = this.beginResponse(spinner);
+        output.write(fullResponse);
+      }
+    } catch (error) {
+      if (!(error instanceof RequestAbortedError)) {
+        throw error;
+      }
+    } finally {
+      this.abortController = null;
+      if (output) {
+        output.end();
+      } else {
+        this.stopProcessingAnimation(spinner);
+      }
+      // コンテキストウィンドウが残り少なかったため、エージェントが送信前に古い会話を要約した場合
+      const compaction = this.agent.getLastCompaction();
+      if (compaction) {
+        this.recordCompaction(compaction, true);
       }
-    } else {
-      fullResponse = await this.agent.chat(contextualMessage);
     }
     
-    // アニメーションを停止
-    clearInterval(spinner);
-    process.stdout.write('\r' + ' '.repeat(50) + '\r');  // アニメーションをクリア
+    if (signal.aborted && !fullResponse) {
+      console.log(chalk.yellow('\n⏹  応答を中断しました'));
+      return;
+    }
     
-    // レスポンスを表示
-    console.log('\n' + chalk.cyan('🤖 NipponCode:'));
-    console.log(fullResponse);
+    const reasoning = this.agent.getLastReasoning();
+    if (signal.aborted) {
+      console.log(chalk.yellow('\n⏹  応答を中断しました（ここまでの内容は会話に残ります）'));
+    } else if (this.agent.isTruncated()) {
+      console.log(chalk.yellow('\n⚠️  最大トークン数に達したため応答が途中で終わっています（/config で maxTokens を確認してください）'));
+    }
     console.log();
     
     // セッションに保存
-    await this.sessionManager.addMessage({ role: 'user', content: message });
-    await this.sessionManager.addMessage({ role: 'assistant', content: fullResponse });
+    await this.sessionManager.addMessage({
+      role: 'user',
+      content: images.length > 0 ? [{ type: 'text', text: message }, ...images] : message,
+    });
+    await this.sessionManager.addMessage({
+      role: 'assistant',
+      content: fullResponse,
+      reasoning: config.get('saveReasoning') ? reasoning : undefined,
+    });
+    this.sessionManager.addUsage(this.agent.getLastUsage());
+    // --resumeで再開できるよう応答ごとに保存する
+    await this.persistSession();
+  }
+  
+  /**
+   * 最初の本文が届いたらアニメーションを止めて応答の表示を始める
+   * （思考過程は本文より先に届くため、この時点で要約を表示できる）
+   */
+  private beginResponse(spinner: NodeJS.Timeout): MarkdownWriter {
+    this.stopProcessingAnimation(spinner);
+    const reasoning = this.agent.getLastReasoning();
+    console.log('\n' + chalk.cyan('🤖 NipponCode:'));
+    if (reasoning) {
+      console.log(chalk.gray.dim(`💭 思考過程（${reasoning.length}文字）… /thinking で表示`));
+    }
+    return new MarkdownWriter();
+  }
+  
+  /**
+   * 古い会話を要約してコンテキストウィンドウを空ける
+   */
+  private async compactConversation(): Promise<void> {
+    const spinner = this.startProcessingAnimation('Compacting');
+    this.abortController = new AbortController();
+    try {
+      const result = await this.agent.compact(this.abortController.signal);
+      this.stopProcessingAnimation(spinner);
+      if (!result) {
+        console.log(chalk.yellow('要約できる会話がありません'));
+        return;
+      }
+      this.recordCompaction(result, false);
+      await this.persistSession();
+    } catch (error: any) {
+      this.stopProcessingAnimation(spinner);
+      if (error instanceof RequestAbortedError) {
+        console.log(chalk.yellow('⏹  要約を中断しました'));
+      } else {
+        console.log(chalk.red(`❌ 会話の要約に失敗しました: ${error.message}`));
+      }
+    } finally {
+      this.abortController = null;
+    }
+  }
+  
+  /**
+   * 要約した結果を表示し、/rewind や --resume でも要約した状態から再開できるようセッションに記録する
+   */
+  private recordCompaction(result: CompactionResult, automatic: boolean): void {
+    const label = automatic ? 'コンテキストが残り少ないため、' : '';
+    console.log(chalk.gray(
+      `🗜  ${label}${result.summarizedCount}件のメッセージを要約しました（${result.tokensBefore.toLocaleString()} → ${result.tokensAfter.toLocaleString()}トークン）`
+    ));
+    this.sessionManager.setSummary(result.summary, result.keptCount);
+  }
+
+  /**
+   * Ctrl+Cの処理
+   */
+  private handleInterrupt(): void {
+    if (this.abortController) {
+      this.abortController.abort();
+      return;
+    }
+    this.exit();
   }
   
   private startProcessingAnimation(message: string = 'Processing'): NodeJS.Timeout {
@@ -538,10 +1342,28 @@ export class InteractiveChat {
     console.log(chalk.white('  /model <name>   - モデルを変更'));
     console.log(chalk.white('  /session        - セッション管理'));
     console.log(chalk.white('    /session                 - セッション一覧'));
-    console.log(chalk.white('    /session load <id>       - セッション読込'));
-    console.log(chalk.white('    /session new             - 新規セッション'));
-    console.log(chalk.white('  /context        - プロジェクトコンテキスト表示'));
-    console.log(chalk.white('  /reload         - コンテキスト再読み込み'));
+    console.log(chalk.white('    /session load <name|id>  - セッション読込（会話・コンテキスト・モデルを復元）'));
+    console.log(chalk.white('    /session new [name]      - 新規セッション'));
+    console.log(chalk.white('    /session search <query>  - 会話を全文検索（--model, --since, --until で絞り込み）'));
+    console.log(chalk.white('    /session rename <name>   - 現在のセッションに名前を付ける'));
+    console.log(chalk.white('  /rewind [n]     - 最後のn往復を取り消す（既定1）'));
+    console.log(chalk.white('  /edit [message] - 最後の質問を編集して送り直す'));
+    console.log(chalk.white('  /retry [profile]- 最後の応答を生成し直す（別のプロファイルも指定可）'));
+    console.log(chalk.white('  /branch         - 会話の分岐を一覧表示（取り消した会話も残ります）'));
+    console.log(chalk.white('    /branch switch <番号>    - 分岐を切り替える'));
+    console.log(chalk.white('  /context        - 追加したファイル・ディレクトリとトークン数を表示'));
+    console.log(chalk.white('    /context drop <item>     - 追加したファイルを取り除く（番号でも可）'));
+    console.log(chalk.white('  @path           - ファイル・ディレクトリを追加（@src/foo.ts#L10-40 で行範囲、Tabで補完）'));
+    console.log(chalk.white('  /image <path>   - 次のメッセージに画像を添付（@画像.png でも可）'));
+    console.log(chalk.white('    /image clear             - 添付を取り消し'));
+    console.log(chalk.white('  /thinking       - 直前の応答の思考過程を表示'));
+    console.log(chalk.white('  /compact        - 古い会話を要約してコンテキストを空ける'));
+    console.log(chalk.white('  /search <query> - プロジェクトのコードを意味検索'));
+    console.log(chalk.white('  /memory         - 読み込んだメモリ（NIPPONCODE.md）を表示'));
+    console.log(chalk.white('    /memory show             - メモリの内容を表示'));
+    console.log(chalk.white('    /memory add [--user] <内容> - 規約などをNIPPONCODE.mdに追記'));
+    console.log(chalk.white('    /memory edit [--user]    - NIPPONCODE.mdをエディタで編集'));
+    console.log(chalk.white('  /reload         - メモリとカスタムコマンドを再読み込み'));
     console.log(chalk.cyan('\n🚀 インテリジェント実行コマンド:'));
     console.log(chalk.white('  /plan [task]    - タスクの実行計画を作成'));
     console.log(chalk.white('  /approve        - 計画を承認して自動実行'));
@@ -557,21 +1379,71 @@ export class InteractiveChat {
     console.log(chalk.white('  /skip           - 現在のタスクをスキップ'));
     console.log(chalk.white('  /rollback       - 直前の変更を取り消し'));
     console.log(chalk.white('  /safe-mode      - セーフモードを切り替え'));
+    if (this.customCommands.length > 0) {
+      console.log(chalk.cyan('\n🧩 カスタムコマンド（.nipponcode/commands）:\n'));
+      for (const command of this.customCommands) {
+        const source = command.source === 'user' ? chalk.gray(' (~/.nipponcode)') : '';
+        console.log(chalk.white(`  ${formatUsage(command).padEnd(15)} - ${command.description || '（説明なし）'}`) + source);
+      }
+    }
     console.log();
   }
 
+  private showReasoning(): void {
+    const reasoning = this.agent.getLastReasoning();
+    if (!reasoning) {
+      console.log(chalk.yellow('直前の応答に思考過程はありません'));
+      return;
+    }
+    console.log(chalk.cyan('\n💭 思考過程:'));
+    console.log(chalk.gray.dim(reasoning));
+    console.log();
+  }
+
+  private async handleContextCommand(args: string[]): Promise<void> {
+    if (args[0] === 'drop') {
+      const item = args.slice(1).join(' ').trim();
+      if (!item) {
+        console.log(chalk.red('取り除く項目を指定してください（/context で一覧を表示）'));
+        return;
+      }
+      // 一覧の番号、または @ を付けた表記でも指定できる
+      const attachments = this.agent.getAttachments();
+      const index = /^\d+$/.test(item) ? parseInt(item, 10) - 1 : -1;
+      const id = attachments[index]?.id || item.replace(/^@/, '');
+      if (this.agent.removeContext(id)) {
+        console.log(chalk.green(`✓ ${id} をコンテキストから取り除きました`));
+        await this.refreshMemory();
+      } else {
+        console.log(chalk.red(`'${item}' はコンテキストにありません`));
+      }
+      return;
+    }
+
+    this.showContext();
+  }
+
   private showContext(): void {
-    if (this.projectContext) {
-      console.log(chalk.cyan('\n📄 プロジェクトコンテキスト:'));
-      console.log(chalk.gray(this.projectContext.substring(0, 500) + '...'));
-    } else {
-      console.log(chalk.yellow('プロジェクトコンテキストが読み込まれていません'));
+    this.showMemory(false);
+
+    const attachments = this.agent.getAttachments();
+    if (attachments.length > 0) {
+      console.log(chalk.cyan('\n📎 追加したファイル・ディレクトリ:'));
+      attachments.forEach((item, i) => {
+        console.log(chalk.white(`  ${i + 1}. ${item.id}`) + chalk.gray(` (${item.tokens.toLocaleString()}トークン)`));
+      });
+      console.log(chalk.gray('  /context drop <番号|パス> で取り除けます'));
     }
+
+    const { used, limit } = this.agent.getContextUsage();
+    console.log(chalk.gray(`\n合計: ${used.toLocaleString()} / ${limit.toLocaleString()}トークン`));
+    console.log();
   }
 
   private showConfig(): void {
     console.log(chalk.cyan('\n⚙️  現在の設定:'));
     console.log(chalk.white(`  プロファイル: ${this.currentProfile.name}`));
+    console.log(chalk.white(`  プロバイダー: ${this.currentProfile.provider || config.get('provider')}`));
     console.log(chalk.white(`  モデル: ${this.currentProfile.model}`));
     console.log(chalk.white(`  API URL: ${this.currentProfile.apiBaseUrl}`));
     console.log(chalk.white(`  温度: ${this.currentProfile.temperature || 0.7}`));
@@ -580,19 +1452,51 @@ export class InteractiveChat {
   }
 
   private async saveSession(): Promise<void> {
-    await this.sessionManager.saveSession();
+    await this.persistSession();
     console.log(chalk.green('✓ セッションを保存しました'));
   }
 
+  /**
+   * 使用中のプロファイル・モデルと追加したコンテキストを含めてセッションを保存する
+   */
+  private async persistSession(): Promise<void> {
+    this.sessionManager.updateState({
+      profile: this.currentProfile.name,
+      model: this.currentProfile.model,
+      contexts: this.agent.getContextItems(),
+    });
+    await this.sessionManager.saveSession();
+  }
+
   private getPrompt(): string {
     if (this.isProcessing) {
       return chalk.gray('⏳ ');
     }
-    return chalk.gray('╭─') + chalk.cyan('[NipponCode]') + chalk.gray('─╮\n╰─➤ ');
+    return chalk.gray('╭─') + chalk.cyan('[NipponCode]') + this.getContextIndicator() + chalk.gray('─╮\n╰─➤ ');
+  }
+
+  /**
+   * コンテキストウィンドウの残り（例: ─[残り 82% · 98k]）
+   */
+  private getContextIndicator(): string {
+    if (!this.agent) {
+      return '';
+    }
+    const { used, limit } = this.agent.getContextUsage();
+    const remaining = Math.max(limit - used, 0);
+    const percent = Math.round((remaining / limit) * 100);
+    const label = `[残り ${percent}% · ${remaining >= 1000 ? `${Math.round(remaining / 1000)}k` : remaining}]`;
+    const color = percent < 10 ? chalk.red : percent < 30 ? chalk.yellow : chalk.gray;
+    return chalk.gray('─') + color(label);
   }
   
   private exit(): void {
+    // rl.close()でcloseイベントから再度呼ばれるため、2回目は何もしない
+    if (!this.running) {
+      return;
+    }
     this.running = false;
+    process.off('SIGINT', this.interruptHandler);
     console.log(chalk.yellow('\n👋 さようなら！'));
     this.rl.close();
     process.exit(0);
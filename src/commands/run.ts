@@ -0,0 +1,67 @@
+import chalk from 'chalk';
+import { config } from '../config';
+import { readProfiles } from '../config/profiles';
+import { ExpandedCommand, expandCustomCommand, formatUsage, loadCustomCommands } from '../config/custom-commands';
+import { parseMentions } from '../utils/mentions';
+import { chatCommand } from './chat';
+
+interface RunOptions {
+  format?: string;
+  session?: string;
+  stream?: boolean;
+  cache?: boolean;
+}
+
+/**
+ * カスタムコマンドを非対話で実行する（応答は chat -m と同じ形式で標準出力に書き出す）
+ * 名前を省略した場合は使えるコマンドの一覧を表示する
+ */
+export async function runCommand(name: string | undefined, args: string[], options: RunOptions): Promise<void> {
+  const { commands, errors } = await loadCustomCommands();
+  errors.forEach(error => console.error(chalk.yellow(`⚠️  カスタムコマンドを読み込めません: ${error}`)));
+
+  if (!name) {
+    if (commands.length === 0) {
+      console.log(chalk.gray('カスタムコマンドがありません（.nipponcode/commands/<名前>.md に作成してください）'));
+      return;
+    }
+    console.log(chalk.cyan('\n🧩 カスタムコマンド:'));
+    for (const command of commands) {
+      console.log(chalk.white(`  ${formatUsage(command)}`) + chalk.gray(` - ${command.description || '（説明なし）'}`));
+    }
+    console.log(chalk.gray('\n実行: nipponcode run <名前> [引数...]'));
+    return;
+  }
+
+  const command = commands.find(item => item.name === name.replace(/^\//, ''));
+  if (!command) {
+    console.error(chalk.red(`カスタムコマンド'${name}'が見つかりません`));
+    console.error(chalk.gray('一覧: nipponcode run'));
+    process.exit(1);
+  }
+
+  let expanded: ExpandedCommand;
+  try {
+    expanded = expandCustomCommand(command, args);
+    if (command.profile) {
+      const profile = readProfiles().get(command.profile);
+      if (!profile) {
+        throw new Error(`プロファイル'${command.profile}'が見つかりません（${command.path}）`);
+      }
+      config.applyProfile(profile);
+    }
+  } catch (error: any) {
+    console.error(chalk.red(`❌ ${error.message}`));
+    process.exit(1);
+  }
+  if (command.model) {
+    config.set('model', command.model);
+  }
+  expanded.warnings.forEach(warning => console.error(chalk.yellow(`⚠️  ${warning}`)));
+
+  await chatCommand({
+    ...options,
+    message: expanded.prompt,
+    attach: [...expanded.files, ...parseMentions(expanded.prompt)],
+  });
+}
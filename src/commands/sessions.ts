@@ -0,0 +1,145 @@
+import chalk from 'chalk';
+import { ChatSession, SessionManager, getActiveMessages, getSessionTitle } from '../session/manager';
+import { SessionFilter, SessionSearchHit, applyHighlights, filterSessions, searchSessions } from '../session/search';
+import { parseDate } from '../utils/dates';
+import { chatCommand } from './chat';
+
+interface SessionsOptions {
+  since?: string;
+  until?: string;
+  model?: string;
+  limit?: string;
+  json?: boolean;
+  // 検索結果の番号を指定して対話モードで開く
+  open?: string;
+}
+
+export async function sessionsListCommand(options: SessionsOptions): Promise<void> {
+  try {
+    const filter = parseFilter(options);
+    const sessions = filterSessions(await new SessionManager().listSessions(), filter).slice(0, parseLimit(options));
+
+    if (options.json) {
+      console.log(JSON.stringify(sessions.map(summarizeSession), null, 2));
+      return;
+    }
+    if (sessions.length === 0) {
+      console.log(chalk.gray('セッションがありません'));
+      return;
+    }
+    console.log(chalk.cyan('\n📂 セッション一覧:'));
+    printSessionList(sessions);
+    console.log(chalk.gray('\n開く: nipponcode chat --session <ID>'));
+  } catch (error: any) {
+    console.error(chalk.red(`❌ ${error.message}`));
+    process.exit(1);
+  }
+}
+
+export async function sessionsSearchCommand(queryWords: string[], options: SessionsOptions): Promise<void> {
+  const query = queryWords.join(' ');
+  let hits: SessionSearchHit[];
+  try {
+    hits = searchSessions(await new SessionManager().listSessions(), query, {
+      ...parseFilter(options),
+      limit: parseLimit(options),
+    });
+  } catch (error: any) {
+    console.error(chalk.red(`❌ ${error.message}`));
+    process.exit(1);
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(hits.map(hit => ({
+      ...summarizeSession(hit.session),
+      matches: hit.matches,
+      score: hit.score,
+      messageIndex: hit.messageIndex,
+      snippet: hit.snippet.text,
+    })), null, 2));
+    return;
+  }
+
+  if (options.open) {
+    const hit = hits[parseInt(options.open, 10) - 1];
+    if (!hit) {
+      console.error(chalk.red(`❌ ${options.open}番目の検索結果はありません（${hits.length}件）`));
+      process.exit(1);
+    }
+    await chatCommand({ session: hit.session.id });
+    return;
+  }
+
+  if (hits.length === 0) {
+    console.log(chalk.yellow(`「${query}」に一致するセッションはありません`));
+    return;
+  }
+  console.log(chalk.cyan(`\n🔍 「${query}」の検索結果（${hits.length}件）:`));
+  printSearchHits(hits);
+  console.log(chalk.gray('\n開く: nipponcode sessions search <query> --open <番号> または nipponcode chat --session <ID>'));
+}
+
+/**
+ * セッションを番号付きで表示する（/session load <番号> で開ける）
+ */
+export function printSessionList(sessions: ChatSession[], currentId?: string | null): void {
+  sessions.forEach((session, i) => {
+    const current = session.id === currentId ? ' (現在)' : '';
+    console.log(chalk.white(`  ${i + 1}. ${getSessionTitle(session)}${current}`) + chalk.gray(` [${session.id.substring(0, 8)}]`));
+    console.log(chalk.gray(`     ${describeSession(session)}`));
+  });
+}
+
+/**
+ * 検索結果を一致箇所を強調したスニペット付きで表示する
+ */
+export function printSearchHits(hits: SessionSearchHit[]): void {
+  hits.forEach((hit, i) => {
+    console.log(chalk.white(`  ${i + 1}. ${getSessionTitle(hit.session)}`) + chalk.gray(` [${hit.session.id.substring(0, 8)}] ${hit.matches}件一致`));
+    console.log(chalk.gray(`     ${describeSession(hit.session)}`));
+    const role = hit.session.messages[hit.messageIndex]?.role === 'assistant' ? '🤖' : '👤';
+    console.log(`     ${role} ${chalk.gray(applyHighlights(hit.snippet, text => chalk.bold.yellow(text)))}`);
+  });
+}
+
+function describeSession(session: ChatSession): string {
+  return [
+    new Date(session.updatedAt).toLocaleString('ja-JP'),
+    `${getActiveMessages(session).length}件`,
+    `${session.usage.totalTokens.toLocaleString()}トークン`,
+    session.model,
+  ].filter(Boolean).join(' · ');
+}
+
+function summarizeSession(session: ChatSession) {
+  return {
+    id: session.id,
+    name: session.name,
+    title: getSessionTitle(session),
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+    profile: session.profile,
+    model: session.model,
+    messages: getActiveMessages(session).length,
+    totalTokens: session.usage.totalTokens,
+  };
+}
+
+/**
+ * 絞り込みの指定を解釈する（/session search の --since などでも使う）
+ */
+export function parseFilter(options: { since?: string; until?: string; model?: string }): SessionFilter {
+  return {
+    since: options.since ? parseDate(options.since, false) : undefined,
+    until: options.until ? parseDate(options.until, true) : undefined,
+    model: options.model,
+  };
+}
+
+function parseLimit(options: SessionsOptions): number {
+  const limit = options.limit ? parseInt(options.limit, 10) : 20;
+  if (isNaN(limit) || limit <= 0) {
+    throw new Error(`件数は1以上の数値で指定してください: ${options.limit}`);
+  }
+  return limit;
+}
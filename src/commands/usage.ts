@@ -0,0 +1,94 @@
+import chalk from 'chalk';
+import { config } from '../config';
+import { modelRegistry } from '../providers/models';
+import { usageLedger, UsageGroupBy, UsageSummaryRow } from '../usage/ledger';
+import { parseDate } from '../utils/dates';
+
+interface UsageOptions {
+  group?: string;
+  since?: string;
+  until?: string;
+  json?: boolean;
+}
+
+const GROUP_KEYS: UsageGroupBy[] = ['day', 'model', 'session', 'profile', 'caller'];
+
+export async function usageCommand(options: UsageOptions): Promise<void> {
+  const groupBy = (options.group || 'day') as UsageGroupBy;
+  if (!GROUP_KEYS.includes(groupBy)) {
+    console.error(chalk.red(`❌ 不明な集計単位: ${options.group}（${GROUP_KEYS.join('/')}）`));
+    process.exit(1);
+  }
+
+  let since: Date | undefined;
+  let until: Date | undefined;
+  try {
+    since = options.since ? parseDate(options.since, false) : undefined;
+    until = options.until ? parseDate(options.until, true) : undefined;
+  } catch (error: any) {
+    console.error(chalk.red(`❌ ${error.message}`));
+    process.exit(1);
+  }
+
+  const pricing = { ...modelRegistry.getPricingTable(), ...config.get('pricing') };
+  const records = await usageLedger.read({ since, until });
+  const rows = usageLedger.summarize(records, groupBy, pricing);
+  const total = sumRows(rows);
+
+  if (options.json) {
+    console.log(JSON.stringify({
+      groupBy,
+      since: since?.toISOString(),
+      until: until?.toISOString(),
+      rows,
+      total,
+    }, null, 2));
+    return;
+  }
+
+  console.log(chalk.cyan('\n📊 トークン使用量\n'));
+
+  if (rows.length === 0) {
+    console.log(chalk.gray('記録がありません'));
+    console.log(chalk.gray(`台帳: ${usageLedger.getPath()}`));
+    return;
+  }
+
+  const keyWidth = Math.max(8, ...rows.map(row => row.key.length));
+  console.log(chalk.gray(
+    `${groupBy.padEnd(keyWidth)}  ${'呼出'.padStart(6)}  ${'入力'.padStart(10)}  ${'出力'.padStart(10)}  ${'合計'.padStart(10)}  ${'料金(USD)'.padStart(10)}`
+  ));
+  for (const row of rows) {
+    console.log(formatRow(row, keyWidth));
+  }
+  console.log(chalk.gray('-'.repeat(keyWidth + 60)));
+  console.log(chalk.bold(formatRow(total, keyWidth)));
+
+  if (total.estimatedCalls > 0) {
+    console.log(chalk.yellow(`\n※ ${total.estimatedCalls}件の呼び出しはAPIが使用量を返さなかったため推定値です`));
+  }
+  console.log(chalk.gray('※ 料金表に無いモデルは料金に含まれません（設定のpricingや.nipponcode/models.jsonで追加できます）'));
+}
+
+function sumRows(rows: UsageSummaryRow[]): UsageSummaryRow {
+  return rows.reduce((total, row) => ({
+    key: '合計',
+    calls: total.calls + row.calls,
+    promptTokens: total.promptTokens + row.promptTokens,
+    completionTokens: total.completionTokens + row.completionTokens,
+    totalTokens: total.totalTokens + row.totalTokens,
+    cost: total.cost + row.cost,
+    estimatedCalls: total.estimatedCalls + row.estimatedCalls,
+  }), { key: '合計', calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0, estimatedCalls: 0 });
+}
+
+function formatRow(row: UsageSummaryRow, keyWidth: number): string {
+  return [
+    row.key.padEnd(keyWidth),
+    String(row.calls).padStart(6),
+    row.promptTokens.toLocaleString().padStart(10),
+    row.completionTokens.toLocaleString().padStart(10),
+    row.totalTokens.toLocaleString().padStart(10),
+    `$${row.cost.toFixed(4)}`.padStart(10),
+  ].join('  ');
+}
@@ -0,0 +1,74 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { CustomCommand, expandCustomCommand, loadCustomCommands, parseCustomCommand, splitArguments } from '../custom-commands';
+
+const REVIEW_PR = `---
+description: PRをレビューする
+arguments:
+  - name: pr
+    required: true
+  - name: focus
+    default: 全体
+model: qwen2.5-coder-32b
+files: [CONTRIBUTING.md, "src/$1.ts#L1-20"]
+---
+PR #$1 を「$2」の観点でレビューしてください。
+依頼: $ARGUMENTS
+`;
+
+describe('custom commands', () => {
+  it('parses front-matter and substitutes arguments', () => {
+    const command = parseCustomCommand('review-pr', REVIEW_PR, 'project', '/tmp/review-pr.md');
+
+    expect(command).toMatchObject({
+      description: 'PRをレビューする',
+      model: 'qwen2.5-coder-32b',
+      arguments: [{ name: 'pr', required: true }, { name: 'focus', required: false, default: '全体' }],
+    });
+
+    const expanded = expandCustomCommand(command, ['42']);
+    expect(expanded.prompt).toBe('PR #42 を「全体」の観点でレビューしてください。\n依頼: 42');
+    expect(expanded.files.map(file => file.raw)).toEqual(['CONTRIBUTING.md', 'src/42.ts#L1-20']);
+
+    expect(expandCustomCommand(command, splitArguments('7 "エラー処理 と命名"'), '7 "エラー処理 と命名"').prompt)
+      .toBe('PR #7 を「エラー処理 と命名」の観点でレビューしてください。\n依頼: 7 "エラー処理 と命名"');
+    expect(() => expandCustomCommand(command, [])).toThrow('引数 <pr> を指定してください');
+  });
+
+  it('drops files outside the project from project commands', () => {
+    const project = path.join(os.tmpdir(), 'project');
+    const text = '---\nfiles: [README.md, ../../.ssh/id_rsa]\n---\n@src/app.ts と @../.aws/credentials を確認';
+    const load = (source: CustomCommand['source']) =>
+      parseCustomCommand('leak', text, source, path.join(project, '.nipponcode', 'commands', 'leak.md'));
+
+    const expanded = expandCustomCommand(load('project'), []);
+    expect(expanded.files.map(file => file.raw)).toEqual(['README.md']);
+    expect(expanded.prompt).toBe('@src/app.ts と ../.aws/credentials を確認');
+    expect(expanded.warnings).toHaveLength(2);
+
+    expect(expandCustomCommand(load('user'), []).files).toHaveLength(2);
+  });
+
+  it('prefers project commands over home commands and reports broken files', async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), 'commands-'));
+    const project = path.join(root, 'project');
+    const user = path.join(root, 'user');
+    await fs.outputFile(path.join(project, 'jp-docs.md'), 'ドキュメントを日本語で書いてください');
+    await fs.outputFile(path.join(user, 'jp-docs.md'), '---\ndescription: home\n---\n使われない');
+    await fs.outputFile(path.join(user, 'migration-plan.md'), '---\ndescription: [broken\n---\n本文');
+
+    try {
+      const { commands, errors } = await loadCustomCommands([
+        { source: 'project', dir: project },
+        { source: 'user', dir: user },
+      ]);
+
+      expect(commands.map(command => [command.name, command.source])).toEqual([['jp-docs', 'project']]);
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toContain('migration-plan.md');
+    } finally {
+      await fs.remove(root);
+    }
+  });
+});
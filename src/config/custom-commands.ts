@@ -0,0 +1,241 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { Mention, parseMentions } from '../utils/mentions';
+
+// コマンド名に使える文字（ファイル名から拡張子を除いたもの）
+const COMMAND_NAME_PATTERN = /^[\w-]+$/;
+const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+
+export interface CustomCommandArgument {
+  name: string;
+  description?: string;
+  required: boolean;
+  default?: string;
+}
+
+/**
+ * .nipponcode/commands/<name>.md で定義するスラッシュコマンド
+ */
+export interface CustomCommand {
+  name: string;
+  description: string;
+  arguments: CustomCommandArgument[];
+  // 実行に使うモデル・プロファイル（省略時は現在の設定）
+  model?: string;
+  profile?: string;
+  // 自動でコンテキストに追加するファイル（@ファイル と同じく #L10-40 で行範囲を指定できる）
+  files: string[];
+  // 送信するプロンプト（$1・$ARGUMENTS を引数に置き換える）
+  template: string;
+  source: 'project' | 'user';
+  path: string;
+}
+
+export interface ExpandedCommand {
+  prompt: string;
+  // front-matterのfilesで指定されたファイル（本文中の @ファイル はpromptに残る）
+  files: Mention[];
+  // プロジェクト外を指していたため追加しなかったファイル
+  warnings: string[];
+}
+
+/**
+ * カスタムコマンドを探すディレクトリ（同じ名前はプロジェクトの定義を優先する）
+ */
+export function getCustomCommandDirs(): Array<{ source: CustomCommand['source']; dir: string }> {
+  return [
+    { source: 'project', dir: path.join(process.cwd(), '.nipponcode', 'commands') },
+    { source: 'user', dir: path.join(os.homedir(), '.nipponcode', 'commands') },
+  ];
+}
+
+/**
+ * front-matter付きのMarkdownからコマンドを読み込む
+ *
+ * ---
+ * description: PRをレビューする
+ * arguments:
+ *   - name: pr
+ *     required: true
+ * model: qwen2.5-coder-32b
+ * files: [CONTRIBUTING.md]
+ * ---
+ * PR #$1 の差分をレビューしてください。
+ */
+export function parseCustomCommand(name: string, text: string, source: CustomCommand['source'], filePath: string): CustomCommand {
+  const match = text.match(FRONT_MATTER_PATTERN);
+  let data: Record<string, unknown> = {};
+  if (match) {
+    let parsed: unknown;
+    try {
+      parsed = parseYaml(match[1]) || {};
+    } catch (error: any) {
+      throw new Error(`${filePath}: front-matterを解析できません: ${error.message}`);
+    }
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error(`${filePath}: front-matterはキーと値の組で指定してください`);
+    }
+    data = parsed as Record<string, unknown>;
+  }
+  const template = (match ? text.slice(match[0].length) : text).trim();
+  if (!template) {
+    throw new Error(`${filePath}: プロンプトが空です`);
+  }
+
+  return {
+    name,
+    description: typeof data.description === 'string' ? data.description : '',
+    arguments: toList(data.arguments).map(arg => parseArgument(arg, filePath)),
+    ...(data.model ? { model: String(data.model) } : {}),
+    ...(data.profile ? { profile: String(data.profile) } : {}),
+    files: toList(data.files).map(String),
+    template,
+    source,
+    path: filePath,
+  };
+}
+
+/**
+ * プロジェクトとホームディレクトリのカスタムコマンドを名前順に読み込む
+ * 読み込めなかったファイルはerrorsに理由を返し、他のコマンドは使えるようにする
+ */
+export async function loadCustomCommands(
+  dirs = getCustomCommandDirs()
+): Promise<{ commands: CustomCommand[]; errors: string[] }> {
+  const commands = new Map<string, CustomCommand>();
+  const errors: string[] = [];
+
+  for (const { source, dir } of dirs) {
+    if (!await fs.pathExists(dir)) {
+      continue;
+    }
+    for (const file of (await fs.readdir(dir)).sort()) {
+      const name = path.basename(file, '.md');
+      if (!file.endsWith('.md') || commands.has(name)) {
+        continue;
+      }
+      const filePath = path.join(dir, file);
+      if (!COMMAND_NAME_PATTERN.test(name)) {
+        errors.push(`${filePath}: コマンド名に使えるのは英数字・「-」・「_」だけです`);
+        continue;
+      }
+      try {
+        commands.set(name, parseCustomCommand(name, await fs.readFile(filePath, 'utf-8'), source, filePath));
+      } catch (error: any) {
+        errors.push(error.message);
+      }
+    }
+  }
+
+  return {
+    commands: [...commands.values()].sort((a, b) => a.name.localeCompare(b.name)),
+    errors,
+  };
+}
+
+/**
+ * 引数を置き換えてプロンプトを作る
+ * $1〜$9 は位置引数（省略時はargumentsのdefault）、$ARGUMENTS は入力された引数全体
+ */
+export function expandCustomCommand(command: CustomCommand, args: string[], rawArguments: string = args.join(' ')): ExpandedCommand {
+  const missing = command.arguments.find((arg, i) => arg.required && !args[i]);
+  if (missing) {
+    throw new Error(`引数 <${missing.name}> を指定してください（使い方: ${formatUsage(command)}）`);
+  }
+
+  const values = command.arguments.map((arg, i) => args[i] ?? arg.default ?? '');
+  const substitute = (text: string) => text.replace(/\$(ARGUMENTS\b|\d)/g, (_, key: string) => {
+    if (key === 'ARGUMENTS') {
+      return rawArguments.trim();
+    }
+    const index = parseInt(key, 10) - 1;
+    return values[index] ?? args[index] ?? '';
+  });
+
+  const expanded: ExpandedCommand = {
+    prompt: substitute(command.template),
+    files: parseMentions(command.files.map(file => `@${substitute(file)}`).join(' ')),
+    warnings: [],
+  };
+  return command.source === 'project' ? restrictToProject(command, expanded) : expanded;
+}
+
+/**
+ * /help などに表示する使い方（例: /review-pr <pr> [focus]）
+ */
+export function formatUsage(command: CustomCommand): string {
+  const args = command.arguments.map(arg => (arg.required ? `<${arg.name}>` : `[${arg.name}]`));
+  return [`/${command.name}`, ...args].join(' ');
+}
+
+/**
+ * 引数を空白で区切る（"..." や '...' で囲んだ部分は1つの引数）
+ */
+export function splitArguments(input: string): string[] {
+  const args: string[] = [];
+  for (const match of input.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g)) {
+    args.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return args;
+}
+
+/**
+ * リポジトリに含まれるコマンドから秘密鍵などを送信させないよう、
+ * filesと本文の @ファイル はプロジェクト内（シンボリックリンクの参照先を含む）に限る
+ * 本文のプロジェクト外の @ファイル は @ を外して普通の文字列として残す
+ */
+function restrictToProject(command: CustomCommand, expanded: ExpandedCommand): ExpandedCommand {
+  // <プロジェクト>/.nipponcode/commands/<name>.md
+  const root = realPath(path.resolve(path.dirname(command.path), '..', '..'));
+  const isOutside = (mention: Mention) => {
+    const relative = path.relative(root, realPath(path.resolve(root, mention.path)));
+    return relative.startsWith('..') || path.isAbsolute(relative);
+  };
+  const warn = (mention: Mention) => `${command.path}: プロジェクト外のファイルは追加できません: ${mention.path}`;
+
+  let prompt = expanded.prompt;
+  const warnings: string[] = [];
+  for (const mention of parseMentions(prompt).filter(isOutside)) {
+    prompt = prompt.replace(`@${mention.raw}`, mention.raw);
+    warnings.push(warn(mention));
+  }
+  const outside = expanded.files.filter(isOutside);
+  return {
+    prompt,
+    files: expanded.files.filter(file => !outside.includes(file)),
+    warnings: [...warnings, ...outside.map(warn)],
+  };
+}
+
+function realPath(filePath: string): string {
+  try {
+    return fs.realpathSync(filePath);
+  } catch {
+    return filePath;
+  }
+}
+
+function parseArgument(arg: unknown, filePath: string): CustomCommandArgument {
+  if (typeof arg === 'string') {
+    return { name: arg, required: false };
+  }
+  const spec = typeof arg === 'object' && arg !== null ? arg as Record<string, unknown> : {};
+  if (typeof spec.name !== 'string') {
+    throw new Error(`${filePath}: argumentsにはnameを指定してください`);
+  }
+  return {
+    name: spec.name,
+    ...(spec.description ? { description: String(spec.description) } : {}),
+    required: spec.required === true,
+    ...(spec.default !== undefined ? { default: String(spec.default) } : {}),
+  };
+}
+
+function toList(value: unknown): unknown[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
@@ -3,21 +3,73 @@ import path from 'path';
 import os from 'os';
 import dotenv from 'dotenv';
 import chalk from 'chalk';
+import { ChatProfile } from './profiles';
 
 export interface VLLMConfig {
+  provider: string;
+  // 外部プロバイダーモジュールのパス（プロジェクトルートからの相対パス可）
+  providerModules: string[];
   apiBaseUrl: string;
   apiKey: string;
   model: string;
+  // トークン数の計算方法（空の場合はモデル定義から決定）
+  tokenizer: string;
+  // Azure OpenAIのAPIバージョン（空の場合は既定のバージョン）
+  apiVersion: string;
+  // Azure OpenAIのデプロイ名 → モデル名の対応
+  deployments: Record<string, string>;
   maxTokens: number;
   temperature: number;
   debug: boolean;
   sessionDir: string;
+  // 推論モデルの思考過程をセッションに保存するか
+  saveReasoning: boolean;
+  // 意味検索に使う埋め込みモデル（空の場合はプロバイダーの既定）
+  embeddingModel: string;
+  // チャットの前に関連するコードを意味検索してコンテキストに含めるか
+  autoRetrieval: boolean;
+  // 自動検索でコンテキストに含めるコードの類似度の下限（0〜1）
+  retrievalMinScore: number;
+  // 会話がコンテキストウィンドウのこの割合を超えたら古い会話を要約する（0で無効）
+  compactThreshold: number;
+  // NIPPONCODE.mdなどのメモリファイル全体のトークン数の上限（0で無制限）
+  memoryTokenBudget: number;
+  // プロバイダー呼び出しの同時実行数の上限
   maxParallel: number;
+  // 1分あたりのリクエスト数・トークン数の上限（0で無制限）
+  requestsPerMinute: number;
+  tokensPerMinute: number;
   analysisDepth: number;
   streaming: boolean;
   language: 'ja' | 'en';
+  // LLM呼び出しの記録/再生（テスト用）
+  replayMode: 'off' | 'record' | 'replay';
+  replayDir: string;
+  // 障害時に順番に切り替えるプロファイル名
+  failover: string[];
+  // 障害が発生したバックエンドを再試行するまでの秒数
+  failoverCooldown: number;
+  // モデルごとの料金（USD/100万トークン、usageコマンドの料金計算で既定値を上書き）
+  pricing: Record<string, { input: number; output: number }>;
+  // 応答キャッシュ（falseで常にAPIを呼び出す）
+  cache: boolean;
+  // キャッシュの有効期間（秒）
+  cacheTtl: number;
+  // キャッシュの最大サイズ（MB）
+  cacheMaxSize: number;
 }
 
+// プロバイダーごとの既定のAPIベースURL
+export const DEFAULT_API_BASE_URLS: Record<string, string> = {
+  openai: 'https://api.openai.com/v1',
+  anthropic: 'https://api.anthropic.com/v1',
+};
+
+export const DEFAULT_MODELS: Record<string, string> = {
+  openai: 'gpt-4-turbo-preview',
+  anthropic: 'claude-sonnet-4-20250514',
+};
+
 export class ConfigManager {
   private static instance: ConfigManager;
   private config: VLLMConfig;
@@ -45,23 +97,45 @@ export class ConfigManager {
 
   private loadDefaultConfig(): VLLMConfig {
     return {
-      apiBaseUrl: 'https://api.openai.com/v1',
+      provider: 'openai',
+      providerModules: [],
+      apiBaseUrl: DEFAULT_API_BASE_URLS.openai,
       apiKey: '',
-      model: 'gpt-4-turbo-preview',
+      model: DEFAULT_MODELS.openai,
+      tokenizer: '',
+      apiVersion: '',
+      deployments: {},
       maxTokens: 4096,
       temperature: 0.7,
       debug: false,
       sessionDir: '.nipponcode/sessions',
+      saveReasoning: false,
+      embeddingModel: '',
+      autoRetrieval: false,
+      retrievalMinScore: 0.35,
+      compactThreshold: 0.8,
+      memoryTokenBudget: 4000,
       maxParallel: 5,
+      requestsPerMinute: 0,
+      tokensPerMinute: 0,
       analysisDepth: 3,
       streaming: true,
       language: 'ja',
+      replayMode: 'off',
+      replayDir: '.nipponcode/cassettes',
+      failover: [],
+      failoverCooldown: 60,
+      pricing: {},
+      cache: true,
+      cacheTtl: 86400,
+      cacheMaxSize: 50,
     };
   }
 
   private loadConfig(): void {
     // 環境変数から読み込み
-    dotenv.config();
+    // パイプ出力を汚さないよう読み込みログを出さない
+    dotenv.config({ quiet: true });
     this.loadFromEnv();
 
     // グローバル設定ファイルから読み込み
@@ -83,9 +157,30 @@ export class ConfigManager {
         console.warn(chalk.yellow('ローカル設定ファイルの読み込みに失敗しました'));
       }
     }
+
+    this.loadRuntimeOverrides();
+    this.applyProviderDefaults();
+  }
+
+  /**
+   * ベースURL・モデルが別のプロバイダーの既定値のままなら、現在のプロバイダーの既定値に切り替える
+   * （provider=anthropicだけを設定した場合にOpenAIのURLやモデルを使わないようにする）
+   */
+  public applyProviderDefaults(): void {
+    const defaultUrl = DEFAULT_API_BASE_URLS[this.config.provider];
+    if (defaultUrl && Object.values(DEFAULT_API_BASE_URLS).includes(this.config.apiBaseUrl)) {
+      this.config.apiBaseUrl = defaultUrl;
+    }
+    const defaultModel = DEFAULT_MODELS[this.config.provider];
+    if (defaultModel && Object.values(DEFAULT_MODELS).includes(this.config.model)) {
+      this.config.model = defaultModel;
+    }
   }
 
   private loadFromEnv(): void {
+    if (process.env.VLLM_PROVIDER) {
+      this.config.provider = process.env.VLLM_PROVIDER;
+    }
     if (process.env.VLLM_API_BASE_URL) {
       this.config.apiBaseUrl = process.env.VLLM_API_BASE_URL;
     }
@@ -107,14 +202,76 @@ export class ConfigManager {
     if (process.env.VLLM_SESSION_DIR) {
       this.config.sessionDir = process.env.VLLM_SESSION_DIR;
     }
+    if (process.env.VLLM_SAVE_REASONING) {
+      this.config.saveReasoning = process.env.VLLM_SAVE_REASONING === 'true';
+    }
+    if (process.env.VLLM_EMBEDDING_MODEL) {
+      this.config.embeddingModel = process.env.VLLM_EMBEDDING_MODEL;
+    }
+    if (process.env.VLLM_AUTO_RETRIEVAL) {
+      this.config.autoRetrieval = process.env.VLLM_AUTO_RETRIEVAL === 'true';
+    }
+    if (process.env.VLLM_RETRIEVAL_MIN_SCORE) {
+      this.config.retrievalMinScore = parseFloat(process.env.VLLM_RETRIEVAL_MIN_SCORE);
+    }
+    if (process.env.VLLM_COMPACT_THRESHOLD) {
+      this.config.compactThreshold = parseFloat(process.env.VLLM_COMPACT_THRESHOLD);
+    }
+    if (process.env.VLLM_MEMORY_TOKEN_BUDGET) {
+      this.config.memoryTokenBudget = parseInt(process.env.VLLM_MEMORY_TOKEN_BUDGET);
+    }
     if (process.env.VLLM_MAX_PARALLEL) {
       this.config.maxParallel = parseInt(process.env.VLLM_MAX_PARALLEL);
     }
+    if (process.env.VLLM_REQUESTS_PER_MINUTE) {
+      this.config.requestsPerMinute = parseInt(process.env.VLLM_REQUESTS_PER_MINUTE);
+    }
+    if (process.env.VLLM_TOKENS_PER_MINUTE) {
+      this.config.tokensPerMinute = parseInt(process.env.VLLM_TOKENS_PER_MINUTE);
+    }
+    if (process.env.VLLM_TOKENIZER) {
+      this.config.tokenizer = process.env.VLLM_TOKENIZER;
+    }
+    if (process.env.VLLM_API_VERSION) {
+      this.config.apiVersion = process.env.VLLM_API_VERSION;
+    }
     if (process.env.VLLM_ANALYSIS_DEPTH) {
       this.config.analysisDepth = parseInt(process.env.VLLM_ANALYSIS_DEPTH);
     }
   }
 
+  /**
+   * 実行ごとに切り替える設定（CIでの記録/再生など）は設定ファイルより環境変数を優先する
+   */
+  private loadRuntimeOverrides(): void {
+    if (process.env.VLLM_REPLAY_MODE) {
+      this.config.replayMode = process.env.VLLM_REPLAY_MODE as VLLMConfig['replayMode'];
+    }
+    if (process.env.VLLM_REPLAY_DIR) {
+      this.config.replayDir = process.env.VLLM_REPLAY_DIR;
+    }
+    if (process.env.VLLM_NO_CACHE) {
+      this.config.cache = process.env.VLLM_NO_CACHE !== 'true';
+    }
+  }
+
+  /**
+   * loadRuntimeOverridesで環境変数から設定したキー（設定ファイルには保存しない）
+   */
+  private getRuntimeOverrideKeys(): Array<keyof VLLMConfig> {
+    const keys: Array<keyof VLLMConfig> = [];
+    if (process.env.VLLM_REPLAY_MODE) {
+      keys.push('replayMode');
+    }
+    if (process.env.VLLM_REPLAY_DIR) {
+      keys.push('replayDir');
+    }
+    if (process.env.VLLM_NO_CACHE) {
+      keys.push('cache');
+    }
+    return keys;
+  }
+
   public getConfig(): VLLMConfig {
     return { ...this.config };
   }
@@ -127,6 +284,26 @@ export class ConfigManager {
     this.config[key] = value;
   }
 
+  /**
+   * プロファイルの接続設定を反映する（ファイルには保存しない）
+   */
+  public applyProfile(profile: ChatProfile): void {
+    if (profile.provider) {
+      this.config.provider = profile.provider;
+    }
+    this.config.apiKey = profile.apiKey;
+    this.config.apiBaseUrl = profile.apiBaseUrl;
+    this.config.model = profile.model;
+    this.config.tokenizer = profile.tokenizer || '';
+    this.config.apiVersion = profile.apiVersion || '';
+    this.config.deployments = profile.deployments || {};
+    for (const key of ['maxParallel', 'requestsPerMinute', 'tokensPerMinute'] as const) {
+      if (profile[key] !== undefined) {
+        this.config[key] = profile[key]!;
+      }
+    }
+  }
+
   public async save(global: boolean = false): Promise<void> {
     const targetPath = global ? this.globalConfigPath : this.configPath;
     const targetDir = path.dirname(targetPath);
@@ -134,8 +311,11 @@ export class ConfigManager {
     // ディレクトリを作成
     await fs.ensureDir(targetDir);
 
-    // すべての設定を保存（APIキーを含む）
-    const configToSave = { ...this.config };
+    // すべての設定を保存（APIキーを含む。実行ごとに環境変数で切り替える設定は除く）
+    const configToSave: Partial<VLLMConfig> = { ...this.config };
+    for (const key of this.getRuntimeOverrideKeys()) {
+      delete configToSave[key];
+    }
 
     await fs.writeJson(targetPath, configToSave, { spaces: 2 });
   }
@@ -143,12 +323,19 @@ export class ConfigManager {
   public async reset(): Promise<void> {
     this.config = this.loadDefaultConfig();
     this.loadFromEnv();
+    this.loadRuntimeOverrides();
+    this.applyProviderDefaults();
   }
 
   public validate(): { valid: boolean; errors: string[] } {
     const errors: string[] = [];
 
-    if (!this.config.apiKey) {
+    if (!this.config.provider) {
+      errors.push('プロバイダーが設定されていません');
+    }
+
+    // 再生モードではAPIにアクセスしない
+    if (!this.config.apiKey && this.config.replayMode !== 'replay') {
       errors.push('APIキーが設定されていません');
     }
 
@@ -176,17 +363,33 @@ export class ConfigManager {
 
   public display(): void {
     console.log(chalk.cyan('=== VLLMCode 設定 ==='));
+    console.log(chalk.gray('Provider:'), this.config.provider);
     console.log(chalk.gray('API Base URL:'), this.config.apiBaseUrl);
     console.log(chalk.gray('API Key:'), this.config.apiKey ? '***' + this.config.apiKey.slice(-4) : '未設定');
     console.log(chalk.gray('Model:'), this.config.model);
+    console.log(chalk.gray('Tokenizer:'), this.config.tokenizer || '自動');
+    if (this.config.provider === 'azure') {
+      console.log(chalk.gray('API Version:'), this.config.apiVersion || '既定');
+      console.log(chalk.gray('Deployments:'), Object.entries(this.config.deployments).map(([name, model]) => `${name}=${model}`).join(', ') || 'なし');
+    }
     console.log(chalk.gray('Max Tokens:'), this.config.maxTokens);
     console.log(chalk.gray('Temperature:'), this.config.temperature);
     console.log(chalk.gray('Debug:'), this.config.debug);
     console.log(chalk.gray('Session Dir:'), this.config.sessionDir);
+    console.log(chalk.gray('Save Reasoning:'), this.config.saveReasoning);
+    console.log(chalk.gray('Embedding Model:'), this.config.embeddingModel || '自動');
+    console.log(chalk.gray('Auto Retrieval:'), this.config.autoRetrieval ? `有効（類似度${this.config.retrievalMinScore}以上）` : false);
+    console.log(chalk.gray('Compact Threshold:'), this.config.compactThreshold ? `${Math.round(this.config.compactThreshold * 100)}%` : '無効');
+    console.log(chalk.gray('Memory Token Budget:'), this.config.memoryTokenBudget || '無制限');
     console.log(chalk.gray('Max Parallel:'), this.config.maxParallel);
+    console.log(chalk.gray('Rate Limit:'), `${this.config.requestsPerMinute || '∞'} req/min, ${this.config.tokensPerMinute || '∞'} tokens/min`);
     console.log(chalk.gray('Analysis Depth:'), this.config.analysisDepth);
     console.log(chalk.gray('Streaming:'), this.config.streaming);
     console.log(chalk.gray('Language:'), this.config.language);
+    console.log(chalk.gray('Cache:'), this.config.cache ? `${this.config.cacheTtl}秒 / ${this.config.cacheMaxSize}MB` : '無効');
+    if (this.config.replayMode !== 'off') {
+      console.log(chalk.gray('Replay:'), `${this.config.replayMode} (${this.config.replayDir})`);
+    }
   }
 }
 
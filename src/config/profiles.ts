@@ -0,0 +1,62 @@
+import fs from 'fs-extra';
+import path from 'path';
+
+export interface ChatProfile {
+  name: string;
+  // 省略時は設定ファイルのproviderを使用
+  provider?: string;
+  apiKey: string;
+  apiBaseUrl: string;
+  model: string;
+  // トークン数の計算方法（省略時はモデル定義から決定）
+  tokenizer?: string;
+  // Azure OpenAIのAPIバージョン（provider: azure の場合、modelにはデプロイ名を指定）
+  apiVersion?: string;
+  // デプロイ名 → モデル名の対応（コンテキスト長やトークナイザーの決定に使用）
+  deployments?: Record<string, string>;
+  temperature?: number;
+  maxTokens?: number;
+  // このプロファイルのAPIに対する同時実行数・レート制限（省略時は無制限）
+  maxParallel?: number;
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+}
+
+/**
+ * プロファイルファイルのパスを取得
+ */
+export function getProfilesPath(): string {
+  return path.join(process.cwd(), '.nipponcode', 'profiles.json');
+}
+
+/**
+ * プロファイルを読み込む（ファイルが無い場合は空）
+ */
+export function readProfiles(): Map<string, ChatProfile> {
+  const profiles = new Map<string, ChatProfile>();
+  const profilesPath = getProfilesPath();
+
+  if (fs.existsSync(profilesPath)) {
+    const profilesData = fs.readJsonSync(profilesPath);
+    for (const [name, profile] of Object.entries(profilesData)) {
+      profiles.set(name, { ...(profile as ChatProfile), name });
+    }
+  }
+
+  return profiles;
+}
+
+/**
+ * プロファイルを保存
+ */
+export async function writeProfiles(profiles: Map<string, ChatProfile>): Promise<void> {
+  const profilesPath = getProfilesPath();
+  await fs.ensureDir(path.dirname(profilesPath));
+
+  const profilesData: Record<string, ChatProfile> = {};
+  for (const [name, profile] of profiles.entries()) {
+    profilesData[name] = profile;
+  }
+
+  await fs.writeJson(profilesPath, profilesData, { spaces: 2 });
+}
@@ -1,16 +1,21 @@
-import { OpenAIProvider } from '../providers/openai';
+import { AIProvider, Message, ProviderFactory, ToolCall, ToolDefinition, modelRegistry, stripThinking } from '../providers';
 import { config } from '../config';
 import { fileOperations } from './file-operations';
 import { commandRunner } from './command-runner';
+import { getProjectIndex } from '../search/project-index';
+import { formatSearchResults } from '../search/semantic-index';
 import chalk from 'chalk';
 
 export interface Action {
-  type: 'create_file' | 'update_file' | 'run_command' | 'read_file' | 'complete' | 'error';
+  type: 'create_file' | 'update_file' | 'run_command' | 'read_file' | 'search_code' | 'complete' | 'error';
   fileName?: string;
   content?: string;
   command?: string;
+  // search_codeの検索文
+  query?: string;
   message?: string;
   rawResponse?: string;
+  toolCallId?: string;
 }
 
 export interface ExecutionContext {
@@ -19,19 +24,93 @@ export interface ExecutionContext {
   createdFiles: string[];
   lastError?: string;
   currentDirectory: string;
+  // ネイティブツール呼び出しで使用する会話履歴
+  messages: Message[];
+  // 直前のアクションの出力（ファイル内容やコマンドの標準出力）
+  lastOutput?: string;
 }
 
+const MAX_TOOL_OUTPUT = 8000;
+
+const AGENT_TOOLS: ToolDefinition[] = [
+  {
+    name: 'create_file',
+    description: '新しいファイルを作成する',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: '作成するファイルのパス' },
+        content: { type: 'string', description: 'ファイルの完全な内容' },
+      },
+      required: ['path', 'content'],
+    },
+  },
+  {
+    name: 'update_file',
+    description: '既存のファイルを完全な内容で上書きする',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: '更新するファイルのパス' },
+        content: { type: 'string', description: 'ファイルの新しい完全な内容' },
+      },
+      required: ['path', 'content'],
+    },
+  },
+  {
+    name: 'run_command',
+    description: 'シェルコマンドを実行する（複数行も可）',
+    parameters: {
+      type: 'object',
+      properties: {
+        command: { type: 'string', description: '実行するコマンド' },
+      },
+      required: ['command'],
+    },
+  },
+  {
+    name: 'read_file',
+    description: 'ファイルの内容を読み込む',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: '読み込むファイルのパス' },
+      },
+      required: ['path'],
+    },
+  },
+  {
+    name: 'search_code',
+    description: 'プロジェクトのコードを意味検索し、関連する箇所を取得する（ファイルの場所が分からない場合に使う）',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: '探したい処理の説明（例: 請求書を検証している箇所）' },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'complete',
+    description: 'ユーザーの要求が満たされたらタスクを完了する',
+    parameters: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', description: 'ユーザーへの完了メッセージ' },
+      },
+      required: ['message'],
+    },
+  },
+];
+
 export class AutonomousAgent {
-  private aiProvider: OpenAIProvider;
   private maxIterations = 30; // 無限ループ防止
   private debug = false;
+  // ツール呼び出しに未対応のモデルではテキスト形式にフォールバックする
+  private useNativeTools = true;
 
-  constructor() {
-    this.aiProvider = new OpenAIProvider(
-      config.get('apiKey'),
-      config.get('apiBaseUrl'),
-      config.get('model')
-    );
+  private get aiProvider(): AIProvider {
+    return ProviderFactory.getProvider();
   }
 
   async executeRequest(userRequest: string): Promise<void> {
@@ -39,7 +118,8 @@ export class AutonomousAgent {
       userRequest,
       executionHistory: [],
       createdFiles: [],
-      currentDirectory: process.cwd()
+      currentDirectory: process.cwd(),
+      messages: []
     };
 
     console.log(chalk.cyan('\n🤖 AI自律エージェントを起動します...'));
@@ -50,11 +130,13 @@ export class AutonomousAgent {
 
     while (!completed && iteration < this.maxIterations) {
       iteration++;
+      let lastAction: Action | null = null;
       
       try {
         // 1. AIに次のアクションを聞く
         console.log(chalk.gray(`\n[Step ${iteration}] 次のアクションを決定中...`));
         const action = await this.getNextAction(context);
+        lastAction = action;
         
         if (this.debug) {
           console.log(chalk.gray(`[DEBUG] Action: ${JSON.stringify(action)}`));
@@ -73,6 +155,7 @@ export class AutonomousAgent {
         if (action.type === 'error') {
           console.error(chalk.red(`\n❌ エラー: ${action.message}`));
           context.lastError = action.message;
+          this.recordToolResult(context, action, `エラー: ${action.message}`);
           continue;
         }
 
@@ -81,6 +164,7 @@ export class AutonomousAgent {
         
         // 4. 実行履歴に追加
         context.executionHistory.push(result);
+        this.recordToolResult(context, action, result);
         
         // 5. 結果を表示
         console.log(chalk.green(`✓ ${result}`));
@@ -96,6 +180,9 @@ export class AutonomousAgent {
         console.error(chalk.red(`\n❌ エラーが発生しました: ${error}`));
         context.lastError = String(error);
         context.executionHistory.push(`エラー: ${error}`);
+        if (lastAction) {
+          this.recordToolResult(context, lastAction, `エラー: ${error}`);
+        }
         
         // エラーをLLMにフィードバック
         await this.reportError(error, context);
@@ -111,11 +198,141 @@ export class AutonomousAgent {
   }
 
   private async getNextAction(context: ExecutionContext): Promise<Action> {
+    // モデル定義でツール非対応とされているモデルは最初からテキスト形式を使う
+    if (this.useNativeTools && modelRegistry.lookup(config.get('model'))?.supportsTools !== false) {
+      try {
+        return await this.getNextToolAction(context);
+      } catch (error) {
+        if (!this.isToolUnsupportedError(error)) {
+          throw error;
+        }
+        console.log(chalk.gray('モデルがツール呼び出しに未対応のため、テキスト形式で続行します'));
+        this.useNativeTools = false;
+      }
+    }
+
+    return this.getNextTextAction(context);
+  }
+
+  private async getNextToolAction(context: ExecutionContext): Promise<Action> {
+    if (context.messages.length === 0) {
+      context.messages.push(
+        { role: 'system', content: this.buildToolSystemPrompt() },
+        { role: 'user', content: context.userRequest }
+      );
+    }
+
+    const response = await this.aiProvider.complete({
+      messages: context.messages,
+      model: config.get('model'),
+      caller: 'agent',
+      temperature: 0.7,
+      maxTokens: 4096,
+      tools: AGENT_TOOLS,
+      toolChoice: 'auto'
+    });
+
+    // 思考過程（<think>タグ）はアクションの解析にも履歴にも含めない
+    const content = stripThinking(response.content);
+    const toolCall = response.toolCalls?.[0];
+    if (!toolCall) {
+      // ツールを使わずテキスト形式で回答するモデルはフォールバックする
+      if (/ACTION:\s*[A-Z_]+/.test(content)) {
+        this.useNativeTools = false;
+        return this.extractAction(content);
+      }
+      context.messages.push({ role: 'assistant', content });
+      return { type: 'complete', message: content, rawResponse: content };
+    }
+
+    // 1回に1つのアクションのみ実行するため、最初のツール呼び出しだけを履歴に残す
+    context.messages.push({ role: 'assistant', content, toolCalls: [toolCall] });
+    return this.toolCallToAction(toolCall, content);
+  }
+
+  private toolCallToAction(toolCall: ToolCall, rawResponse: string): Action {
+    const action: Action = {
+      type: 'error',
+      rawResponse,
+      toolCallId: toolCall.id
+    };
+
+    let args: Record<string, string | undefined>;
+    try {
+      args = JSON.parse(toolCall.arguments || '{}');
+    } catch {
+      action.message = `ツール引数のJSONが不正です: ${toolCall.name}`;
+      return action;
+    }
+
+    switch (toolCall.name) {
+      case 'create_file':
+      case 'update_file':
+        action.type = toolCall.name;
+        action.fileName = args.path;
+        action.content = args.content;
+        break;
+      case 'run_command':
+        action.type = 'run_command';
+        action.command = args.command;
+        break;
+      case 'read_file':
+        action.type = 'read_file';
+        action.fileName = args.path;
+        break;
+      case 'search_code':
+        action.type = 'search_code';
+        action.query = args.query;
+        break;
+      case 'complete':
+        action.type = 'complete';
+        action.message = args.message;
+        break;
+      default:
+        action.message = `未知のツールです: ${toolCall.name}`;
+    }
+
+    return action;
+  }
+
+  private recordToolResult(context: ExecutionContext, action: Action, result: string): void {
+    if (!action.toolCallId) {
+      return;
+    }
+
+    let content = result;
+    if (context.lastOutput) {
+      content += `\n${context.lastOutput.substring(0, MAX_TOOL_OUTPUT)}`;
+      context.lastOutput = undefined;
+    }
+
+    context.messages.push({ role: 'tool', toolCallId: action.toolCallId, content });
+  }
+
+  private isToolUnsupportedError(error: unknown): boolean {
+    const message = error instanceof Error ? error.message : String(error);
+    return /API Error \(400\)/.test(message) && /tool/i.test(message);
+  }
+
+  private buildToolSystemPrompt(): string {
+    return `あなたは段階的にタスクを実行するプログラミングアシスタントです。
+ユーザーの要求を満たすため、提供されたツールを1回に1つずつ呼び出してください。
+作業ディレクトリ: ${process.cwd()}
+
+重要：
+1. 一度に1つのツールのみ呼び出す
+2. ファイルは1つずつ作成し、長いコードも省略せず完全に出力する
+3. ツールの実行結果を確認してから次のアクションを決める
+4. ユーザーの要求が満たされたらcompleteツールを呼び出す`;
+  }
+
+  private async getNextTextAction(context: ExecutionContext): Promise<Action> {
     const prompt = this.buildPrompt(context);
     
     const response = await this.aiProvider.complete({
       messages: [{ role: 'user', content: prompt }],
       model: config.get('model'),
+      caller: 'agent',
       temperature: 0.7,
       maxTokens: 2048
     });
@@ -152,13 +369,15 @@ ${context.lastError ? `直前のエラー: ${context.lastError}` : ''}
 - UPDATE_FILE: 既存ファイルを更新
 - RUN_COMMAND: コマンドを実行
 - READ_FILE: ファイルを読み込み
+- SEARCH_CODE: プロジェクトのコードを意味検索（ファイルの場所が分からない場合）
 - COMPLETE: タスク完了
 - ERROR: エラーで続行不可
 
 【回答形式】
 ACTION: [アクションタイプ]
 FILE: [ファイル名]（ファイル操作の場合）
-COMMAND: [実行コマンド]（コマンド実行の場合）
+COMMAND: [実行コマンド]（コマンド実行の場合。複数行の場合は\`\`\`で囲む）
+QUERY: [探したい処理の説明]（コード検索の場合）
 CONTENT:
 \`\`\`[言語]
 [ファイル内容またはコード]
@@ -172,7 +391,8 @@ MESSAGE: [ユーザーへのメッセージ]
 4. ユーザーの要求が満たされたらCOMPLETEを選択`;
   }
 
-  private extractAction(aiResponse: string): Action {
+  private extractAction(response: string): Action {
+    const aiResponse = stripThinking(response);
     const action: Action = {
       type: 'error',
       rawResponse: aiResponse
@@ -195,6 +415,9 @@ MESSAGE: [ユーザーへのメッセージ]
         case 'read_file':
           action.type = 'read_file';
           break;
+        case 'search_code':
+          action.type = 'search_code';
+          break;
         case 'complete':
           action.type = 'complete';
           break;
@@ -209,9 +432,12 @@ MESSAGE: [ユーザーへのメッセージ]
       action.fileName = fileMatch[1].trim();
     }
 
-    // コマンドの抽出
+    // コマンドの抽出（複数行のコードブロックにも対応）
+    const commandBlockMatch = aiResponse.match(/COMMAND:\s*\n?```[\w]*\n([\s\S]*?)```/);
     const commandMatch = aiResponse.match(/COMMAND:\s*(.+?)(?:\n|$)/);
-    if (commandMatch) {
+    if (commandBlockMatch) {
+      action.command = commandBlockMatch[1].trim();
+    } else if (commandMatch) {
       action.command = commandMatch[1].trim();
     }
 
@@ -221,25 +447,25 @@ MESSAGE: [ユーザーへのメッセージ]
       action.content = contentMatch[1].trim();
     }
 
+    // 検索文の抽出
+    const queryMatch = aiResponse.match(/QUERY:\s*(.+?)(?:\n|$)/);
+    if (queryMatch) {
+      action.query = queryMatch[1].trim();
+    }
+
     // メッセージの抽出
     const messageMatch = aiResponse.match(/MESSAGE:\s*(.+?)(?:\n|$)/);
     if (messageMatch) {
       action.message = messageMatch[1].trim();
     }
 
-    // フォールバック：コードブロックがある場合
-    if (!action.content && aiResponse.includes('```')) {
+    // フォールバック：ファイル操作でCONTENTラベルが無いがコードブロックがある場合
+    // （ファイル名は推測せず、FILEが無ければエラーとしてLLMにフィードバックする）
+    const isFileAction = action.type === 'create_file' || action.type === 'update_file';
+    if (!action.content && isFileAction && aiResponse.includes('```')) {
       const codeBlockMatch = aiResponse.match(/```[\w]*\n([\s\S]*?)```/);
       if (codeBlockMatch) {
         action.content = codeBlockMatch[1].trim();
-        
-        // ファイル名を推測
-        if (!action.fileName && action.type === 'create_file') {
-          const possibleFileMatch = aiResponse.match(/(\w+\.\w+)/);
-          if (possibleFileMatch) {
-            action.fileName = possibleFileMatch[1];
-          }
-        }
       }
     }
 
@@ -276,6 +502,7 @@ MESSAGE: [ユーザーへのメッセージ]
         if (!result.success) {
           throw new Error(`コマンド失敗: ${result.stderr}`);
         }
+        context.lastOutput = result.stdout;
         return `コマンド実行: ${action.command}`;
 
       case 'read_file':
@@ -284,8 +511,22 @@ MESSAGE: [ユーザーへのメッセージ]
         }
         const content = await fileOperations.readFile(action.fileName);
         context.executionHistory.push(`ファイル読み込み: ${action.fileName}\n内容:\n${content.substring(0, 500)}...`);
+        context.lastOutput = content;
         return `ファイル読み込み: ${action.fileName}`;
 
+      case 'search_code': {
+        if (!action.query) {
+          throw new Error('検索文が指定されていません');
+        }
+        const index = getProjectIndex();
+        await index.update();
+        const results = await index.search(action.query, 5);
+        const found = formatSearchResults(results) || '該当するコードが見つかりませんでした';
+        context.executionHistory.push(`コード検索: ${action.query}\n結果:\n${found.substring(0, 1000)}...`);
+        context.lastOutput = found;
+        return `コード検索: ${action.query}`;
+      }
+
       default:
         throw new Error(`未知のアクションタイプ: ${action.type}`);
     }
@@ -305,19 +546,21 @@ ${action.command ? `コマンド: ${action.command}` : ''}
       const response = await this.aiProvider.complete({
         messages: [{ role: 'user', content: prompt }],
         model: config.get('model'),
+        caller: 'agent',
         temperature: 0.3,
         maxTokens: 100
       });
 
-      if (!response.content) {
+      const answer = stripThinking(response.content);
+      if (!answer) {
         return { success: true };
       }
 
-      const content = response.content.toUpperCase();
+      const content = answer.toUpperCase();
       if (content.includes('SUCCESS')) {
         return { success: true };
       } else if (content.includes('FAILED')) {
-        const reason = response.content.split(':')[1]?.trim() || '理由不明';
+        const reason = answer.split(':')[1]?.trim() || '理由不明';
         return { success: false, message: reason };
       }
 
@@ -340,12 +583,14 @@ ${action.command ? `コマンド: ${action.command}` : ''}
       const response = await this.aiProvider.complete({
         messages: [{ role: 'user', content: prompt }],
         model: config.get('model'),
+        caller: 'agent',
         temperature: 0.5,
         maxTokens: 200
       });
 
-      if (response.content) {
-        console.log(chalk.cyan(`💡 AIアドバイス: ${response.content}`));
+      const advice = stripThinking(response.content);
+      if (advice) {
+        console.log(chalk.cyan(`💡 AIアドバイス: ${advice}`));
       }
     } catch {
       // アドバイス取得エラーは無視
@@ -1,4 +1,4 @@
-import { OpenAIProvider } from '../providers/openai';
+import { AIProvider, ProviderFactory } from '../providers';
 import { config } from '../config';
 
 export interface CodeGenerationRequest {
@@ -17,14 +17,8 @@ export interface GeneratedCode {
 }
 
 export class CodeGenerator {
-  private aiProvider: OpenAIProvider;
-
-  constructor() {
-    this.aiProvider = new OpenAIProvider(
-      config.get('apiKey'),
-      config.get('apiBaseUrl'),
-      config.get('model')
-    );
+  private get aiProvider(): AIProvider {
+    return ProviderFactory.getProvider();
   }
 
   async generateCode(request: CodeGenerationRequest): Promise<GeneratedCode[]> {
@@ -34,6 +28,7 @@ export class CodeGenerator {
       const response = await this.aiProvider.complete({
         messages: [{ role: 'user', content: prompt }],
         model: config.get('model'),
+        caller: 'codegen',
         temperature: 0.7,
         maxTokens: 4096
       });
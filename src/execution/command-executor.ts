@@ -11,7 +11,9 @@ import {
   Snapshot,
   SnapshotId
 } from '../planning/interfaces';
-import { ChatAgent, Session } from '../agents/chat';
+import { ProviderFactory, completeStructured } from '../providers';
+import { commandIntentSchema } from '../planning/schemas';
+import { config } from '../config';
 import { v4 as uuidv4 } from 'uuid';
 import crypto from 'crypto';
 
@@ -28,29 +30,11 @@ interface ExecutionOptions {
 }
 
 export class CommandExecutor extends EventEmitter {
-  private chatAgent: ChatAgent;
-  private session: Session;
   private permissionCache: PermissionCache = {};
   private snapshots: Map<string, Snapshot> = new Map();
   private executionHistory: Command[] = [];
   private abortController: AbortController | null = null;
 
-  constructor() {
-    super();
-    
-    this.session = {
-      id: 'cmd-executor-' + uuidv4(),
-      name: 'Command Executor Session',
-      messages: [],
-      contexts: [],
-      metadata: {
-        createdAt: new Date(),
-        updatedAt: new Date()
-      }
-    };
-    this.chatAgent = new ChatAgent(this.session);
-  }
-
   async execute(
     commandStr: string,
     options: ExecutionOptions = {}
@@ -166,16 +150,22 @@ export class CommandExecutor extends EventEmitter {
     }`;
 
     try {
-      const response = await this.chatAgent.chat(prompt);
-      const analysis = this.parseJSONResponse(response);
+      // 会話履歴を含めずtemperature 0で呼び出し、同じコマンドの判定は応答キャッシュから返す
+      const analysis = await completeStructured(ProviderFactory.getProvider(), {
+        messages: [{ role: 'user', content: prompt }],
+        model: config.get('model'),
+        caller: 'executor',
+        temperature: 0,
+        maxTokens: 512,
+      }, commandIntentSchema);
       
       return {
         purpose: analysis.purpose || 'Execute command',
-        category: analysis.category || 'execute',
-        targetResources: analysis.targetResources || [],
-        estimatedRisk: analysis.estimatedRisk || 'caution',
+        category: analysis.category,
+        targetResources: analysis.targetResources,
+        estimatedRisk: analysis.estimatedRisk,
         alternatives: analysis.alternatives
-      } as CommandIntent;
+      };
     } catch (error) {
       return {
         purpose: 'Execute command',
@@ -516,18 +506,6 @@ Environment: ${JSON.stringify(command.environment || {})}`;
     return args;
   }
 
-  private parseJSONResponse(response: string): any {
-    try {
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-      return {};
-    } catch {
-      return {};
-    }
-  }
-
   clearPermissionCache(): void {
     this.permissionCache = {};
   }
@@ -13,7 +13,9 @@ import { TaskPlanner } from '../planning/planner';
 import { TaskManager } from '../planning/task-manager';
 import { TaskExecutor } from './executor';
 import { ProgressTracker } from './progress-tracker';
-import { ChatAgent, Session } from '../agents/chat';
+import { ProviderFactory, completeStructured } from '../providers';
+import { detailedTaskSchema } from '../planning/schemas';
+import { config } from '../config';
 
 export interface ExecutionPhase {
   name: 'planning' | 'detailing' | 'execution' | 'completion';
@@ -53,8 +55,6 @@ export class ExecutionFlow extends EventEmitter {
   private taskManager: TaskManager;
   private executor: TaskExecutor;
   private progressTracker: ProgressTracker;
-  private chatAgent: ChatAgent;
-  private session: Session;
   private options: FlowOptions;
   private abortController: AbortController;
 
@@ -77,18 +77,6 @@ export class ExecutionFlow extends EventEmitter {
     this.progressTracker = new ProgressTracker();
     this.abortController = new AbortController();
 
-    this.session = {
-      id: 'flow-' + uuidv4(),
-      name: 'Execution Flow Session',
-      messages: [],
-      contexts: [],
-      metadata: {
-        createdAt: new Date(),
-        updatedAt: new Date()
-      }
-    };
-    this.chatAgent = new ChatAgent(this.session);
-
     this.setupEventHandlers();
   }
 
@@ -392,17 +380,22 @@ export class ExecutionFlow extends EventEmitter {
     }`;
 
     try {
-      const response = await this.chatAgent.chat(prompt);
-      const data = this.parseJSONResponse(response);
+      const data = await completeStructured(ProviderFactory.getProvider(), {
+        messages: [{ role: 'user', content: prompt }],
+        model: config.get('model'),
+        caller: 'executor',
+        temperature: 0.7,
+        maxTokens: config.get('maxTokens'),
+      }, detailedTaskSchema);
       
       return {
         ...task,
         parentId: task.id,
         order: 0,
-        steps: data.steps?.map((s: any, i: number) => ({
+        steps: data.steps.map((s: any, i: number) => ({
           id: `${task.id}-step-${i}`,
           ...s
-        })) || [],
+        })),
         resources: data.resources || [],
         risks: data.risks || [],
         rollbackStrategy: {
@@ -566,18 +559,6 @@ export class ExecutionFlow extends EventEmitter {
     return `${hours}h ${minutes % 60}m`;
   }
 
-  private parseJSONResponse(response: string): any {
-    try {
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-      return {};
-    } catch {
-      return {};
-    }
-  }
-
   private delay(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
@@ -37,7 +37,7 @@ export class TaskExecutor extends EventEmitter {
         updatedAt: new Date()
       }
     };
-    this.chatAgent = new ChatAgent(this.session);
+    this.chatAgent = new ChatAgent(this.session, 'executor');
   }
 
   async executeTask(task: DetailedTask): Promise<ExecutionResult> {
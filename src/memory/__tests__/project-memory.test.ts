@@ -0,0 +1,95 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { appendMemory, loadProjectMemory } from '../project-memory';
+
+const countTokens = (text: string) => text.length;
+
+describe('project memory', () => {
+  let root: string;
+  let project: string;
+  let home: string;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'memory-'));
+    project = path.join(root, 'project');
+    home = path.join(root, 'home');
+    await fs.ensureDir(path.join(project, '.git'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(root);
+  });
+
+  it('loads user, project and directory memory in order and expands imports', async () => {
+    await fs.outputFile(path.join(home, '.nipponcode', 'NIPPONCODE.md'), '- 回答は日本語で');
+    await fs.outputFile(path.join(project, 'NIPPONCODE.md'), '# 規約\n@import docs/style.md\n@import missing.md');
+    await fs.outputFile(path.join(project, 'docs', 'style.md'), '- インデントは2スペース');
+    await fs.outputFile(path.join(project, 'src', 'api', 'NIPPONCODE.md'), '- APIはzodで検証する');
+    await fs.outputFile(path.join(project, 'src', 'api', 'users.ts'), '');
+
+    const memory = await loadProjectMemory({
+      cwd: project,
+      homeDir: home,
+      paths: ['src/api/users.ts#L1-20'],
+      budget: 0,
+      countTokens,
+    });
+
+    expect(memory.files.map(file => [file.label, file.scope])).toEqual([
+      ['~/.nipponcode/NIPPONCODE.md', 'user'],
+      ['NIPPONCODE.md', 'project'],
+      ['src/api/NIPPONCODE.md', 'directory'],
+    ]);
+    expect(memory.files[1].content).toBe('# 規約\n- インデントは2スペース');
+    expect(memory.warnings).toHaveLength(1);
+    expect(memory.warnings[0]).toContain('missing.md');
+    expect(memory.content).toContain('## src/api/NIPPONCODE.md\n- APIはzodで検証する');
+  });
+
+  it('refuses to import files outside the project and ~/.nipponcode', async () => {
+    await fs.outputFile(path.join(root, 'secret.txt'), 'SECRET');
+    await fs.outputFile(path.join(home, '.aws', 'credentials'), 'AWS_SECRET');
+    await fs.outputFile(path.join(home, '.nipponcode', 'style.md'), '- 敬語を使う');
+    await fs.outputFile(path.join(home, '.nipponcode', 'NIPPONCODE.md'), '@import style.md');
+    await fs.outputFile(path.join(project, 'NIPPONCODE.md'), '@import ../secret.txt\n@import ~/.aws/credentials\n@import ~/.nipponcode/style.md\n- 規約');
+
+    const memory = await loadProjectMemory({ cwd: project, homeDir: home, budget: 0, countTokens });
+
+    expect(memory.files.map(file => file.content)).toEqual(['- 敬語を使う', '- 規約']);
+    expect(memory.content).not.toContain('SECRET');
+    expect(memory.warnings).toHaveLength(3);
+    expect(memory.warnings.every(warning => warning.includes('プロジェクト外のファイルは @import できません'))).toBe(true);
+  });
+
+  it('keeps specific files within the budget and truncates or skips general ones', async () => {
+    await fs.outputFile(path.join(home, '.nipponcode', 'NIPPONCODE.md'), 'user memory');
+    await fs.outputFile(path.join(project, 'NIPPONCODE.md'), 'line one\nline two\nline three');
+    await fs.outputFile(path.join(project, 'src', 'NIPPONCODE.md'), 'src memory');
+
+    const memory = await loadProjectMemory({
+      cwd: path.join(project, 'src'),
+      homeDir: home,
+      budget: 20,
+      countTokens,
+    });
+
+    expect(memory.skipped).toEqual(['~/.nipponcode/NIPPONCODE.md']);
+    expect(memory.files.map(file => [file.label, file.truncated])).toEqual([
+      ['NIPPONCODE.md', true],
+      ['src/NIPPONCODE.md', false],
+    ]);
+    expect(memory.files[0].content).toMatch(/^line one\n…/);
+    expect(memory.tokens).toBeLessThanOrEqual(20);
+  });
+
+  it('appends a bullet to the memory file', async () => {
+    const filePath = path.join(project, 'NIPPONCODE.md');
+    await fs.outputFile(filePath, '# メモ');
+
+    await appendMemory(filePath, ' テストはjestで書く ');
+
+    expect(await fs.readFile(filePath, 'utf-8')).toBe('# メモ\n- テストはjestで書く\n');
+    await expect(appendMemory(filePath, '  ')).rejects.toThrow('追加する内容を指定してください');
+  });
+});
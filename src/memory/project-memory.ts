@@ -0,0 +1,263 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+
+export const MEMORY_FILE_NAME = 'NIPPONCODE.md';
+// 以前のバージョンで読み込んでいたファイル（プロジェクトにNIPPONCODE.mdが無い場合だけ使う）
+const LEGACY_MEMORY_FILE_NAME = 'PROJECT.md';
+// @import の入れ子の上限
+const MAX_IMPORT_DEPTH = 5;
+// 行全体が「@import <パス>」の行を取り込む
+const IMPORT_PATTERN = /^@import\s+(\S+)\s*$/;
+
+export type MemoryScope = 'user' | 'project' | 'directory';
+
+export interface MemoryFile {
+  path: string;
+  // 表示用のパス（プロジェクトからの相対パス、ホームは ~/）
+  label: string;
+  scope: MemoryScope;
+  // @import を展開した内容（上限を超えた場合は途中まで）
+  content: string;
+  tokens: number;
+  truncated: boolean;
+}
+
+export interface ProjectMemory {
+  root: string;
+  // 読み込んだ順（一般的なものから具体的なものへ）
+  files: MemoryFile[];
+  // トークン数の上限を超えたため読み込まなかったファイル
+  skipped: string[];
+  // 見つからない・循環している @import など
+  warnings: string[];
+  // システムプロンプトに含める内容
+  content: string;
+  tokens: number;
+}
+
+export interface MemoryOptions {
+  cwd: string;
+  homeDir?: string;
+  // 追加したファイル・ディレクトリ（その階層のNIPPONCODE.mdも読み込む）
+  paths?: string[];
+  // 全体のトークン数の上限（0で無制限）
+  budget: number;
+  countTokens: (text: string) => number;
+}
+
+/**
+ * プロジェクトのルート（.git または .nipponcode がある最も近い親ディレクトリ、無ければcwd）
+ */
+export function findProjectRoot(cwd: string): string {
+  for (let dir = path.resolve(cwd); ; dir = path.dirname(dir)) {
+    if (fs.existsSync(path.join(dir, '.git')) || fs.existsSync(path.join(dir, '.nipponcode'))) {
+      return dir;
+    }
+    if (path.dirname(dir) === dir) {
+      return path.resolve(cwd);
+    }
+  }
+}
+
+/**
+ * ホームディレクトリのメモリファイル（/memory add --user の追記先）
+ */
+export function getUserMemoryPath(homeDir: string = os.homedir()): string {
+  return path.join(homeDir, '.nipponcode', MEMORY_FILE_NAME);
+}
+
+/**
+ * 読み込むメモリファイルの候補を順に返す
+ * ~/.nipponcode/NIPPONCODE.md → プロジェクトのルート → cwdまでの各階層 → 追加したファイルの各階層
+ */
+export function getMemoryFilePaths(options: Pick<MemoryOptions, 'cwd' | 'homeDir' | 'paths'>): Array<{ path: string; scope: MemoryScope }> {
+  const root = findProjectRoot(options.cwd);
+  const candidates: Array<{ path: string; scope: MemoryScope }> = [
+    { path: getUserMemoryPath(options.homeDir), scope: 'user' },
+    { path: path.join(root, MEMORY_FILE_NAME), scope: 'project' },
+  ];
+  if (!fs.existsSync(candidates[1].path)) {
+    candidates.push({ path: path.join(root, LEGACY_MEMORY_FILE_NAME), scope: 'project' });
+  }
+
+  const targets = [path.resolve(options.cwd), ...(options.paths || []).map(target => {
+    // @ファイル の行範囲（#L10-40）は除く
+    const absolutePath = path.resolve(options.cwd, target.replace(/#L\d+(?:-L?\d+)?$/, ''));
+    return fs.existsSync(absolutePath) && fs.statSync(absolutePath).isDirectory() ? absolutePath : path.dirname(absolutePath);
+  })];
+  for (const target of targets) {
+    const relative = path.relative(root, target);
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+      continue;
+    }
+    // ルートに近い階層から順に
+    let dir = root;
+    for (const segment of relative.split(path.sep)) {
+      dir = path.join(dir, segment);
+      candidates.push({ path: path.join(dir, MEMORY_FILE_NAME), scope: 'directory' });
+    }
+  }
+
+  const seen = new Set<string>();
+  return candidates.filter(candidate => {
+    if (seen.has(candidate.path)) {
+      return false;
+    }
+    seen.add(candidate.path);
+    return true;
+  });
+}
+
+/**
+ * メモリファイルを読み込み、@import を展開してトークン数の上限に収める
+ * 上限を超える場合は、より具体的な（深い階層の）ファイルを優先し、一般的なものから省略する
+ */
+export async function loadProjectMemory(options: MemoryOptions): Promise<ProjectMemory> {
+  const root = findProjectRoot(options.cwd);
+  const homeDir = options.homeDir || os.homedir();
+  const warnings: string[] = [];
+
+  const loaded: MemoryFile[] = [];
+  for (const candidate of getMemoryFilePaths(options)) {
+    if (!await fs.pathExists(candidate.path)) {
+      continue;
+    }
+    const raw = await fs.readFile(candidate.path, 'utf-8');
+    // リポジトリのメモリファイルから秘密鍵などを取り込ませないよう、@import はプロジェクト内
+    // （ユーザーのメモリファイルは ~/.nipponcode も）に限る
+    const allowedDirs = candidate.scope === 'user' ? [path.dirname(candidate.path), root] : [root];
+    const content = (await expandImports(raw, candidate.path, {
+      homeDir,
+      warnings,
+      seen: [candidate.path],
+      allowedDirs: await Promise.all(allowedDirs.map(realPath)),
+    })).trim();
+    if (!content) {
+      continue;
+    }
+    loaded.push({
+      path: candidate.path,
+      label: formatLabel(candidate.path, root, homeDir),
+      scope: candidate.scope,
+      content,
+      tokens: options.countTokens(content),
+      truncated: false,
+    });
+  }
+
+  const files: MemoryFile[] = [];
+  const skipped: string[] = [];
+  let remaining = options.budget > 0 ? options.budget : Infinity;
+  for (const file of [...loaded].reverse()) {
+    if (file.tokens <= remaining) {
+      files.unshift(file);
+      remaining -= file.tokens;
+    } else if (remaining > 0 && Number.isFinite(remaining)) {
+      files.unshift(truncateFile(file, remaining, options.countTokens));
+      remaining = 0;
+    } else {
+      skipped.unshift(file.label);
+    }
+  }
+
+  const content = files.map(file => `## ${file.label}\n${file.content}`).join('\n\n');
+  return {
+    root,
+    files,
+    skipped,
+    warnings,
+    content,
+    tokens: files.reduce((sum, file) => sum + file.tokens, 0),
+  };
+}
+
+/**
+ * メモリファイルの末尾に1行追記する（ファイルが無ければ作成する）
+ */
+export async function appendMemory(filePath: string, text: string): Promise<void> {
+  const line = text.trim();
+  if (!line) {
+    throw new Error('追加する内容を指定してください');
+  }
+  const current = await fs.pathExists(filePath) ? await fs.readFile(filePath, 'utf-8') : '';
+  const separator = current && !current.endsWith('\n') ? '\n' : '';
+  await fs.outputFile(filePath, `${current}${separator}- ${line}\n`, 'utf-8');
+}
+
+/**
+ * 「@import <パス>」の行をファイルの内容に置き換える（コードブロック内は対象外）
+ * パスは書かれているファイルからの相対パス、または ~/ で始まるホームディレクトリのパス
+ * allowedDirsの外（シンボリックリンクの参照先を含む）にあるファイルは取り込まない
+ */
+async function expandImports(
+  content: string,
+  filePath: string,
+  context: { homeDir: string; warnings: string[]; seen: string[]; allowedDirs: string[] }
+): Promise<string> {
+  const lines: string[] = [];
+  let inCodeBlock = false;
+
+  for (const line of content.split('\n')) {
+    if (line.trimStart().startsWith('```')) {
+      inCodeBlock = !inCodeBlock;
+    }
+    const match = inCodeBlock ? null : line.trim().match(IMPORT_PATTERN);
+    if (!match) {
+      lines.push(line);
+      continue;
+    }
+
+    const target = match[1].startsWith('~/')
+      ? path.join(context.homeDir, match[1].slice(2))
+      : path.resolve(path.dirname(filePath), match[1]);
+    const realTarget = await realPath(target);
+    if (context.seen.includes(target)) {
+      context.warnings.push(`${filePath}: @import が循環しています: ${match[1]}`);
+    } else if (context.seen.length > MAX_IMPORT_DEPTH) {
+      context.warnings.push(`${filePath}: @import の入れ子が深すぎます: ${match[1]}`);
+    } else if (!await fs.pathExists(target)) {
+      context.warnings.push(`${filePath}: @import のファイルが見つかりません: ${match[1]}`);
+    } else if (!context.allowedDirs.some(dir => isInside(dir, realTarget))) {
+      context.warnings.push(`${filePath}: プロジェクト外のファイルは @import できません: ${match[1]}`);
+    } else {
+      const imported = await fs.readFile(target, 'utf-8');
+      lines.push((await expandImports(imported, target, { ...context, seen: [...context.seen, target] })).trimEnd());
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * 残りのトークン数に収まるよう行単位で切り詰める
+ */
+function truncateFile(file: MemoryFile, budget: number, countTokens: (text: string) => number): MemoryFile {
+  const lines = file.content.split('\n');
+  // 行数の比率から見積もり、超えている間は1行ずつ減らす
+  let count = Math.max(0, Math.floor(lines.length * budget / file.tokens));
+  let content = lines.slice(0, count).join('\n');
+  while (count > 0 && countTokens(content) > budget) {
+    count--;
+    content = lines.slice(0, count).join('\n');
+  }
+  return { ...file, content: `${content}\n…（トークン数の上限のため以下省略）`, tokens: countTokens(content), truncated: true };
+}
+
+async function realPath(filePath: string): Promise<string> {
+  return fs.realpath(filePath).catch(() => path.resolve(filePath));
+}
+
+function isInside(dir: string, filePath: string): boolean {
+  const relative = path.relative(dir, filePath);
+  return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+function formatLabel(filePath: string, root: string, homeDir: string): string {
+  const relative = path.relative(root, filePath);
+  if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+    return relative.split(path.sep).join('/');
+  }
+  const fromHome = path.relative(homeDir, filePath);
+  return !fromHome.startsWith('..') && !path.isAbsolute(fromHome) ? `~/${fromHome.split(path.sep).join('/')}` : filePath;
+}
@@ -8,18 +8,13 @@ import {
   TaskStatus,
   DependencyGraph
 } from './interfaces';
-import { OpenAIProvider } from '../providers/openai';
+import { AIProvider, ProviderFactory, StructuredOutputError, completeStructured } from '../providers';
 import { config } from '../config';
+import { PlanResponse, planSchema, subtaskSchema } from './schemas';
 
 export class TaskPlanner {
-  private aiProvider: OpenAIProvider;
-
-  constructor() {
-    this.aiProvider = new OpenAIProvider(
-      config.get('apiKey'),
-      config.get('apiBaseUrl'),
-      config.get('model')
-    );
+  private get aiProvider(): AIProvider {
+    return ProviderFactory.getProvider();
   }
 
   async analyzeRequest(userInput: string): Promise<TaskPlan> {
@@ -61,23 +56,23 @@ export class TaskPlanner {
       const fullPrompt = `${prompt}
 
 User Request: ${userInput}`;
-      const response = await this.aiProvider.complete({
+      const planData = await completeStructured(this.aiProvider, {
         messages: [{ role: 'user', content: fullPrompt }],
         model: config.get('model'),
+        caller: 'planner',
         temperature: 0.7,
         maxTokens: 2048
+      }, planSchema).catch((error): PlanResponse => {
+        if (!(error instanceof StructuredOutputError)) {
+          throw error;
+        }
+        console.error('Failed to parse AI response:', error.message);
+        // Return default structure to allow graceful degradation
+        return { tasks: [], estimatedTotalDuration: 0 };
       });
       
-      if (!response.content) {
-        throw new Error('No response from AI');
-      }
-      
-      const responseText = response.content;
-
-      const planData = this.parseAIResponse(responseText);
-      
       // Enhance task data with intelligent defaults
-      const tasks: Task[] = planData.tasks.map((taskData: any, index: number) => {
+      const tasks: Task[] = planData.tasks.map((taskData, index) => {
         const task: Task = {
           id: `task-${planId}-${index}`,
           name: taskData.name,
@@ -159,20 +154,15 @@ User Request: ${userInput}`;
 
     try {
       const fullPrompt = `${prompt}\n\nDecompose this task: ${task.description}`;
-      const response = await this.aiProvider.complete({
+      const subtaskData = await completeStructured(this.aiProvider, {
         messages: [{ role: 'user', content: fullPrompt }],
         model: config.get('model'),
+        caller: 'planner',
         temperature: 0.7,
         maxTokens: 2048
-      });
-      
-      if (!response.content) {
-        throw new Error('No response from AI');
-      }
-
-      const subtaskData = this.parseAIResponse(response.content);
+      }, subtaskSchema);
       
-      return subtaskData.subtasks.map((data: any, index: number) => {
+      return subtaskData.subtasks.map((data, index) => {
         const subtask: SubTask = {
           id: `${task.id}-sub-${index}`,
           parentId: task.id,
@@ -291,27 +281,6 @@ User Request: ${userInput}`;
     return result;
   }
 
-  private parseAIResponse(response: string): any {
-    try {
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-      
-      const codeBlockMatch = response.match(/```(?:json)?\n?([\s\S]*?)\n?```/);
-      if (codeBlockMatch) {
-        return JSON.parse(codeBlockMatch[1]);
-      }
-
-      return JSON.parse(response);
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error('Failed to parse AI response:', errorMessage);
-      // Return default structure to allow graceful degradation
-      return { tasks: [], estimatedTotalDuration: 0 };
-    }
-  }
-
   private detectCycles(tasks: Task[]): boolean {
     const visited = new Set<string>();
     const recursionStack = new Set<string>();
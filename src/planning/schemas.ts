@@ -0,0 +1,170 @@
+import { defineSchema } from '../providers/structured';
+import { CommandIntent, ResourceRequirement, Risk, SafetyLevel, TaskPriority } from './interfaces';
+
+/**
+ * LLMに構造化出力させる応答の型とJSONスキーマ
+ * （ガイド付きデコーディングに渡し、応答の検証にも使う）
+ */
+
+export interface PlannedTask {
+  name: string;
+  description: string;
+  priority?: TaskPriority;
+  estimatedDuration?: number;
+  // 他タスクのIDまたは何番目のタスクか
+  dependencies?: Array<string | number>;
+  category?: 'setup' | 'implementation' | 'testing' | 'documentation' | 'deployment';
+  requiresApproval?: boolean;
+  parallelizable?: boolean;
+}
+
+export interface PlanResponse {
+  tasks: PlannedTask[];
+  estimatedTotalDuration?: number;
+  complexity?: 'simple' | 'moderate' | 'complex';
+  riskLevel?: 'low' | 'medium' | 'high';
+}
+
+export interface PlannedSubtask {
+  name: string;
+  description: string;
+  order?: number;
+  estimatedDuration?: number;
+  command?: string;
+  validation?: string;
+  rollback?: string;
+  requiresApproval?: boolean;
+  riskLevel?: 'low' | 'medium' | 'high';
+}
+
+export interface SubtaskResponse {
+  subtasks: PlannedSubtask[];
+}
+
+export interface PlannedStep {
+  description: string;
+  command?: string;
+  expectedOutput?: string;
+  requiresApproval?: boolean;
+  safetyLevel?: SafetyLevel;
+}
+
+export interface DetailedTaskResponse {
+  steps: PlannedStep[];
+  resources?: ResourceRequirement[];
+  risks?: Risk[];
+}
+
+const riskLevel = { type: 'string' as const, enum: ['low', 'medium', 'high'] };
+const safetyLevel = { type: 'string' as const, enum: ['safe', 'caution', 'danger', 'forbidden'] };
+
+export const planSchema = defineSchema<PlanResponse>('task_plan', {
+  type: 'object',
+  required: ['tasks'],
+  properties: {
+    tasks: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['name', 'description'],
+        properties: {
+          name: { type: 'string' },
+          description: { type: 'string' },
+          priority: { type: 'string', enum: ['critical', 'high', 'medium', 'low'] },
+          estimatedDuration: { type: 'number', minimum: 0 },
+          dependencies: { type: 'array' },
+          category: { type: 'string', enum: ['setup', 'implementation', 'testing', 'documentation', 'deployment'] },
+          requiresApproval: { type: 'boolean' },
+          parallelizable: { type: 'boolean' },
+        },
+      },
+    },
+    estimatedTotalDuration: { type: 'number', minimum: 0 },
+    complexity: { type: 'string', enum: ['simple', 'moderate', 'complex'] },
+    riskLevel,
+  },
+});
+
+export const subtaskSchema = defineSchema<SubtaskResponse>('subtasks', {
+  type: 'object',
+  required: ['subtasks'],
+  properties: {
+    subtasks: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['name', 'description'],
+        properties: {
+          name: { type: 'string' },
+          description: { type: 'string' },
+          order: { type: 'integer' },
+          estimatedDuration: { type: 'number', minimum: 0 },
+          command: { type: 'string' },
+          validation: { type: 'string' },
+          rollback: { type: 'string' },
+          requiresApproval: { type: 'boolean' },
+          riskLevel,
+        },
+      },
+    },
+  },
+});
+
+export const detailedTaskSchema = defineSchema<DetailedTaskResponse>('task_steps', {
+  type: 'object',
+  required: ['steps'],
+  properties: {
+    steps: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['description'],
+        properties: {
+          description: { type: 'string' },
+          command: { type: 'string' },
+          expectedOutput: { type: 'string' },
+          requiresApproval: { type: 'boolean' },
+          safetyLevel,
+        },
+      },
+    },
+    resources: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['type', 'name', 'required'],
+        properties: {
+          type: { type: 'string', enum: ['file', 'api', 'permission', 'tool'] },
+          name: { type: 'string' },
+          required: { type: 'boolean' },
+        },
+      },
+    },
+    risks: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['type', 'description', 'probability', 'impact', 'mitigation'],
+        properties: {
+          type: { type: 'string' },
+          description: { type: 'string' },
+          probability: riskLevel,
+          impact: riskLevel,
+          mitigation: { type: 'string' },
+        },
+      },
+    },
+  },
+});
+
+export const commandIntentSchema = defineSchema<CommandIntent>('command_intent', {
+  type: 'object',
+  required: ['purpose', 'category', 'targetResources', 'estimatedRisk'],
+  properties: {
+    purpose: { type: 'string' },
+    category: { type: 'string', enum: ['read', 'write', 'execute', 'delete', 'network'] },
+    targetResources: { type: 'array', items: { type: 'string' } },
+    estimatedRisk: safetyLevel,
+    alternatives: { type: 'array', items: { type: 'string' } },
+  },
+});
@@ -0,0 +1,169 @@
+import axios from 'axios';
+import { Readable } from 'stream';
+import { AnthropicProvider } from '../anthropic';
+
+jest.mock('axios');
+
+describe('AnthropicProvider', () => {
+  let post: jest.Mock;
+  let get: jest.Mock;
+  let provider: AnthropicProvider;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    post = jest.fn();
+    get = jest.fn();
+    (axios.create as jest.Mock).mockReturnValue({ post, get });
+    provider = new AnthropicProvider('test-key', 'https://api.anthropic.com/v1', 'claude-sonnet-4-20250514');
+  });
+
+  describe('complete', () => {
+    it('should hoist system messages and merge consecutive roles', async () => {
+      post.mockResolvedValue({
+        data: {
+          content: [{ type: 'text', text: 'こんにちは' }],
+          usage: { input_tokens: 10, output_tokens: 5 },
+          model: 'claude-sonnet-4-20250514',
+          stop_reason: 'end_turn',
+        },
+      });
+
+      const response = await provider.complete({
+        messages: [
+          { role: 'system', content: 'You are helpful.' },
+          { role: 'user', content: 'Hello' },
+          { role: 'system', content: '[FILE: a.ts]' },
+          { role: 'user', content: 'Again' },
+        ],
+      });
+
+      const [url, body] = post.mock.calls[0];
+      expect(url).toBe('/messages');
+      expect(body.system).toBe('You are helpful.\n\n[FILE: a.ts]');
+      expect(body.messages).toEqual([{ role: 'user', content: 'Hello\n\nAgain' }]);
+      expect(body.max_tokens).toBe(4096);
+
+      expect(response.content).toBe('こんにちは');
+      expect(response.usage).toEqual({ promptTokens: 10, completionTokens: 5, totalTokens: 15 });
+      expect(response.finishReason).toBe('end_turn');
+    });
+
+    it('should surface API errors with status code', async () => {
+      const error = Object.assign(new Error('Request failed'), {
+        response: { status: 401, data: { error: { message: 'invalid x-api-key' } } },
+      });
+      post.mockRejectedValue(error);
+      (axios.isAxiosError as unknown as jest.Mock).mockReturnValue(true);
+
+      await expect(provider.complete({ messages: [{ role: 'user', content: 'Hi' }] }))
+        .rejects.toThrow('API Error (401): invalid x-api-key');
+    });
+  });
+
+  describe('streamComplete', () => {
+    it('should yield text deltas from SSE events', async () => {
+      const events = [
+        'event: message_start\ndata: {"type":"message_start","message":{"usage":{"input_tokens":3}}}\n\n',
+        'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"Hel"}}\n\n',
+        'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"lo"}}\n\n',
+        'event: message_stop\ndata: {"type":"message_stop"}\n\n',
+      ];
+      post.mockResolvedValue({ data: Readable.from(events.map(e => Buffer.from(e))) });
+
+      const chunks = [];
+      for await (const chunk of provider.streamComplete({ messages: [{ role: 'user', content: 'Hi' }] })) {
+        chunks.push(chunk);
+      }
+
+      expect(post.mock.calls[0][1].stream).toBe(true);
+      expect(chunks).toEqual([
+        { content: 'Hel', done: false },
+        { content: 'lo', done: false },
+        { content: '', done: true },
+      ]);
+    });
+
+    it('should report usage and stop reason on the final chunk', async () => {
+      const events = [
+        'event: message_start\ndata: {"type":"message_start","message":{"usage":{"input_tokens":3}}}\n\n',
+        'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"Hi"}}\n\n',
+        'event: message_delta\ndata: {"type":"message_delta","delta":{"stop_reason":"max_tokens"},"usage":{"output_tokens":5}}\n\n',
+        'event: message_stop\ndata: {"type":"message_stop"}\n\n',
+      ];
+      post.mockResolvedValue({ data: Readable.from(events.map(e => Buffer.from(e))) });
+      const controller = new AbortController();
+
+      const chunks = [];
+      for await (const chunk of provider.streamComplete({ messages: [{ role: 'user', content: 'Hi' }], signal: controller.signal })) {
+        chunks.push(chunk);
+      }
+
+      expect(post.mock.calls[0][2].signal).toBe(controller.signal);
+      expect(chunks[chunks.length - 1]).toEqual({
+        content: '',
+        done: true,
+        finishReason: 'max_tokens',
+        usage: { promptTokens: 3, completionTokens: 5, totalTokens: 8 },
+      });
+    });
+
+    it('should parse SSE events delimited by CRLF', async () => {
+      const events = [
+        'event: content_block_delta\r\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"Hel"}}\r',
+        '\n\r\nevent: content_block_delta\r\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"lo"}}\r\n\r\n',
+        'event: message_stop\r\ndata: {"type":"message_stop"}\r\n\r\n',
+      ];
+      post.mockResolvedValue({ data: Readable.from(events.map(e => Buffer.from(e))) });
+
+      const chunks = [];
+      for await (const chunk of provider.streamComplete({ messages: [{ role: 'user', content: 'Hi' }] })) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks.map(chunk => chunk.content)).toEqual(['Hel', 'lo', '']);
+    });
+
+    it('should decode multibyte characters split across chunks', async () => {
+      const event = Buffer.from('event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"こんにちは世界"}}\n\n');
+      // 「こ」（3バイト）の途中で分割する
+      const split = event.indexOf(Buffer.from('こ')) + 1;
+      post.mockResolvedValue({ data: Readable.from([event.subarray(0, split), event.subarray(split)]) });
+
+      const chunks = [];
+      for await (const chunk of provider.streamComplete({ messages: [{ role: 'user', content: 'Hi' }] })) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks[0].content).toBe('こんにちは世界');
+    });
+
+    it('should read the error body of a failed streaming request', async () => {
+      const error = Object.assign(new Error('Request failed with status code 400'), {
+        response: {
+          status: 400,
+          headers: {},
+          data: Readable.from([Buffer.from('{"type":"error","error":{"type":"invalid_request_error",'), Buffer.from('"message":"max_tokens: too large"}}')]),
+        },
+      });
+      post.mockRejectedValue(error);
+      (axios.isAxiosError as unknown as jest.Mock).mockReturnValue(true);
+
+      const stream = provider.streamComplete({ messages: [{ role: 'user', content: 'Hi' }] });
+      await expect(stream.next()).rejects.toMatchObject({ status: 400, message: 'API Error (400): max_tokens: too large' });
+    });
+
+    it('should raise error events with their HTTP status', async () => {
+      const events = [
+        'event: error\ndata: {"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}\n\n',
+      ];
+      post.mockResolvedValue({ data: Readable.from(events.map(e => Buffer.from(e))) });
+
+      const stream = provider.streamComplete({ messages: [{ role: 'user', content: 'Hi' }] });
+      await expect(stream.next()).rejects.toMatchObject({ status: 529, message: 'API Error (529): Overloaded' });
+    });
+  });
+
+  it('should report a 200K context window for Claude models', () => {
+    expect(provider.getMaxTokens()).toBe(200000);
+  });
+});
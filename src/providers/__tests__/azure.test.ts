@@ -0,0 +1,73 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { AzureOpenAIProvider } from '../azure';
+
+interface RecordedRequest {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: unknown;
+}
+
+describe('AzureOpenAIProvider', () => {
+  let server: http.Server;
+  let endpoint: string;
+  let requests: RecordedRequest[];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        requests.push({ url: req.url || '', headers: req.headers, body: body ? JSON.parse(body) : undefined });
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({
+          model: 'gpt-4o-2024-08-06',
+          choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: 'こんにちは' } }],
+          usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 },
+        }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  it('calls the deployment URL with api-version and api-key', async () => {
+    const provider = new AzureOpenAIProvider({
+      apiKey: 'azure-key',
+      endpoint,
+      deployment: 'prod-chat',
+      apiVersion: '2024-06-01',
+      tokenizer: 'approx',
+    });
+
+    const response = await provider.complete({ messages: [{ role: 'user', content: 'hi' }] });
+
+    expect(response.content).toBe('こんにちは');
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe('/openai/deployments/prod-chat/chat/completions?api-version=2024-06-01');
+    expect(requests[0].headers['api-key']).toBe('azure-key');
+    expect(requests[0].headers.authorization).toBeUndefined();
+  });
+
+  it('resolves deployment names to models for context length and tokenizer', () => {
+    const provider = new AzureOpenAIProvider({
+      apiKey: 'azure-key',
+      endpoint,
+      deployment: 'prod-chat',
+      deployments: { 'prod-chat': 'gpt-4' },
+    });
+
+    expect(provider.getMaxTokens()).toBe(8192);
+    // gpt-4はcl100k_baseで数える
+    expect(provider.estimateTokens('hello world')).toBe(2);
+    expect(provider.getName()).toBe('Azure OpenAI');
+  });
+});
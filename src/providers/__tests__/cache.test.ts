@@ -0,0 +1,122 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { CachingProvider, ResponseCache } from '../cache';
+import { completeStructured, defineSchema } from '../structured';
+import { CompletionOptions } from '../base';
+import { StubProvider } from './helpers/stub-provider';
+
+describe('CachingProvider', () => {
+  const request = (overrides: Partial<CompletionOptions> = {}): CompletionOptions => ({
+    messages: [{ role: 'user', content: 'classify: ls -la' }],
+    model: 'stub-model',
+    temperature: 0,
+    ...overrides,
+  });
+
+  let dir: string;
+  let inner: StubProvider;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'response-cache-'));
+    inner = new StubProvider();
+    inner.complete.mockImplementation(async options => ({ content: `reply ${options.messages.length}`, model: 'stub-model' }));
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('caches zero-temperature calls automatically', async () => {
+    const provider = new CachingProvider(inner, new ResponseCache(dir));
+
+    await provider.complete(request());
+    const second = await provider.complete(request({ caller: 'other' }));
+
+    expect(second.content).toBe('reply 1');
+    expect(inner.complete).toHaveBeenCalledTimes(1);
+  });
+
+  it('respects the per-call opt-in and bypass', async () => {
+    const provider = new CachingProvider(inner, new ResponseCache(dir));
+
+    await provider.complete(request({ temperature: 0.7 }));
+    await provider.complete(request({ temperature: 0.7 }));
+    expect(inner.complete).toHaveBeenCalledTimes(2);
+
+    await provider.complete(request({ temperature: 0.7, cache: true }));
+    await provider.complete(request({ temperature: 0.7, cache: true }));
+    expect(inner.complete).toHaveBeenCalledTimes(3);
+
+    await provider.complete(request({ cache: false }));
+    await provider.complete(request({ cache: false }));
+    expect(inner.complete).toHaveBeenCalledTimes(5);
+  });
+
+  it('keys on parameters as well as messages', async () => {
+    const provider = new CachingProvider(inner, new ResponseCache(dir));
+
+    await provider.complete(request());
+    await provider.complete(request({ maxTokens: 100 }));
+    await provider.complete(request({ model: 'other-model' }));
+
+    expect(inner.complete).toHaveBeenCalledTimes(3);
+  });
+
+  it('keys on the endpoint and the configured model', async () => {
+    const withEndpoint = (baseUrl: string, model: string) => {
+      const stub = new StubProvider({ baseUrl, model });
+      stub.complete.mockResolvedValue({ content: `${baseUrl} ${model}` });
+      return new CachingProvider(stub, new ResponseCache(dir));
+    };
+    const withoutModel = request({ model: undefined });
+
+    expect((await withEndpoint('http://gpu-a:8000/v1', 'qwen').complete(withoutModel)).content).toBe('http://gpu-a:8000/v1 qwen');
+    expect((await withEndpoint('http://gpu-b:8000/v1', 'qwen').complete(withoutModel)).content).toBe('http://gpu-b:8000/v1 qwen');
+    expect((await withEndpoint('http://gpu-a:8000/v1', 'llama').complete(withoutModel)).content).toBe('http://gpu-a:8000/v1 llama');
+    expect((await withEndpoint('http://gpu-a:8000/v1', 'qwen').complete(request({ model: 'qwen' }))).content).toBe('http://gpu-a:8000/v1 qwen');
+  });
+
+  it('does not store structured output that fails validation', async () => {
+    const provider = new CachingProvider(inner, new ResponseCache(dir));
+    const schema = defineSchema<{ risk: string }>('risk', { type: 'object', required: ['risk'], properties: { risk: { type: 'string' } } });
+    inner.complete
+      .mockResolvedValueOnce({ content: 'not json' })
+      .mockResolvedValueOnce({ content: '{"risk":"safe"}' })
+      .mockResolvedValueOnce({ content: '{"risk":"danger"}' });
+
+    await expect(completeStructured(provider, request(), schema)).resolves.toEqual({ risk: 'safe' });
+    // 検証に失敗した最初の応答は保存されていないので、同じ依頼はモデルに問い合わせ直す
+    await expect(completeStructured(provider, request(), schema)).resolves.toEqual({ risk: 'danger' });
+    expect(inner.complete).toHaveBeenCalledTimes(3);
+  });
+
+  it('expires entries after the TTL', async () => {
+    const provider = new CachingProvider(inner, new ResponseCache(dir, { ttlMs: 1000 }));
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+
+    await provider.complete(request());
+    now.mockReturnValue(1_000_500);
+    await provider.complete(request());
+    expect(inner.complete).toHaveBeenCalledTimes(1);
+
+    now.mockReturnValue(1_002_000);
+    await provider.complete(request());
+    expect(inner.complete).toHaveBeenCalledTimes(2);
+
+    now.mockRestore();
+  });
+
+  it('evicts the least recently used entries beyond the size limit', async () => {
+    const provider = new CachingProvider(inner, new ResponseCache(dir, { maxBytes: 600 }));
+
+    for (let i = 0; i < 10; i++) {
+      await provider.complete(request({ messages: [{ role: 'user', content: `command ${i}` }] }));
+    }
+
+    const files = await fs.readdir(dir);
+    const total = (await Promise.all(files.map(file => fs.stat(path.join(dir, file))))).reduce((sum, stat) => sum + stat.size, 0);
+    expect(files.length).toBeLessThan(10);
+    expect(total).toBeLessThanOrEqual(600);
+  });
+});
@@ -0,0 +1,112 @@
+import { FailoverProvider } from '../failover';
+import { CompletionOptions, ProviderError, StreamChunk } from '../base';
+import { StubProvider } from './helpers/stub-provider';
+
+// バックエンド名をモデル名と応答内容にも使うスタブ
+function createBackend(label: string): StubProvider {
+  const backend = new StubProvider({ name: label, model: label });
+  backend.streamContents = [label];
+  return backend;
+}
+
+describe('FailoverProvider', () => {
+  const options: CompletionOptions = { messages: [{ role: 'user', content: 'hi' }], model: 'primary-model' };
+  let primary: StubProvider;
+  let secondary: StubProvider;
+  let provider: FailoverProvider;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    primary = createBackend('vllm');
+    secondary = createBackend('openai');
+    provider = new FailoverProvider(
+      [{ name: 'default', provider: primary }, { name: 'cloud', provider: secondary }],
+      { cooldownMs: 60000 }
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should fail over on connection errors and report the serving backend', async () => {
+    primary.complete.mockRejectedValue(new ProviderError('API Error (undefined): Connection error.'));
+    secondary.complete.mockResolvedValue({ content: 'ok' });
+
+    const response = await provider.complete(options);
+
+    expect(response).toEqual({ content: 'ok', servedBy: 'cloud' });
+    // 代替バックエンドには先頭バックエンド向けではなく、そのバックエンドのモデル名を渡す
+    expect(secondary.complete.mock.calls[0][0].model).toBe('openai');
+  });
+
+  it('should not fail over on client errors', async () => {
+    primary.complete.mockRejectedValue(new ProviderError('API Error (400): bad request', 400));
+
+    await expect(provider.complete(options)).rejects.toThrow('API Error (400)');
+    expect(secondary.complete).not.toHaveBeenCalled();
+  });
+
+  it('should skip unhealthy backends until the cool-down expires', async () => {
+    primary.complete.mockRejectedValueOnce(new ProviderError('API Error (503): Service Unavailable', 503));
+    secondary.complete.mockResolvedValue({ content: 'ok' });
+    await provider.complete(options);
+
+    await provider.complete(options);
+    expect(primary.complete).toHaveBeenCalledTimes(1);
+
+    // クールダウン経過後はhealthCheckで復旧を確認してから使用する
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 60001);
+    primary.complete.mockResolvedValue({ content: 'back' });
+
+    const response = await provider.complete(options);
+    expect(primary.healthCheck).toHaveBeenCalled();
+    expect(response.servedBy).toBe('default');
+  });
+
+  it('should fail over streams that fail before the first chunk', async () => {
+    primary.streamError = Object.assign(new Error('connect ECONNREFUSED 127.0.0.1:8000'), { code: 'ECONNREFUSED' });
+
+    const chunks: StreamChunk[] = [];
+    for await (const chunk of provider.streamComplete(options)) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual([
+      { content: 'openai', done: false },
+      { content: '', done: true, servedBy: 'cloud' },
+    ]);
+  });
+
+  it('should fail over on overloaded errors in the stream', async () => {
+    primary.streamError = new ProviderError('API Error (529): Overloaded', 529);
+
+    const chunks: StreamChunk[] = [];
+    for await (const chunk of provider.streamComplete(options)) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks[chunks.length - 1].servedBy).toBe('cloud');
+  });
+
+  it('should keep embedding with the first backend after a failover', async () => {
+    primary.complete.mockRejectedValueOnce(new ProviderError('API Error (503): Service Unavailable', 503));
+    secondary.complete.mockResolvedValue({ content: 'ok' });
+    await provider.complete(options);
+
+    const primaryEmbed = jest.spyOn(primary, 'embed').mockResolvedValue([[1, 0]]);
+    const secondaryEmbed = jest.spyOn(secondary, 'embed').mockResolvedValue([[0, 1, 0]]);
+
+    await expect(provider.embed(['text'])).resolves.toEqual([[1, 0]]);
+    expect(primaryEmbed).toHaveBeenCalledWith(['text'], undefined);
+    expect(secondaryEmbed).not.toHaveBeenCalled();
+  });
+
+  it('should report all errors when every backend fails', async () => {
+    primary.complete.mockRejectedValue(new ProviderError('Request timed out.'));
+    secondary.complete.mockRejectedValue(new ProviderError('API Error (502): Bad Gateway', 502));
+
+    await expect(provider.complete(options)).rejects.toThrow(/default: Request timed out\.\ncloud: API Error \(502\)/);
+  });
+});
@@ -0,0 +1,181 @@
+import { GovernedProvider, RequestGovernor } from '../governor';
+import { CompletionOptions, ProviderError, RequestAbortedError, StreamChunk, parseRetryAfter } from '../base';
+import { StubProvider } from './helpers/stub-provider';
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('RequestGovernor', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('limits concurrency and serves interactive requests first', async () => {
+    const governor = new RequestGovernor({ maxConcurrent: 1 });
+    const order: string[] = [];
+
+    const first = await governor.acquire('background', 0);
+    const background = governor.acquire('background', 0).then(slot => {
+      order.push('background');
+      return slot;
+    });
+    const interactive = governor.acquire('interactive', 0).then(slot => {
+      order.push('interactive');
+      return slot;
+    });
+    await flush();
+    expect(order).toEqual([]);
+
+    governor.release(first);
+    governor.release(await interactive);
+    governor.release(await background);
+
+    expect(order).toEqual(['interactive', 'background']);
+  });
+
+  it('delays requests beyond the per-minute budgets', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const governor = new RequestGovernor({ requestsPerMinute: 2, tokensPerMinute: 1000 });
+    let started = 0;
+    const start = (tokens: number) => governor.acquire('background', tokens).then(slot => {
+      started++;
+      governor.release(slot);
+    });
+
+    start(100);
+    start(100);
+    start(100);
+    await Promise.resolve();
+    await Promise.resolve();
+    expect(started).toBe(2);
+
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(started).toBe(3);
+
+    // トークン数の上限
+    start(950);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(started).toBe(3);
+    expect(governor.pending).toBe(1);
+
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(started).toBe(4);
+  });
+
+  it('removes aborted requests from the queue', async () => {
+    const governor = new RequestGovernor({ maxConcurrent: 1 });
+    const first = await governor.acquire('background', 0);
+    const controller = new AbortController();
+
+    const waiting = governor.acquire('interactive', 0, controller.signal);
+    controller.abort();
+
+    await expect(waiting).rejects.toBeInstanceOf(RequestAbortedError);
+    expect(governor.pending).toBe(0);
+    governor.release(first);
+  });
+
+  it('cancels the budget timer when the last waiting request is aborted', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const governor = new RequestGovernor({ requestsPerMinute: 1 });
+    governor.release(await governor.acquire('background', 0));
+    const controller = new AbortController();
+
+    const waiting = governor.acquire('interactive', 0, controller.signal);
+    expect(jest.getTimerCount()).toBe(1);
+    controller.abort();
+
+    await expect(waiting).rejects.toBeInstanceOf(RequestAbortedError);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+});
+
+describe('GovernedProvider', () => {
+  const options: CompletionOptions = { messages: [{ role: 'user', content: 'hi' }] };
+
+  it('retries 429 responses after Retry-After', async () => {
+    jest.useFakeTimers();
+    const inner = new StubProvider();
+    inner.complete
+      .mockRejectedValueOnce(new ProviderError('API Error (429): slow down', 429, 2000))
+      .mockResolvedValueOnce({ content: 'ok' });
+    const provider = new GovernedProvider(inner, new RequestGovernor());
+
+    const result = provider.complete(options);
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(inner.complete).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toMatchObject({ content: 'ok' });
+    expect(inner.complete).toHaveBeenCalledTimes(2);
+    jest.useRealTimers();
+  });
+
+  it('retries 5xx responses and connection errors with backoff', async () => {
+    jest.useFakeTimers();
+    const inner = new StubProvider();
+    inner.complete
+      .mockRejectedValueOnce(new ProviderError('API Error (503): unavailable', 503))
+      .mockRejectedValueOnce(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))
+      .mockResolvedValueOnce({ content: 'ok' });
+    const provider = new GovernedProvider(inner, new RequestGovernor());
+
+    const result = provider.complete(options);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(inner.complete).toHaveBeenCalledTimes(2);
+
+    await jest.advanceTimersByTimeAsync(2000);
+    await expect(result).resolves.toMatchObject({ content: 'ok' });
+    expect(inner.complete).toHaveBeenCalledTimes(3);
+    jest.useRealTimers();
+  });
+
+  it('stops waiting for a retry when the request is aborted', async () => {
+    jest.useFakeTimers();
+    const inner = new StubProvider();
+    inner.complete.mockRejectedValue(new ProviderError('API Error (429): slow down', 429, 60000));
+    const controller = new AbortController();
+    const provider = new GovernedProvider(inner, new RequestGovernor());
+
+    const result = provider.complete({ ...options, signal: controller.signal });
+    const rejected = expect(result).rejects.toBeInstanceOf(RequestAbortedError);
+    await jest.advanceTimersByTimeAsync(1000);
+    controller.abort();
+
+    await rejected;
+    expect(inner.complete).toHaveBeenCalledTimes(1);
+    expect(jest.getTimerCount()).toBe(0);
+    jest.useRealTimers();
+  });
+
+  it('does not retry other errors', async () => {
+    const inner = new StubProvider();
+    inner.complete.mockRejectedValue(new ProviderError('API Error (400): bad request', 400));
+    const provider = new GovernedProvider(inner, new RequestGovernor());
+
+    await expect(provider.complete(options)).rejects.toThrow('API Error (400)');
+    expect(inner.complete).toHaveBeenCalledTimes(1);
+  });
+
+  it('releases the slot after a stream completes', async () => {
+    const governor = new RequestGovernor({ maxConcurrent: 1 });
+    const inner = new StubProvider();
+    inner.streamContents = ['ok'];
+    const provider = new GovernedProvider(inner, governor);
+
+    for (let i = 0; i < 2; i++) {
+      const chunks: StreamChunk[] = [];
+      for await (const chunk of provider.streamComplete(options)) {
+        chunks.push(chunk);
+      }
+      expect(chunks).toHaveLength(2);
+    }
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('parses seconds and HTTP dates', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter(new Date(Date.now() + 10000).toUTCString())).toBeGreaterThan(8000);
+  });
+});
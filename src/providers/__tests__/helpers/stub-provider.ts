@@ -0,0 +1,58 @@
+import { AIProvider, CompletionOptions, CompletionResponse, StreamChunk } from '../../base';
+
+export interface StubProviderOptions {
+  // getNameが返す名前（省略時は'Stub'）
+  name?: string;
+  model?: string;
+  baseUrl?: string;
+  maxTokens?: number;
+}
+
+/**
+ * テスト用のプロバイダー
+ *
+ * completeとhealthCheckはjest.fnなので、テストごとに応答を差し替えて呼び出しを確認できる。
+ * トークン数は文字数で数える
+ */
+export class StubProvider extends AIProvider {
+  public complete = jest.fn<Promise<CompletionResponse>, [CompletionOptions]>().mockResolvedValue({ content: '' });
+  public healthCheck = jest.fn<Promise<boolean>, []>().mockResolvedValue(true);
+  // streamCompleteで順に返す内容（最後にdone: trueのチャンクを続ける）
+  public streamContents: string[] = [];
+  // 設定した場合はstreamCompleteの最初のチャンクの前に投げる
+  public streamError: Error | null = null;
+  private name: string;
+  private maxTokens: number;
+
+  constructor(options: StubProviderOptions = {}) {
+    super('', options.baseUrl ?? '', options.model ?? 'stub-model');
+    this.name = options.name ?? 'Stub';
+    this.maxTokens = options.maxTokens ?? 8192;
+  }
+
+  async *streamComplete(_options: CompletionOptions): AsyncGenerator<StreamChunk, void, unknown> {
+    if (this.streamError) {
+      throw this.streamError;
+    }
+    for (const content of this.streamContents) {
+      yield { content, done: false };
+    }
+    yield { content: '', done: true };
+  }
+
+  estimateTokens(text: string): number {
+    return text.length;
+  }
+
+  getMaxTokens(): number {
+    return this.maxTokens;
+  }
+
+  getName(): string {
+    return this.name;
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    return [this.model];
+  }
+}
@@ -0,0 +1,48 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { ModelRegistry, modelRegistry } from '../models';
+
+describe('ModelRegistry', () => {
+  it('resolves bundled entries by the most specific prefix', () => {
+    expect(modelRegistry.lookup('gpt-4o-mini-2024-07-18')).toMatchObject({ contextLength: 128000, pricing: { input: 0.15 } });
+    expect(modelRegistry.lookup('gpt-4-0613')?.contextLength).toBe(8192);
+    expect(modelRegistry.lookup('gpt-4.1-2025-04-14')).toMatchObject({ contextLength: 1047576, supportsVision: true, pricing: { input: 2 } });
+    expect(modelRegistry.lookup('gpt-4.1-mini')).toMatchObject({ contextLength: 1047576, pricing: { input: 0.4 } });
+    expect(modelRegistry.lookup('gpt-4.5-preview')).toMatchObject({ contextLength: 128000, supportsVision: true });
+    expect(modelRegistry.lookup('claude-sonnet-4-20250514')).toMatchObject({ contextLength: 200000, maxOutputTokens: 64000 });
+  });
+
+  it('matches Hugging Face style names without the organization', () => {
+    expect(modelRegistry.lookup('Qwen/Qwen2.5-7B-Instruct')).toMatchObject({ contextLength: 32768, supportsTools: true });
+    expect(modelRegistry.lookup('elyza/Llama-3-ELYZA-JP-8B')).toMatchObject({ contextLength: 8192, supportsTools: false });
+    expect(modelRegistry.lookup('tokyotech-llm/Llama-3.1-Swallow-8B-Instruct-v0.3')?.contextLength).toBe(131072);
+    expect(modelRegistry.lookup('my-unknown-model')).toBeUndefined();
+  });
+
+  it('layers detected values and project overrides over bundled ones', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'models-'));
+    const registry = new ModelRegistry({ 'qwen2.5': { contextLength: 32768, supportsTools: true } });
+    const cwd = jest.spyOn(process, 'cwd').mockReturnValue(dir);
+
+    try {
+      registry.registerDetected('Qwen/Qwen2.5-72B-Instruct', { contextLength: 16384 });
+      expect(registry.getContextLength('Qwen/Qwen2.5-72B-Instruct', 4096)).toBe(16384);
+      expect(registry.getContextLength('Qwen/Qwen2.5-7B-Instruct', 4096)).toBe(32768);
+
+      const projectFile = path.join(dir, 'models.json');
+      await fs.writeJson(projectFile, { 'qwen2.5': { supportsTools: false, pricing: { input: 0, output: 0 } } });
+      registry.loadFile(projectFile);
+
+      expect(registry.lookup('Qwen/Qwen2.5-72B-Instruct')).toEqual({
+        contextLength: 16384,
+        supportsTools: false,
+        pricing: { input: 0, output: 0 },
+      });
+      expect(registry.getPricingTable()).toEqual({ 'qwen2.5': { input: 0, output: 0 } });
+    } finally {
+      cwd.mockRestore();
+      await fs.remove(dir);
+    }
+  });
+});
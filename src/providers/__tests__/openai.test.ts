@@ -0,0 +1,222 @@
+import OpenAI from 'openai';
+import { OpenAIProvider } from '../openai';
+import { RequestAbortedError } from '../base';
+
+jest.mock('openai', () => {
+  const create = jest.fn();
+  const MockOpenAI = jest.fn().mockImplementation(() => ({
+    chat: { completions: { create } },
+    embeddings: { create: jest.fn() },
+    models: { list: jest.fn() },
+  }));
+  (MockOpenAI as any).APIError = class APIError extends Error {};
+  return { __esModule: true, default: MockOpenAI };
+});
+
+async function* toStream(chunks: any[]) {
+  for (const chunk of chunks) {
+    yield chunk;
+  }
+}
+
+describe('OpenAIProvider', () => {
+  let provider: OpenAIProvider;
+  let create: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    provider = new OpenAIProvider('test-key', 'http://localhost:8000/v1', 'gpt-4o');
+    create = (OpenAI as unknown as jest.Mock).mock.results[0].value.chat.completions.create;
+  });
+
+  describe('tool calling', () => {
+    const tools = [{
+      name: 'run_command',
+      description: 'Run a shell command',
+      parameters: { type: 'object', properties: { command: { type: 'string' } } },
+    }];
+
+    it('should send tools and tool messages in OpenAI format', async () => {
+      create.mockResolvedValue({
+        model: 'gpt-4o',
+        choices: [{
+          finish_reason: 'tool_calls',
+          message: {
+            content: null,
+            tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'run_command', arguments: '{"command":"ls"}' } }],
+          },
+        }],
+      });
+
+      const response = await provider.complete({
+        messages: [
+          { role: 'user', content: 'list files' },
+          { role: 'assistant', content: '', toolCalls: [{ id: 'call_0', name: 'run_command', arguments: '{}' }] },
+          { role: 'tool', content: 'ok', toolCallId: 'call_0' },
+        ],
+        tools,
+        toolChoice: 'auto',
+      });
+
+      const params = create.mock.calls[0][0];
+      expect(params.tools).toEqual([{ type: 'function', function: tools[0] }]);
+      expect(params.tool_choice).toBe('auto');
+      expect(params.messages[1].tool_calls[0]).toEqual({
+        id: 'call_0',
+        type: 'function',
+        function: { name: 'run_command', arguments: '{}' },
+      });
+      expect(params.messages[2]).toEqual({ role: 'tool', content: 'ok', tool_call_id: 'call_0' });
+
+      expect(response.toolCalls).toEqual([{ id: 'call_1', name: 'run_command', arguments: '{"command":"ls"}' }]);
+    });
+
+    it('should assemble streamed tool call fragments', async () => {
+      create.mockResolvedValue(toStream([
+        { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'run_command', arguments: '{"comm' } }] } }] },
+        { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: 'and":"npm test\\nnpm run lint"}' } }] } }] },
+        { choices: [{ delta: {}, finish_reason: 'tool_calls' }] },
+      ]));
+
+      const chunks = [];
+      for await (const chunk of provider.streamComplete({ messages: [{ role: 'user', content: 'test' }], tools })) {
+        chunks.push(chunk);
+      }
+
+      const last = chunks[chunks.length - 1];
+      expect(last.done).toBe(true);
+      expect(last.toolCalls).toEqual([
+        { id: 'call_1', name: 'run_command', arguments: '{"command":"npm test\\nnpm run lint"}' },
+      ]);
+    });
+  });
+
+  describe('streaming', () => {
+    it('should report usage and finish reason on the final chunk', async () => {
+      create.mockResolvedValue(toStream([
+        { choices: [{ delta: { content: 'Hello' } }] },
+        { choices: [{ delta: {}, finish_reason: 'length' }] },
+        { choices: [], usage: { prompt_tokens: 10, completion_tokens: 1, total_tokens: 11 } },
+      ]));
+      const controller = new AbortController();
+
+      const chunks = [];
+      for await (const chunk of provider.streamComplete({ messages: [{ role: 'user', content: 'test' }], signal: controller.signal })) {
+        chunks.push(chunk);
+      }
+
+      const [params, requestOptions] = create.mock.calls[0];
+      expect(params.stream_options).toEqual({ include_usage: true });
+      expect(requestOptions.signal).toBe(controller.signal);
+      expect(chunks[chunks.length - 1]).toMatchObject({
+        done: true,
+        finishReason: 'length',
+        usage: { promptTokens: 10, completionTokens: 1, totalTokens: 11 },
+      });
+    });
+
+    it('should stream reasoning_content separately from the answer', async () => {
+      create.mockResolvedValue(toStream([
+        { choices: [{ delta: { reasoning_content: 'The user greets me.' } }] },
+        { choices: [{ delta: { content: 'Hi!' } }] },
+        { choices: [{ delta: {}, finish_reason: 'stop' }] },
+      ]));
+
+      const chunks = [];
+      for await (const chunk of provider.streamComplete({ messages: [{ role: 'user', content: 'hello' }] })) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks.map(c => c.reasoning || '').join('')).toBe('The user greets me.');
+      expect(chunks.map(c => c.content).join('')).toBe('Hi!');
+    });
+
+    it('should raise RequestAbortedError when aborted', async () => {
+      const controller = new AbortController();
+      create.mockImplementation(async () => {
+        controller.abort();
+        throw new Error('Request was aborted.');
+      });
+
+      const stream = provider.streamComplete({ messages: [{ role: 'user', content: 'test' }], signal: controller.signal });
+      await expect(stream.next()).rejects.toBeInstanceOf(RequestAbortedError);
+    });
+  });
+
+  describe('response format', () => {
+    const responseFormat = { type: 'json_schema' as const, name: 'intent', schema: { type: 'object' as const } };
+
+    it('should send json_schema response_format to OpenAI', async () => {
+      const openai = new OpenAIProvider('test-key', 'https://api.openai.com/v1', 'gpt-4o');
+      const openaiCreate = (OpenAI as unknown as jest.Mock).mock.results[1].value.chat.completions.create;
+      openaiCreate.mockResolvedValue({ choices: [{ finish_reason: 'stop', message: { content: '{}' } }] });
+
+      await openai.complete({ messages: [{ role: 'user', content: 'hi' }], responseFormat });
+
+      expect(openaiCreate.mock.calls[0][0].response_format).toEqual({
+        type: 'json_schema',
+        json_schema: { name: 'intent', schema: { type: 'object' }, strict: false },
+      });
+      expect(openaiCreate.mock.calls[0][0].guided_json).toBeUndefined();
+    });
+
+    it('should send guided_json to vLLM', async () => {
+      create.mockResolvedValue({ choices: [{ finish_reason: 'stop', message: { content: '{}' } }] });
+
+      await provider.complete({ messages: [{ role: 'user', content: 'hi' }], responseFormat });
+
+      expect(create.mock.calls[0][0].guided_json).toEqual({ type: 'object' });
+      expect(create.mock.calls[0][0].response_format).toBeUndefined();
+    });
+  });
+
+  describe('images', () => {
+    const image = { type: 'image' as const, mediaType: 'image/png', data: 'iVBORw0KGgo=', path: '/tmp/screen.png' };
+
+    it('should send image parts as data URLs', async () => {
+      create.mockResolvedValue({ choices: [{ finish_reason: 'stop', message: { content: 'a button' } }] });
+
+      await provider.complete({
+        messages: [{ role: 'user', content: [{ type: 'text', text: 'what is this?' }, image] }],
+      });
+
+      expect(create.mock.calls[0][0].messages).toEqual([{
+        role: 'user',
+        content: [
+          { type: 'text', text: 'what is this?' },
+          { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } },
+        ],
+      }]);
+    });
+
+    it('should reject images for models without vision support', async () => {
+      await expect(provider.complete({
+        model: 'elyza/Llama-3-ELYZA-JP-8B',
+        messages: [{ role: 'user', content: [{ type: 'text', text: 'what is this?' }, image] }],
+      })).rejects.toThrow('画像入力に対応していません');
+      expect(create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('embeddings', () => {
+    it('should return vectors in input order', async () => {
+      const embeddingsCreate = (OpenAI as unknown as jest.Mock).mock.results[0].value.embeddings.create;
+      embeddingsCreate.mockResolvedValue({ data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }] });
+
+      await expect(provider.embed(['a', 'b'], 'intfloat/multilingual-e5-large')).resolves.toEqual([[1, 0], [0, 1]]);
+      expect(embeddingsCreate).toHaveBeenCalledWith({ model: 'intfloat/multilingual-e5-large', input: ['a', 'b'] });
+    });
+  });
+
+  describe('model info', () => {
+    it('should take the context length from vLLM max_model_len', async () => {
+      const vllm = new OpenAIProvider('test-key', 'http://localhost:8000/v1', 'my-org/custom-jp-model');
+      const list = (OpenAI as unknown as jest.Mock).mock.results[1].value.models.list;
+      list.mockResolvedValue({ data: [{ id: 'my-org/custom-jp-model', max_model_len: 24576 }, { id: 'other' }] });
+
+      expect(vllm.getMaxTokens()).toBe(4096);
+      await expect(vllm.getAvailableModels()).resolves.toEqual(['my-org/custom-jp-model', 'other']);
+      expect(vllm.getMaxTokens()).toBe(24576);
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import { ThinkingStreamParser, splitThinking, stripThinking } from '../reasoning';
+
+describe('splitThinking', () => {
+  it('separates think tags from the answer', () => {
+    expect(splitThinking('<think>\nlist files first\n</think>\n\nACTION: RUN_COMMAND')).toEqual({
+      content: 'ACTION: RUN_COMMAND',
+      reasoning: 'list files first',
+    });
+    expect(splitThinking('plain answer')).toEqual({ content: 'plain answer' });
+  });
+
+  it('treats text before a lone closing tag as reasoning', () => {
+    expect(splitThinking('hmm, maybe ls\n</think>\nACTION: LIST')).toEqual({ content: 'ACTION: LIST', reasoning: 'hmm, maybe ls' });
+    expect(stripThinking('<think>never closed')).toBe('');
+  });
+});
+
+describe('ThinkingStreamParser', () => {
+  it('routes streamed text even when tags are split across chunks', () => {
+    const parser = new ThinkingStreamParser();
+    const chunks = ['<thi', 'nk>考え', '中</th', 'ink>\n\n答', 'え<', '3'];
+    let content = '';
+    let reasoning = '';
+
+    for (const chunk of chunks) {
+      const result = parser.push(chunk);
+      content += result.content;
+      reasoning += result.reasoning;
+    }
+    const rest = parser.flush();
+
+    expect(reasoning + rest.reasoning).toBe('考え中');
+    expect(content + rest.content).toBe('答え<3');
+  });
+});
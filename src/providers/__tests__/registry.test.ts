@@ -0,0 +1,60 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { ProviderRegistry } from '../registry';
+import { AIProvider } from '../base';
+
+describe('ProviderRegistry', () => {
+  let registry: ProviderRegistry;
+
+  beforeEach(() => {
+    registry = new ProviderRegistry();
+  });
+
+  it('should create registered providers by name', () => {
+    const fake = { getName: () => 'Fake' } as unknown as AIProvider;
+    const creator = jest.fn().mockReturnValue(fake);
+    registry.register('fake', creator);
+
+    const provider = registry.create('fake', { apiKey: 'k', baseUrl: 'http://localhost', model: 'm' });
+
+    expect(provider).toBe(fake);
+    expect(creator).toHaveBeenCalledWith({ apiKey: 'k', baseUrl: 'http://localhost', model: 'm' });
+    expect(registry.list()).toEqual(['fake']);
+  });
+
+  it('should throw for unknown providers', () => {
+    expect(() => registry.create('missing', { apiKey: '', baseUrl: '', model: '' }))
+      .toThrow('不明なプロバイダーです: missing');
+  });
+
+  describe('loadModule', () => {
+    let tmpDir: string;
+
+    beforeEach(async () => {
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'nipponcode-registry-'));
+    });
+
+    afterEach(async () => {
+      await fs.remove(tmpDir);
+    });
+
+    it('should load a local module relative to the base directory', async () => {
+      await fs.writeFile(
+        path.join(tmpDir, 'my-provider.js'),
+        "exports.register = (registry) => registry.register('local', (s) => ({ getName: () => s.model }));"
+      );
+
+      await registry.loadModule('./my-provider.js', tmpDir);
+
+      expect(registry.has('local')).toBe(true);
+      expect(registry.create('local', { apiKey: '', baseUrl: '', model: 'qwen' }).getName()).toBe('qwen');
+    });
+
+    it('should reject modules without a register function', async () => {
+      await fs.writeFile(path.join(tmpDir, 'broken.js'), 'exports.foo = 1;');
+
+      await expect(registry.loadModule('./broken.js', tmpDir)).rejects.toThrow('register関数');
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { ReplayProvider } from '../replay';
+import { AIProvider, CompletionOptions, StreamChunk } from '../base';
+import { SimpleChatAgent } from '../../agents/simple-chat';
+import { StubProvider } from './helpers/stub-provider';
+
+// SimpleChatAgentが使うプロバイダーをテストごとに差し替える
+let currentProvider: AIProvider;
+jest.mock('../index', () => ({ ProviderFactory: { getProvider: () => currentProvider } }));
+jest.mock('../../analyzers/project', () => ({ ProjectAnalyzer: jest.fn() }));
+jest.mock('../../utils/setup', () => ({ getSessionDir: () => '' }));
+jest.mock('../../config', () => {
+  const values: Record<string, unknown> = { language: 'ja', streaming: false, temperature: 0, maxTokens: 4096, compactThreshold: 0.8 };
+  return { config: { get: (key: string) => values[key] } };
+});
+
+// 呼び出し回数を数え、何回目の応答かを内容に含めるプロバイダー
+class FakeProvider extends StubProvider {
+  public calls = 0;
+
+  constructor() {
+    super({ name: 'Fake', model: 'fake-model', baseUrl: 'http://localhost', maxTokens: 32768 });
+    this.complete.mockImplementation(async () => {
+      this.calls++;
+      return { content: `answer ${this.calls}`, model: 'fake-model', finishReason: 'stop' };
+    });
+  }
+
+  async *streamComplete(_options: CompletionOptions): AsyncGenerator<StreamChunk, void, unknown> {
+    this.calls++;
+    yield { content: 'こん', done: false };
+    await new Promise(resolve => setTimeout(resolve, 20));
+    yield { content: 'にちは', done: false };
+    yield { content: '', done: true };
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    this.calls++;
+    return texts.map(text => [text.length, 1]);
+  }
+}
+
+describe('ReplayProvider', () => {
+  let cassetteDir: string;
+  const options: CompletionOptions = {
+    messages: [
+      { role: 'system', content: 'You are helpful.' },
+      { role: 'user', content: 'Hello\r\n' },
+    ],
+    temperature: 0,
+  };
+
+  beforeEach(async () => {
+    cassetteDir = await fs.mkdtemp(path.join(os.tmpdir(), 'nipponcode-cassettes-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(cassetteDir);
+  });
+
+  it('should record responses and replay them in order without the real provider', async () => {
+    const inner = new FakeProvider();
+    const recorder = new ReplayProvider('record', cassetteDir, { inner });
+    expect((await recorder.complete(options)).content).toBe('answer 1');
+    expect((await recorder.complete(options)).content).toBe('answer 2');
+    expect(await fs.readdir(cassetteDir)).toHaveLength(1);
+
+    const player = new ReplayProvider('replay', cassetteDir);
+    // 改行コードの違いはキーに影響しない
+    const normalized = { ...options, messages: [options.messages[0], { role: 'user' as const, content: 'Hello' }] };
+    expect((await player.complete(normalized)).content).toBe('answer 1');
+    expect((await player.complete(normalized)).content).toBe('answer 2');
+    expect((await player.complete(normalized)).content).toBe('answer 2');
+    expect(inner.calls).toBe(2);
+  });
+
+  it('should replay stream chunks with recorded timing', async () => {
+    const recorder = new ReplayProvider('record', cassetteDir, { inner: new FakeProvider() });
+    const recorded: StreamChunk[] = [];
+    for await (const chunk of recorder.streamComplete(options)) {
+      recorded.push(chunk);
+    }
+    expect(recorded).toHaveLength(3);
+
+    const player = new ReplayProvider('replay', cassetteDir);
+    const started = Date.now();
+    const chunks: StreamChunk[] = [];
+    for await (const chunk of player.streamComplete(options)) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.map(c => c.content).join('')).toBe('こんにちは');
+    expect(chunks[chunks.length - 1].done).toBe(true);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(15);
+  });
+
+  it('should match cassettes recorded in another working directory', async () => {
+    const withDir = (dir: string): CompletionOptions => ({
+      messages: [{ role: 'system', content: `作業ディレクトリ: ${dir}` }, { role: 'user', content: 'Hello' }],
+    });
+    const recorder = new ReplayProvider('record', cassetteDir, { inner: new FakeProvider(), workingDir: '/home/dev/app' });
+    await recorder.complete(withDir('/home/dev/app'));
+
+    const player = new ReplayProvider('replay', cassetteDir, { workingDir: '/builds/ci/app' });
+    expect((await player.complete(withDir('/builds/ci/app'))).content).toBe('answer 1');
+  });
+
+  it('should record and replay embeddings', async () => {
+    const inner = new FakeProvider();
+    const recorder = new ReplayProvider('record', cassetteDir, { inner });
+    expect(await recorder.embed(['abc', 'de'])).toEqual([[3, 1], [2, 1]]);
+
+    const player = new ReplayProvider('replay', cassetteDir);
+    expect(await player.embed(['abc', 'de'])).toEqual([[3, 1], [2, 1]]);
+    expect(inner.calls).toBe(1);
+  });
+
+  it('should count tokens from the model definition in both modes', () => {
+    const recorder = new ReplayProvider('record', cassetteDir, { inner: new FakeProvider(), model: 'llama-3-elyza-jp-8b' });
+    const player = new ReplayProvider('replay', cassetteDir, { model: 'llama-3-elyza-jp-8b' });
+
+    expect(recorder.getMaxTokens()).toBe(8192);
+    expect(player.getMaxTokens()).toBe(8192);
+    expect(recorder.estimateTokens('こんにちは world')).toBe(player.estimateTokens('こんにちは world'));
+  });
+
+  it('should fail clearly when no cassette matches', async () => {
+    const player = new ReplayProvider('replay', cassetteDir, { timingScale: 0 });
+
+    await expect(player.complete(options)).rejects.toThrow('カセットが見つかりません');
+  });
+
+  it('should require a real provider in record mode', () => {
+    expect(() => new ReplayProvider('record', cassetteDir)).toThrow('実プロバイダーが必要です');
+  });
+});
+
+describe('ReplayProvider with SimpleChatAgent', () => {
+  const model = 'llama-3-elyza-jp-8b';
+  let cassetteDir: string;
+
+  beforeEach(async () => {
+    cassetteDir = await fs.mkdtemp(path.join(os.tmpdir(), 'nipponcode-cassettes-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(cassetteDir);
+  });
+
+  // 長い質問を続けて送り、途中で自動要約が行われる会話
+  const converse = async (provider: AIProvider): Promise<{ answers: string[]; compacted: boolean }> => {
+    currentProvider = provider;
+    const agent = new SimpleChatAgent(model);
+    const answers: string[] = [];
+    let compacted = false;
+    for (const question of ['あ', 'い', 'う', 'え'].map(char => char.repeat(900))) {
+      answers.push(await agent.chat(question));
+      compacted = compacted || agent.getLastCompaction() !== null;
+    }
+    return { answers, compacted };
+  };
+
+  it('should replay a conversation with compaction without the real provider', async () => {
+    const inner = new FakeProvider();
+    const recorded = await converse(new ReplayProvider('record', cassetteDir, { inner, model }));
+    expect(recorded.compacted).toBe(true);
+
+    const replayed = await converse(new ReplayProvider('replay', cassetteDir, { model, timingScale: 0 }));
+
+    expect(replayed).toEqual(recorded);
+    expect(inner.calls).toBe(5);
+  });
+});
@@ -0,0 +1,79 @@
+import { StructuredOutputError, completeStructured, defineSchema, extractJSON, validateSchema } from '../structured';
+import { CompletionOptions } from '../base';
+import { StubProvider } from './helpers/stub-provider';
+
+
+interface Intent {
+  purpose: string;
+  risk: 'safe' | 'danger';
+}
+
+const intentSchema = defineSchema<Intent>('intent', {
+  type: 'object',
+  required: ['purpose', 'risk'],
+  properties: {
+    purpose: { type: 'string' },
+    risk: { type: 'string', enum: ['safe', 'danger'] },
+  },
+});
+
+describe('validateSchema', () => {
+  it('reports the location of each violation', () => {
+    expect(validateSchema({ purpose: 'list files', risk: 'safe' }, intentSchema.schema)).toEqual([]);
+    expect(validateSchema({ risk: 'maybe' }, intentSchema.schema)).toEqual([
+      '$.purpose: 必須です',
+      '$.risk: "safe", "danger" のいずれかである必要があります',
+    ]);
+    expect(validateSchema({ items: [1, 'x'] }, {
+      type: 'object',
+      properties: { items: { type: 'array', items: { type: 'integer' } } },
+    })).toEqual(['$.items[1]: integer型である必要があります']);
+  });
+
+  it('extracts JSON wrapped in prose or code blocks', () => {
+    expect(extractJSON('{"a":1}')).toEqual({ a: 1 });
+    expect(extractJSON('Here you go:\n```json\n{"a":2}\n```')).toEqual({ a: 2 });
+    expect(() => extractJSON('no json here')).toThrow();
+  });
+});
+
+describe('completeStructured', () => {
+  const options: CompletionOptions = { messages: [{ role: 'user', content: 'analyze rm -rf' }], caller: 'executor' };
+  let provider: StubProvider;
+
+  beforeEach(() => {
+    provider = new StubProvider();
+  });
+
+  it('sends the schema as the response format', async () => {
+    provider.complete.mockResolvedValue({ content: '{"purpose":"delete","risk":"danger"}' });
+
+    await expect(completeStructured(provider, options, intentSchema)).resolves.toEqual({ purpose: 'delete', risk: 'danger' });
+    expect(provider.complete.mock.calls[0][0]).toMatchObject({
+      caller: 'executor',
+      responseFormat: { type: 'json_schema', name: 'intent', schema: intentSchema.schema },
+    });
+  });
+
+  it('asks the model to repair invalid output', async () => {
+    provider.complete
+      .mockResolvedValueOnce({ content: '{"purpose":"delete","risk":"high"}' })
+      .mockResolvedValueOnce({ content: '{"purpose":"delete","risk":"danger"}' });
+
+    await expect(completeStructured(provider, options, intentSchema)).resolves.toEqual({ purpose: 'delete', risk: 'danger' });
+
+    const repair = provider.complete.mock.calls[1][0].messages;
+    expect(repair).toHaveLength(3);
+    expect(repair[1]).toEqual({ role: 'assistant', content: '{"purpose":"delete","risk":"high"}' });
+    expect(repair[2].content).toContain('$.risk');
+    // 呼び出し元のメッセージ配列は変更しない
+    expect(options.messages).toHaveLength(1);
+  });
+
+  it('gives up after the repair limit', async () => {
+    provider.complete.mockResolvedValue({ content: 'I cannot answer in JSON' });
+
+    await expect(completeStructured(provider, options, intentSchema, 1)).rejects.toBeInstanceOf(StructuredOutputError);
+    expect(provider.complete).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,106 @@
+import axios from 'axios';
+import { HuggingFaceTokenizer } from '../hf-tokenizer';
+import { ApproxTokenizer, CachedTokenizer, createTokenizer } from '../tokenizer';
+
+jest.mock('axios');
+
+describe('createTokenizer', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('counts with tiktoken encodings by name or model', async () => {
+    expect(createTokenizer('o200k_base', { model: 'gpt-4o' }).estimate('hello world')).toBe(2);
+    expect(await createTokenizer('tiktoken', { model: 'gpt-4o' }).count('hello world')).toBe(2);
+    expect(new ApproxTokenizer().estimate('abcdefgh日本語')).toBe(5);
+  });
+
+  it('asks the vLLM /tokenize endpoint and caches the result per string', async () => {
+    (axios.post as jest.Mock).mockResolvedValue({ data: { count: 7, tokens: [1, 2, 3, 4, 5, 6, 7] } });
+    const tokenizer = createTokenizer('vllm', { model: 'Qwen/Qwen2.5-7B-Instruct', baseUrl: 'http://localhost:8000/v1/' });
+
+    expect(await tokenizer.count('こんにちは')).toBe(7);
+    expect(await tokenizer.count('こんにちは')).toBe(7);
+    expect(tokenizer.estimate('こんにちは')).toBe(7);
+
+    expect(axios.post).toHaveBeenCalledTimes(1);
+    expect(axios.post).toHaveBeenCalledWith(
+      'http://localhost:8000/tokenize',
+      { model: 'Qwen/Qwen2.5-7B-Instruct', prompt: 'こんにちは', add_special_tokens: false },
+      expect.any(Object)
+    );
+  });
+
+  it('falls back to the approximation once the endpoint is unavailable', async () => {
+    (axios.post as jest.Mock).mockRejectedValue(Object.assign(new Error('Not Found'), { response: { status: 404 } }));
+    const tokenizer = createTokenizer('vllm', { model: 'swallow', baseUrl: 'http://localhost:8000/v1' });
+
+    expect(await tokenizer.count('日本語')).toBe(3);
+    expect(await tokenizer.count('abcd')).toBe(1);
+    expect(axios.post).toHaveBeenCalledTimes(1);
+    expect(() => createTokenizer('vllm', { model: 'swallow' })).toThrow();
+  });
+
+  it('keeps asking after transient errors without caching the approximation', async () => {
+    (axios.post as jest.Mock)
+      .mockRejectedValueOnce(Object.assign(new Error('timeout of 10000ms exceeded'), { code: 'ECONNABORTED' }))
+      .mockResolvedValueOnce({ data: { count: 5 } });
+    const tokenizer = createTokenizer('vllm', { model: 'swallow', baseUrl: 'http://localhost:8000/v1' });
+
+    expect(await tokenizer.count('日本語')).toBe(3);
+    expect(await tokenizer.count('日本語')).toBe(5);
+    expect(tokenizer.estimate('日本語')).toBe(5);
+    expect(axios.post).toHaveBeenCalledTimes(2);
+  });
+
+  it('evicts the oldest entry when the cache is full', async () => {
+    const inner = new ApproxTokenizer();
+    const count = jest.spyOn(inner, 'count');
+    const tokenizer = new CachedTokenizer(inner, 2);
+
+    await tokenizer.count('a');
+    await tokenizer.count('b');
+    await tokenizer.count('c');
+    await tokenizer.count('c');
+    await tokenizer.count('a');
+
+    expect(count).toHaveBeenCalledTimes(4);
+  });
+});
+
+describe('HuggingFaceTokenizer', () => {
+  it('applies SentencePiece style BPE merges with byte fallback', () => {
+    const tokenizer = new HuggingFaceTokenizer({
+      normalizer: {
+        type: 'Sequence',
+        normalizers: [
+          { type: 'Prepend', prepend: '▁' },
+          { type: 'Replace', pattern: { String: ' ' }, content: '▁' },
+        ],
+      },
+      pre_tokenizer: null,
+      model: {
+        type: 'BPE',
+        byte_fallback: true,
+        vocab: { '▁': 0, l: 1, o: 2, w: 3, e: 4, r: 5, '▁l': 6, '▁lo': 7, '▁low': 8, er: 9 },
+        merges: ['▁ l', '▁l o', '▁lo w', 'e r'],
+      },
+    });
+
+    expect(tokenizer.tokenize('low lower')).toEqual(['▁low', '▁low', 'er']);
+    expect(tokenizer.tokenize('あ')).toEqual(['▁', '<0xE3>', '<0x81>', '<0x82>']);
+  });
+
+  it('picks the most likely Unigram segmentation', () => {
+    const tokenizer = new HuggingFaceTokenizer({
+      pre_tokenizer: { type: 'Metaspace', replacement: '▁', prepend_scheme: 'always' },
+      model: {
+        type: 'Unigram',
+        vocab: [['▁', -2], ['▁東京', -3], ['東', -4], ['京', -4], ['都', -5], ['▁東', -6]],
+      },
+    });
+
+    expect(tokenizer.tokenize('東京都')).toEqual(['▁東京', '都']);
+    expect(tokenizer.count('東京x')).toBe(2);
+  });
+});
@@ -0,0 +1,108 @@
+import { UsageTrackingProvider, UsageEvent } from '../tracking';
+import { CompletionOptions, StreamChunk } from '../base';
+import { StubProvider } from './helpers/stub-provider';
+
+describe('UsageTrackingProvider', () => {
+  const options: CompletionOptions = { messages: [{ role: 'user', content: 'hello' }], model: 'stub-model', caller: 'planner' };
+  let inner: StubProvider;
+  let events: UsageEvent[];
+  let provider: UsageTrackingProvider;
+
+  beforeEach(() => {
+    inner = new StubProvider();
+    inner.streamContents = ['abcd', 'efgh'];
+    events = [];
+    provider = new UsageTrackingProvider(inner, event => events.push(event));
+  });
+
+  it('records reported usage from complete', async () => {
+    inner.complete.mockResolvedValue({
+      content: 'ok',
+      model: 'stub-model-v2',
+      usage: { promptTokens: 12, completionTokens: 3, totalTokens: 15 },
+    });
+
+    await provider.complete(options);
+
+    expect(events).toEqual([{
+      provider: 'Stub',
+      model: 'stub-model-v2',
+      caller: 'planner',
+      promptTokens: 12,
+      completionTokens: 3,
+      estimated: false,
+      servedBy: undefined,
+    }]);
+  });
+
+  it('estimates usage for streams', async () => {
+    const chunks: StreamChunk[] = [];
+    for await (const chunk of provider.streamComplete(options)) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toHaveLength(3);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ promptTokens: 5, completionTokens: 8, estimated: true });
+  });
+
+  it('falls back to the configured model when the stream does not name one', async () => {
+    const chunks: StreamChunk[] = [];
+    for await (const chunk of provider.streamComplete({ ...options, model: undefined })) {
+      chunks.push(chunk);
+    }
+
+    expect(events[0].model).toBe('stub-model');
+  });
+
+  it('records embedding calls', async () => {
+    inner.embed = jest.fn().mockResolvedValue([[1, 0], [0, 1]]);
+
+    await expect(provider.embed(['abc', 'de'], 'e5')).resolves.toHaveLength(2);
+
+    expect(events).toEqual([expect.objectContaining({
+      model: 'e5',
+      caller: 'embedding',
+      promptTokens: 6,
+      completionTokens: 0,
+      estimated: true,
+    })]);
+  });
+
+  it('does not fail the call when the listener throws', async () => {
+    inner.complete.mockResolvedValue({ content: 'ok', model: 'stub-model' });
+    provider = new UsageTrackingProvider(inner, () => {
+      throw new Error('disk full');
+    });
+
+    await expect(provider.complete(options)).resolves.toMatchObject({ content: 'ok' });
+  });
+
+  it('prefers usage reported on the final stream chunk', async () => {
+    inner.streamComplete = async function* () {
+      yield { content: 'abcd', done: false };
+      yield { content: '', done: true, usage: { promptTokens: 20, completionTokens: 2, totalTokens: 22 } };
+    };
+
+    const chunks: StreamChunk[] = [];
+    for await (const chunk of provider.streamComplete(options)) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toHaveLength(2);
+    expect(events[0]).toMatchObject({ promptTokens: 20, completionTokens: 2, estimated: false });
+  });
+
+  it('records partial streams that were interrupted', async () => {
+    inner.streamComplete = async function* () {
+      yield { content: 'abcd', done: false };
+      throw new Error('aborted');
+    };
+
+    const stream = provider.streamComplete(options);
+    await expect(stream.next()).resolves.toMatchObject({ value: { content: 'abcd' } });
+    await expect(stream.next()).rejects.toThrow('aborted');
+
+    expect(events[0]).toMatchObject({ completionTokens: 4, estimated: true });
+  });
+});
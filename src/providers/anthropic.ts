@@ -0,0 +1,480 @@
+import axios, { AxiosInstance } from 'axios';
+import { StringDecoder } from 'string_decoder';
+import {
+  AIProvider,
+  CompletionOptions,
+  CompletionResponse,
+  Message,
+  ProviderError,
+  RequestAbortedError,
+  StreamChunk,
+  ToolCall,
+  ToolChoice,
+  getTextContent,
+  parseRetryAfter,
+} from './base';
+import { modelRegistry } from './models';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+const DEFAULT_MAX_TOKENS = 4096;
+// ストリーム中のerrorイベントの種類と対応するHTTPステータス
+const STREAM_ERROR_STATUS: Record<string, number> = {
+  invalid_request_error: 400,
+  authentication_error: 401,
+  permission_error: 403,
+  not_found_error: 404,
+  request_too_large: 413,
+  rate_limit_error: 429,
+  api_error: 500,
+  overloaded_error: 529,
+};
+
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } }
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string | AnthropicContentBlock[];
+}
+
+interface AnthropicTool {
+  name: string;
+  description: string;
+  input_schema: Record<string, unknown>;
+}
+
+type AnthropicToolChoice =
+  | { type: 'auto' | 'any' | 'none' }
+  | { type: 'tool'; name: string };
+
+interface AnthropicResponse {
+  content?: AnthropicContentBlock[];
+  usage?: { input_tokens: number; output_tokens: number };
+  model?: string;
+  stop_reason?: string;
+}
+
+// ストリームで届くイベント（使用するフィールドのみ）
+interface AnthropicStreamEvent {
+  type: string;
+  index?: number;
+  message?: { usage?: { input_tokens?: number } };
+  content_block?: { type: string; id?: string; name?: string };
+  delta?: { type?: string; text?: string; partial_json?: string; stop_reason?: string };
+  usage?: { output_tokens?: number };
+  error?: { type?: string; message?: string };
+}
+
+// エラー応答の本文
+interface AnthropicErrorBody {
+  error?: { type?: string; message?: string };
+}
+
+interface AnthropicRequest {
+  model: string;
+  messages: AnthropicMessage[];
+  system?: string;
+  max_tokens: number;
+  temperature?: number;
+  top_p?: number;
+  stop_sequences?: string[];
+  stream?: boolean;
+  tools?: AnthropicTool[];
+  tool_choice?: AnthropicToolChoice;
+}
+
+export class AnthropicProvider extends AIProvider {
+  private client: AxiosInstance;
+
+  constructor(apiKey: string, baseUrl: string = 'https://api.anthropic.com/v1', model: string = 'claude-sonnet-4-20250514') {
+    super(apiKey, baseUrl, model);
+
+    this.client = axios.create({
+      baseURL: this.baseUrl.replace(/\/+$/, ''),
+      timeout: 120000, // 2分のタイムアウト
+      headers: {
+        'x-api-key': this.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+        'content-type': 'application/json',
+      },
+    });
+  }
+
+  private buildRequest(options: CompletionOptions, stream: boolean): AnthropicRequest {
+    if (!options.messages || options.messages.length === 0) {
+      throw new Error('messages are required for messages.create');
+    }
+    this.assertVisionSupport(options);
+
+    const { system, messages } = this.convertMessages(options.messages);
+
+    const request: AnthropicRequest = {
+      model: options.model || this.model,
+      messages,
+      system,
+      max_tokens: options.maxTokens || DEFAULT_MAX_TOKENS,
+      temperature: options.temperature,
+      top_p: options.topP,
+      stop_sequences: options.stopSequences,
+      stream,
+    };
+
+    if (options.tools && options.tools.length > 0) {
+      request.tools = options.tools.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.parameters,
+      }));
+      if (options.toolChoice) {
+        request.tool_choice = this.convertToolChoice(options.toolChoice);
+      }
+    }
+
+    return request;
+  }
+
+  private convertToolChoice(choice: ToolChoice): AnthropicToolChoice {
+    if (typeof choice !== 'string') {
+      return { type: 'tool', name: choice.name };
+    }
+    return { type: choice === 'required' ? 'any' : choice };
+  }
+
+  /**
+   * Messages APIはsystemロールを受け付けないため、systemメッセージを
+   * トップレベルのsystemに集約し、同じロールが連続する場合は結合する。
+   * toolメッセージはuserロールのtool_resultブロックとして送信する
+   */
+  private convertMessages(messages: Message[]): { system?: string; messages: AnthropicMessage[] } {
+    const systemParts: string[] = [];
+    const converted: AnthropicMessage[] = [];
+
+    for (const message of messages) {
+      if (message.role === 'system') {
+        systemParts.push(getTextContent(message.content));
+        continue;
+      }
+
+      const next = this.convertMessage(message);
+      const last = converted[converted.length - 1];
+      if (last && last.role === next.role) {
+        if (typeof last.content === 'string' && typeof next.content === 'string') {
+          last.content += `\n\n${next.content}`;
+        } else {
+          last.content = [...this.toBlocks(last.content), ...this.toBlocks(next.content)];
+        }
+      } else {
+        converted.push(next);
+      }
+    }
+
+    // 会話はuserから始まる必要がある
+    if (converted.length === 0 || converted[0].role !== 'user') {
+      converted.unshift({ role: 'user', content: '(continue)' });
+    }
+
+    return {
+      system: systemParts.length > 0 ? systemParts.join('\n\n') : undefined,
+      messages: converted,
+    };
+  }
+
+  private convertMessage(message: Message): AnthropicMessage {
+    if (message.role === 'tool') {
+      return {
+        role: 'user',
+        content: [{ type: 'tool_result', tool_use_id: message.toolCallId || '', content: getTextContent(message.content) }],
+      };
+    }
+
+    if (message.role === 'assistant' && message.toolCalls && message.toolCalls.length > 0) {
+      const text = getTextContent(message.content);
+      const blocks: AnthropicContentBlock[] = text ? [{ type: 'text', text }] : [];
+      for (const call of message.toolCalls) {
+        blocks.push({ type: 'tool_use', id: call.id, name: call.name, input: this.parseArguments(call.arguments) });
+      }
+      return { role: 'assistant', content: blocks };
+    }
+
+    if (typeof message.content !== 'string') {
+      return {
+        role: message.role as 'user' | 'assistant',
+        content: message.content.map((part): AnthropicContentBlock => part.type === 'text'
+          ? { type: 'text', text: part.text }
+          : { type: 'image', source: { type: 'base64', media_type: part.mediaType, data: part.data || '' } }),
+      };
+    }
+
+    return { role: message.role as 'user' | 'assistant', content: message.content };
+  }
+
+  private toBlocks(content: string | AnthropicContentBlock[]): AnthropicContentBlock[] {
+    return typeof content === 'string' ? [{ type: 'text', text: content }] : content;
+  }
+
+  private parseArguments(args: string): unknown {
+    try {
+      return JSON.parse(args || '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  async complete(options: CompletionOptions): Promise<CompletionResponse> {
+    try {
+      const request = this.buildRequest(options, false);
+      const { data } = await this.client.post<AnthropicResponse>('/messages', request, { signal: options.signal });
+
+      const blocks = data.content || [];
+      const content = blocks
+        .flatMap(block => block.type === 'text' ? [block.text] : [])
+        .join('');
+      const toolCalls: ToolCall[] = blocks
+        .flatMap(block => block.type === 'tool_use' ? [block] : [])
+        .map(block => ({ id: block.id, name: block.name, arguments: JSON.stringify(block.input || {}) }));
+
+      return {
+        content,
+        usage: data.usage ? {
+          promptTokens: data.usage.input_tokens,
+          completionTokens: data.usage.output_tokens,
+          totalTokens: data.usage.input_tokens + data.usage.output_tokens,
+        } : undefined,
+        model: data.model,
+        finishReason: data.stop_reason,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      };
+    } catch (error: any) {
+      throw this.toError(error, options.signal);
+    }
+  }
+
+  async *streamComplete(options: CompletionOptions): AsyncGenerator<StreamChunk, void, unknown> {
+    let response;
+    try {
+      const request = this.buildRequest(options, true);
+      response = await this.client.post('/messages', request, { responseType: 'stream', signal: options.signal });
+    } catch (error: any) {
+      await this.readErrorBody(error);
+      throw this.toError(error, options.signal);
+    }
+
+    let buffer = '';
+    // チャンクの境界で分割されたマルチバイト文字は次のチャンクと合わせてデコードする
+    const decoder = new StringDecoder('utf8');
+    // tool_useブロックはcontent_block_start/input_json_deltaで分割されて届く
+    const pendingToolCalls = new Map<number, ToolCall>();
+    // 入力トークン数はmessage_start、出力トークン数と終了理由はmessage_deltaで届く
+    let promptTokens: number | undefined;
+    let completionTokens: number | undefined;
+    let finishReason: string | undefined;
+
+    const finalChunk = (): StreamChunk => ({
+      content: '',
+      done: true,
+      toolCalls: this.collectToolCalls(pendingToolCalls),
+      usage: promptTokens !== undefined && completionTokens !== undefined ? {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      } : undefined,
+      finishReason,
+    });
+
+    try {
+      for await (const data of response.data) {
+        // プロキシ経由ではCRLFで届くことがあるため改行をLFに揃える
+        // （チャンク末尾の\rは次のチャンクの\nと対になる可能性があるので残す）
+        buffer = (buffer + decoder.write(data)).replace(/\r\n|\r(?!$)/g, '\n');
+
+        // SSEイベントは空行で区切られる
+        let boundary = buffer.indexOf('\n\n');
+        while (boundary !== -1) {
+          const rawEvent = buffer.slice(0, boundary);
+          buffer = buffer.slice(boundary + 2);
+          boundary = buffer.indexOf('\n\n');
+
+          const event = this.parseEvent(rawEvent);
+          if (!event) {
+            continue;
+          }
+
+          switch (event.type) {
+            case 'message_start':
+              promptTokens = event.message?.usage?.input_tokens;
+              break;
+
+            case 'content_block_start':
+              if (event.content_block?.type === 'tool_use' && event.index !== undefined) {
+                pendingToolCalls.set(event.index, {
+                  id: event.content_block.id || '',
+                  name: event.content_block.name || '',
+                  arguments: '',
+                });
+              }
+              break;
+
+            case 'content_block_delta':
+              if (event.delta?.type === 'text_delta' && event.delta.text) {
+                yield { content: event.delta.text, done: false };
+              } else if (event.delta?.type === 'input_json_delta') {
+                const pending = event.index !== undefined ? pendingToolCalls.get(event.index) : undefined;
+                if (pending) {
+                  pending.arguments += event.delta.partial_json || '';
+                }
+              }
+              break;
+
+            case 'message_delta':
+              finishReason = event.delta?.stop_reason ?? finishReason;
+              completionTokens = event.usage?.output_tokens ?? completionTokens;
+              break;
+
+            case 'message_stop':
+              yield finalChunk();
+              return;
+
+            case 'error':
+              throw this.streamError(event.error);
+          }
+        }
+      }
+    } catch (error: any) {
+      if (options.signal?.aborted) {
+        throw new RequestAbortedError();
+      }
+      throw error;
+    }
+
+    yield finalChunk();
+  }
+
+  /**
+   * ストリーム中のerrorイベントを、HTTPのエラー応答と同じくステータス付きの例外にする
+   * （overloaded_errorなどをリトライ・フェイルオーバーの対象にするため）
+   */
+  private streamError(error: { type?: string; message?: string } | undefined): ProviderError {
+    const status = error?.type ? STREAM_ERROR_STATUS[error.type] ?? 500 : 500;
+    return new ProviderError(`API Error (${status}): ${error?.message || 'unknown error'}`, status);
+  }
+
+  private collectToolCalls(pending: Map<number, ToolCall>): ToolCall[] | undefined {
+    if (pending.size === 0) {
+      return undefined;
+    }
+    return [...pending.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, call]) => ({ ...call, arguments: call.arguments || '{}' }));
+  }
+
+  private parseEvent(rawEvent: string): AnthropicStreamEvent | null {
+    const dataLines = rawEvent
+      .split('\n')
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).trim());
+
+    if (dataLines.length === 0) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(dataLines.join('\n'));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * ストリームを指定したリクエストではエラー応答の本文もストリームで届くため、
+   * 読み取ってJSONに置き換える（toErrorでエラーメッセージを取り出せるようにする）
+   */
+  private async readErrorBody(error: unknown): Promise<void> {
+    if (!axios.isAxiosError(error) || !error.response) {
+      return;
+    }
+    const response = error.response;
+    const data = response.data;
+    if (!data || typeof data[Symbol.asyncIterator] !== 'function') {
+      return;
+    }
+
+    let body = '';
+    const decoder = new StringDecoder('utf8');
+    try {
+      for await (const chunk of data) {
+        body += decoder.write(chunk);
+      }
+    } catch {
+      // 読み取れた分だけを使う
+    }
+    body += decoder.end();
+
+    try {
+      response.data = JSON.parse(body);
+    } catch {
+      response.data = body ? { error: { message: body } } : undefined;
+    }
+  }
+
+  private toError(error: unknown, signal?: AbortSignal): Error {
+    if (signal?.aborted) {
+      return new RequestAbortedError();
+    }
+    if (axios.isAxiosError<AnthropicErrorBody>(error) && error.response) {
+      const message = error.response.data?.error?.message || error.message;
+      return new ProviderError(
+        `API Error (${error.response.status}): ${message}`,
+        error.response.status,
+        parseRetryAfter(error.response.headers?.['retry-after'])
+      );
+    }
+    if (axios.isAxiosError(error)) {
+      // 応答を受け取れなかった（接続エラー・タイムアウト）
+      return new ProviderError(`Error: ${error.message}`);
+    }
+    return new Error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  estimateTokens(text: string): number {
+    // Anthropicのトークナイザーは公開されていないため簡易推定
+    // 日本語などのマルチバイト文字はおおよそ1文字1トークン
+    const multibyte = (text.match(/[\u0080-\uFFFF]/g) || []).length;
+    const ascii = text.length - multibyte;
+    return Math.ceil(ascii / 4) + multibyte;
+  }
+
+  getMaxTokens(): number {
+    return modelRegistry.getContextLength(this.model, 100000);
+  }
+
+  getName(): string {
+    return 'Anthropic';
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    try {
+      const { data } = await this.client.get<{ data?: Array<{ id: string }> }>('/models');
+      return (data.data || []).map(model => model.id).sort();
+    } catch (error) {
+      console.error('Failed to fetch models:', error);
+      return [
+        'claude-opus-4-20250514',
+        'claude-sonnet-4-20250514',
+        'claude-3-7-sonnet-latest',
+        'claude-3-5-haiku-latest',
+      ];
+    }
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      await this.client.get('/models');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { AzureOpenAI } from 'openai';
+import { OpenAIProvider } from './openai';
+
+export const DEFAULT_AZURE_API_VERSION = '2024-10-21';
+
+export interface AzureOpenAISettings {
+  apiKey: string;
+  // https://<リソース名>.openai.azure.com
+  endpoint: string;
+  // 既定のデプロイ名（リクエストでモデル名を指定しない場合に使用）
+  deployment: string;
+  apiVersion?: string;
+  // デプロイ名 → モデル名（コンテキスト長やトークナイザーの決定に使用）
+  deployments?: Record<string, string>;
+  tokenizer?: string;
+}
+
+/**
+ * Azure OpenAI Service のプロバイダー
+ * モデル名の代わりにデプロイ名を指定し、api-versionクエリとapi-keyヘッダーで認証する
+ */
+export class AzureOpenAIProvider extends OpenAIProvider {
+  private deployments: Record<string, string>;
+
+  constructor(settings: AzureOpenAISettings) {
+    const client = new AzureOpenAI({
+      apiKey: settings.apiKey,
+      endpoint: settings.endpoint,
+      apiVersion: settings.apiVersion || DEFAULT_AZURE_API_VERSION,
+      timeout: 120000,
+      maxRetries: 0,
+    });
+    super(settings.apiKey, settings.endpoint, settings.deployment, settings.tokenizer, client);
+    this.deployments = settings.deployments || {};
+  }
+
+  /**
+   * デプロイ名をモデル名に変換する（対応表に無い場合はデプロイ名をモデル名とみなす）
+   */
+  protected resolveModel(deployment: string): string {
+    return this.deployments[deployment] || deployment;
+  }
+
+  protected isOpenAI(): boolean {
+    // Azure OpenAIはOpenAI本家と同じモデル・APIを提供する
+    return true;
+  }
+
+  getName(): string {
+    return 'Azure OpenAI';
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    // /modelsはベースモデルの一覧を返すため、リクエストに使えるデプロイ名を返す
+    const names = Object.keys(this.deployments);
+    return names.length > 0 ? names : [this.model];
+  }
+}
@@ -1,8 +1,85 @@
 // import { Readable } from 'stream';
+import { modelRegistry } from './models';
 
 export interface Message {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  // 画像を含む場合はテキストと画像のパートの配列
+  content: MessageContent;
+  // assistantメッセージが要求したツール呼び出し
+  toolCalls?: ToolCall[];
+  // toolメッセージが応答するツール呼び出しのID
+  toolCallId?: string;
+}
+
+export type MessageContent = string | ContentPart[];
+
+export type ContentPart = TextContentPart | ImageContentPart;
+
+export interface TextContentPart {
+  type: 'text';
+  text: string;
+}
+
+// 画像（dataはbase64。セッションには元ファイルのpathだけを保存する）
+export interface ImageContentPart {
+  type: 'image';
+  mediaType: string;
+  data?: string;
+  path?: string;
+}
+
+/**
+ * メッセージ本文のテキスト部分を取り出す
+ */
+export function getTextContent(content: MessageContent): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  return content
+    .filter((part): part is TextContentPart => part.type === 'text')
+    .map(part => part.text)
+    .join('\n');
+}
+
+export function hasImages(messages: Message[]): boolean {
+  return messages.some(message => typeof message.content !== 'string' && message.content.some(part => part.type === 'image'));
+}
+
+// ツール定義（parametersはJSON Schema）
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+// モデルが要求したツール呼び出し（argumentsはJSON文字列）
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+export type ToolChoice = 'auto' | 'none' | 'required' | { name: string };
+
+// 構造化出力に使うJSON Schema（検証はstructured.tsで扱う範囲のキーワードのみ）
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  enum?: Array<string | number | boolean | null>;
+  minimum?: number;
+  maximum?: number;
+}
+
+// 応答をJSONスキーマに従わせる指定（OpenAIはresponse_format、vLLMはguided_jsonで送る）
+export interface ResponseFormat {
+  type: 'json_schema';
+  name: string;
+  schema: JsonSchema;
 }
 
 export interface CompletionOptions {
@@ -15,22 +92,118 @@ export interface CompletionOptions {
   topP?: number;
   frequencyPenalty?: number;
   presencePenalty?: number;
+  tools?: ToolDefinition[];
+  toolChoice?: ToolChoice;
+  responseFormat?: ResponseFormat;
+  // 使用量の記録に使う呼び出し元（chat/planner/agentなど）
+  caller?: string;
+  // 応答キャッシュを使うか（省略時はtemperature 0の呼び出しのみ）
+  cache?: boolean;
+  // キャッシュに保存してよい応答か（省略時はすべて保存する。検証に失敗する応答を保存しないために使う）
+  cacheIf?: (response: CompletionResponse) => boolean;
+  // 同時実行数・レート制限の待ち行列での優先度（省略時はbackground）
+  priority?: RequestPriority;
+  // 生成を中断するためのシグナル（中断時はRequestAbortedErrorを投げる）
+  signal?: AbortSignal;
+}
+
+export type RequestPriority = 'interactive' | 'background';
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
 }
 
 export interface CompletionResponse {
   content: string;
-  usage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
+  // 推論モデルの思考過程（本文とは別に返す）
+  reasoning?: string;
+  usage?: TokenUsage;
   model?: string;
   finishReason?: string;
+  toolCalls?: ToolCall[];
+  // 実際に応答したバックエンド（フェイルオーバー時）
+  servedBy?: string;
 }
 
 export interface StreamChunk {
   content: string;
+  // 推論モデルの思考過程の差分
+  reasoning?: string;
   done: boolean;
+  // ストリームの最終チャンクで、組み立て済みのツール呼び出しを返す
+  toolCalls?: ToolCall[];
+  // ストリームの最終チャンクで、実際に応答したバックエンドを返す
+  servedBy?: string;
+  // ストリームの最終チャンクで、使用量（APIが返した場合）と終了理由を返す
+  usage?: TokenUsage;
+  finishReason?: string;
+}
+
+/**
+ * APIがエラー応答を返した場合の例外
+ * （メッセージは従来どおり「API Error (status): ...」形式）
+ */
+export class ProviderError extends Error {
+  public status?: number;
+  // Retry-Afterヘッダーで指定された待機時間（ミリ秒）
+  public retryAfterMs?: number;
+
+  constructor(message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// 接続できなかった・切断されたことを表すNode.jsのエラーコード
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNREFUSED', 'ECONNRESET', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE', 'ENOTFOUND', 'EAI_AGAIN', 'UND_ERR_SOCKET',
+]);
+
+/**
+ * 時間をおけば成功する可能性のあるエラー（5xx・タイムアウト・接続エラー）か
+ * 429は待機時間が指定されるため呼び出し側で別に扱う
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof RequestAbortedError) {
+    return false;
+  }
+  if (error instanceof ProviderError) {
+    // ステータスが無いのは応答を受け取れなかった場合（接続エラー・タイムアウト）
+    return error.status === undefined || error.status >= 500;
+  }
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'string' && NETWORK_ERROR_CODES.has(code);
+}
+
+/**
+ * AbortSignalによってリクエストが中断された場合の例外
+ */
+export class RequestAbortedError extends Error {
+  constructor() {
+    super('リクエストが中断されました');
+    this.name = 'RequestAbortedError';
+  }
+}
+
+/**
+ * Retry-Afterヘッダー（秒数またはHTTP日付）をミリ秒に変換
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
 }
 
 export abstract class AIProvider {
@@ -49,6 +222,16 @@ export abstract class AIProvider {
   
   // トークン数の推定
   abstract estimateTokens(text: string): number;
+
+  // トークン数の計算（サーバーへの問い合わせなど非同期で正確に数えられる場合に上書きする）
+  async countTokens(text: string): Promise<number> {
+    return this.estimateTokens(text);
+  }
+
+  // テキストを埋め込みベクトルに変換する（対応していないプロバイダーではエラー）
+  async embed(_texts: string[], _model?: string): Promise<number[][]> {
+    throw new Error(`${this.getName()}は埋め込みに対応していません`);
+  }
   
   // モデルの最大トークン数を取得
   abstract getMaxTokens(): number;
@@ -61,5 +244,40 @@ export abstract class AIProvider {
   
   // ヘルスチェック
   abstract healthCheck(): Promise<boolean>;
+
+  // リクエストでmodelを省略した場合に使うモデル名
+  getModel(): string {
+    return this.model;
+  }
+
+  // 接続先のベースURL
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  // embedで実際に使われる埋め込みモデル（modelを省略した場合はプロバイダーの既定）
+  getEmbeddingModel(model?: string): string {
+    return model || this.getModel();
+  }
+
+  /**
+   * 画像入力に対応していないモデルへ画像を送ろうとした場合にエラーにする
+   * （モデル定義にsupportsVisionが無いモデルはサーバーの判断に任せる）
+   */
+  protected assertVisionSupport(options: CompletionOptions): void {
+    const model = options.model || this.model;
+    if (hasImages(options.messages) && modelRegistry.lookup(this.resolveModel(model))?.supportsVision === false) {
+      throw new Error(`モデル ${model} は画像入力に対応していません。画像に対応したモデルに切り替えてください`);
+    }
+  }
+
+  // リクエストで指定するモデル名（Azureのデプロイ名など）をモデル定義の名前に変換する
+  protected resolveModel(model: string): string {
+    return model;
+  }
+
+  // サーバーからモデル情報（コンテキスト長など）を取得してmodelRegistryに登録する
+  // 取得できないプロバイダーでは何もしない
+  async detectModelInfo(): Promise<void> {}
 }
 
@@ -0,0 +1,155 @@
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import { AIProvider, CompletionOptions, CompletionResponse } from './base';
+import { DelegatingProvider } from './delegating';
+
+interface CacheEntry {
+  key: string;
+  createdAt: number;
+  response: CompletionResponse;
+}
+
+export interface ResponseCacheOptions {
+  // キャッシュの有効期間（ミリ秒）
+  ttlMs?: number;
+  // キャッシュディレクトリの合計サイズの上限（バイト）
+  maxBytes?: number;
+}
+
+/**
+ * 応答をディレクトリに1件1ファイルで保存するキャッシュ
+ *
+ * 上限を超えたら最後に使われた時刻（mtime）が古いものから削除する
+ */
+export class ResponseCache {
+  private dir: string;
+  private ttlMs: number;
+  private maxBytes: number;
+
+  constructor(dir: string, options: ResponseCacheOptions = {}) {
+    this.dir = dir;
+    this.ttlMs = options.ttlMs ?? 24 * 60 * 60 * 1000;
+    this.maxBytes = options.maxBytes ?? 50 * 1024 * 1024;
+  }
+
+  async get(key: string): Promise<CompletionResponse | null> {
+    const entryPath = this.getEntryPath(key);
+
+    try {
+      const entry: CacheEntry = await fs.readJson(entryPath);
+      if (Date.now() - entry.createdAt > this.ttlMs) {
+        await fs.remove(entryPath);
+        return null;
+      }
+
+      // 最終利用時刻を更新して削除対象から遠ざける
+      const now = new Date();
+      await fs.utimes(entryPath, now, now);
+      return entry.response;
+    } catch {
+      return null;
+    }
+  }
+
+  async set(key: string, response: CompletionResponse): Promise<void> {
+    await fs.ensureDir(this.dir);
+    const entry: CacheEntry = { key, createdAt: Date.now(), response };
+    await fs.writeJson(this.getEntryPath(key), entry);
+    await this.evict();
+  }
+
+  async clear(): Promise<void> {
+    await fs.remove(this.dir);
+  }
+
+  private async evict(): Promise<void> {
+    const files = (await fs.readdir(this.dir)).filter(file => file.endsWith('.json'));
+    const entries = await Promise.all(files.map(async file => {
+      const filePath = path.join(this.dir, file);
+      const stat = await fs.stat(filePath);
+      return { filePath, size: stat.size, usedAt: stat.mtimeMs };
+    }));
+
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+    entries.sort((a, b) => a.usedAt - b.usedAt);
+
+    for (const entry of entries) {
+      if (total <= this.maxBytes) {
+        break;
+      }
+      await fs.remove(entry.filePath);
+      total -= entry.size;
+    }
+  }
+
+  private getEntryPath(key: string): string {
+    return path.join(this.dir, `${key}.json`);
+  }
+}
+
+/**
+ * 同一リクエストの応答をキャッシュから返すプロバイダー
+ *
+ * 対象はoptions.cacheがtrueの呼び出しと、省略時のtemperature 0の呼び出し
+ * （ストリーミングと、options.cacheIfで除外された応答はキャッシュしない）
+ */
+export class CachingProvider extends DelegatingProvider {
+  private inner: AIProvider;
+  private cache: ResponseCache;
+
+  constructor(inner: AIProvider, cache: ResponseCache) {
+    super();
+    this.inner = inner;
+    this.cache = cache;
+  }
+
+  protected get delegate(): AIProvider {
+    return this.inner;
+  }
+
+  async complete(options: CompletionOptions): Promise<CompletionResponse> {
+    if (!this.isCacheable(options)) {
+      return this.inner.complete(options);
+    }
+
+    const key = this.cacheKey(options);
+    const cached = await this.cache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const response = await this.inner.complete(options);
+    if (!options.cacheIf || options.cacheIf(response)) {
+      await this.cache.set(key, response).catch(() => undefined);
+    }
+    return response;
+  }
+
+  private isCacheable(options: CompletionOptions): boolean {
+    return options.cache ?? options.temperature === 0;
+  }
+
+  /**
+   * 接続先・モデル・メッセージ・生成パラメータのハッシュ
+   * （同じプロバイダー名でも接続先やプロファイルのモデルが違えば別の応答として扱う。callerは集計用なので含めない）
+   */
+  private cacheKey(options: CompletionOptions): string {
+    const request = {
+      provider: this.inner.getName(),
+      baseUrl: this.inner.getBaseUrl(),
+      model: options.model || this.inner.getModel(),
+      messages: options.messages,
+      temperature: options.temperature,
+      maxTokens: options.maxTokens,
+      stopSequences: options.stopSequences,
+      topP: options.topP,
+      frequencyPenalty: options.frequencyPenalty,
+      presencePenalty: options.presencePenalty,
+      tools: options.tools,
+      toolChoice: options.toolChoice,
+      responseFormat: options.responseFormat,
+    };
+    return crypto.createHash('sha256').update(JSON.stringify(request)).digest('hex');
+  }
+}
@@ -0,0 +1,68 @@
+import { AIProvider, CompletionOptions, CompletionResponse, StreamChunk } from './base';
+
+/**
+ * 別のプロバイダーを包んで機能を追加するプロバイダーの基底クラス
+ *
+ * 上書きしないメソッドはすべて包んだプロバイダーに渡す
+ * （メソッドを書き漏らしてAIProviderの既定の実装が使われることを防ぐ）
+ */
+export abstract class DelegatingProvider extends AIProvider {
+  constructor() {
+    super('', '', '');
+  }
+
+  // 呼び出しを渡す先のプロバイダー
+  protected abstract get delegate(): AIProvider;
+
+  async complete(options: CompletionOptions): Promise<CompletionResponse> {
+    return this.delegate.complete(options);
+  }
+
+  async *streamComplete(options: CompletionOptions): AsyncGenerator<StreamChunk, void, unknown> {
+    yield* this.delegate.streamComplete(options);
+  }
+
+  estimateTokens(text: string): number {
+    return this.delegate.estimateTokens(text);
+  }
+
+  async countTokens(text: string): Promise<number> {
+    return this.delegate.countTokens(text);
+  }
+
+  async embed(texts: string[], model?: string): Promise<number[][]> {
+    return this.delegate.embed(texts, model);
+  }
+
+  getMaxTokens(): number {
+    return this.delegate.getMaxTokens();
+  }
+
+  getModel(): string {
+    return this.delegate.getModel();
+  }
+
+  getBaseUrl(): string {
+    return this.delegate.getBaseUrl();
+  }
+
+  getEmbeddingModel(model?: string): string {
+    return this.delegate.getEmbeddingModel(model);
+  }
+
+  getName(): string {
+    return this.delegate.getName();
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    return this.delegate.getAvailableModels();
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return this.delegate.healthCheck();
+  }
+
+  async detectModelInfo(): Promise<void> {
+    return this.delegate.detectModelInfo();
+  }
+}
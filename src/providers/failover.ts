@@ -0,0 +1,179 @@
+import { AIProvider, CompletionOptions, CompletionResponse, StreamChunk, isTransientError } from './base';
+import { DelegatingProvider } from './delegating';
+
+export interface FailoverBackend {
+  // レスポンスのservedByに記録される名前（プロファイル名など）
+  name: string;
+  provider: AIProvider;
+}
+
+export interface FailoverOptions {
+  // 障害が発生したバックエンドを使用しない期間（ミリ秒）
+  cooldownMs?: number;
+}
+
+/**
+ * 複数のプロバイダーを順番に試し、接続エラー・5xx・タイムアウト時に次へ切り替える
+ * 複合プロバイダー
+ */
+export class FailoverProvider extends DelegatingProvider {
+  private backends: FailoverBackend[];
+  private cooldownMs: number;
+  // バックエンド名 → 再試行可能になる時刻
+  private unhealthyUntil: Map<string, number> = new Map();
+
+  constructor(backends: FailoverBackend[], options: FailoverOptions = {}) {
+    super();
+    if (backends.length === 0) {
+      throw new Error('フェイルオーバーには1つ以上のプロバイダーが必要です');
+    }
+    this.backends = backends;
+    this.cooldownMs = options.cooldownMs ?? 60000;
+  }
+
+  async complete(options: CompletionOptions): Promise<CompletionResponse> {
+    const errors: string[] = [];
+
+    for (const backend of await this.getAvailableBackends()) {
+      try {
+        const response = await backend.provider.complete(this.optionsFor(backend, options));
+        return { ...response, servedBy: backend.name };
+      } catch (error) {
+        if (!this.isFailoverError(error)) {
+          throw error;
+        }
+        this.markUnhealthy(backend, error);
+        errors.push(`${backend.name}: ${this.errorMessage(error)}`);
+      }
+    }
+
+    throw new Error(`すべてのプロバイダーが利用できません\n${errors.join('\n')}`);
+  }
+
+  async *streamComplete(options: CompletionOptions): AsyncGenerator<StreamChunk, void, unknown> {
+    const errors: string[] = [];
+
+    for (const backend of await this.getAvailableBackends()) {
+      const stream = backend.provider.streamComplete(this.optionsFor(backend, options));
+      let first: IteratorResult<StreamChunk, void>;
+
+      // 最初のチャンクを受信するまではフェイルオーバー可能
+      try {
+        first = await stream.next();
+      } catch (error) {
+        if (!this.isFailoverError(error)) {
+          throw error;
+        }
+        this.markUnhealthy(backend, error);
+        errors.push(`${backend.name}: ${this.errorMessage(error)}`);
+        continue;
+      }
+
+      if (first.done) {
+        return;
+      }
+      yield this.tagChunk(first.value, backend);
+
+      for await (const chunk of stream) {
+        yield this.tagChunk(chunk, backend);
+      }
+      return;
+    }
+
+    throw new Error(`すべてのプロバイダーが利用できません\n${errors.join('\n')}`);
+  }
+
+  /**
+   * 呼び出し側が指定するモデル名は先頭のバックエンド向けなので、
+   * 代替バックエンドでは各プロファイルのモデルを使用する
+   */
+  private optionsFor(backend: FailoverBackend, options: CompletionOptions): CompletionOptions {
+    return backend === this.backends[0] ? options : { ...options, model: backend.provider.getModel() };
+  }
+
+  private tagChunk(chunk: StreamChunk, backend: FailoverBackend): StreamChunk {
+    return chunk.done ? { ...chunk, servedBy: backend.name } : chunk;
+  }
+
+  /**
+   * クールダウン中のバックエンドを除外した候補を返す
+   * クールダウンが明けたバックエンドはhealthCheckで復旧を確認する
+   */
+  private async getAvailableBackends(): Promise<FailoverBackend[]> {
+    const now = Date.now();
+    const available: FailoverBackend[] = [];
+
+    for (const backend of this.backends) {
+      const until = this.unhealthyUntil.get(backend.name);
+      if (until === undefined) {
+        available.push(backend);
+        continue;
+      }
+      if (until > now) {
+        continue;
+      }
+
+      if (await backend.provider.healthCheck().catch(() => false)) {
+        this.unhealthyUntil.delete(backend.name);
+        available.push(backend);
+      } else {
+        this.unhealthyUntil.set(backend.name, now + this.cooldownMs);
+      }
+    }
+
+    // すべてクールダウン中の場合は最後の手段として全バックエンドを試す
+    return available.length > 0 ? available : this.backends;
+  }
+
+  private markUnhealthy(backend: FailoverBackend, error: unknown): void {
+    this.unhealthyUntil.set(backend.name, Date.now() + this.cooldownMs);
+    console.warn(`⚠️ ${backend.name} が利用できないため次のプロバイダーに切り替えます: ${this.errorMessage(error)}`);
+  }
+
+  /**
+   * 接続エラー・5xx・タイムアウトのみフェイルオーバーの対象とする
+   * （4xxはリクエスト自体の問題なので他のバックエンドでも失敗する）
+   */
+  private isFailoverError(error: unknown): boolean {
+    return isTransientError(error);
+  }
+
+  private errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  /**
+   * 現在優先されるバックエンド（クールダウン中でない最初のもの）
+   */
+  protected get delegate(): AIProvider {
+    const now = Date.now();
+    const backend = this.backends.find(b => (this.unhealthyUntil.get(b.name) ?? 0) <= now) || this.backends[0];
+    return backend.provider;
+  }
+
+  // 埋め込みはバックエンドごとにベクトル空間が異なるため、切り替えずに主系だけを使う
+  async embed(texts: string[], model?: string): Promise<number[][]> {
+    return this.backends[0].provider.embed(texts, model);
+  }
+
+  getEmbeddingModel(model?: string): string {
+    return this.backends[0].provider.getEmbeddingModel(model);
+  }
+
+  getName(): string {
+    return `Failover(${this.backends.map(b => b.name).join(' → ')})`;
+  }
+
+  async healthCheck(): Promise<boolean> {
+    for (const backend of this.backends) {
+      if (await backend.provider.healthCheck().catch(() => false)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  async detectModelInfo(): Promise<void> {
+    await Promise.all(this.backends.map(backend => backend.provider.detectModelInfo().catch(() => undefined)));
+  }
+}
@@ -0,0 +1,324 @@
+import {
+  AIProvider,
+  CompletionOptions,
+  CompletionResponse,
+  ProviderError,
+  RequestAbortedError,
+  RequestPriority,
+  StreamChunk,
+  getTextContent,
+  isTransientError,
+} from './base';
+import { DelegatingProvider } from './delegating';
+
+export interface GovernorLimits {
+  // 同時に実行するリクエスト数の上限
+  maxConcurrent?: number;
+  // 1分あたりのリクエスト数の上限（0で無制限）
+  requestsPerMinute?: number;
+  // 1分あたりのトークン数の上限（0で無制限）
+  tokensPerMinute?: number;
+  // 429・5xx・接続エラーを再試行する回数
+  maxRetries?: number;
+}
+
+interface Waiter {
+  priority: RequestPriority;
+  tokens: number;
+  resolve: (slot: Slot) => void;
+}
+
+interface Slot {
+  time: number;
+  tokens: number;
+}
+
+const WINDOW_MS = 60000;
+const PRIORITY_ORDER: RequestPriority[] = ['interactive', 'background'];
+
+/**
+ * プロバイダー呼び出しの同時実行数とRPM/TPMを制限するスケジューラー
+ *
+ * 待ち行列は優先度順（同じ優先度では到着順）に処理し、
+ * 直近1分間のリクエスト数とトークン数が上限を超えないように開始を遅らせる
+ */
+export class RequestGovernor {
+  private maxConcurrent: number;
+  private requestsPerMinute: number;
+  private tokensPerMinute: number;
+  private active = 0;
+  private queue: Waiter[] = [];
+  // 直近1分間に開始したリクエスト
+  private window: Slot[] = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  public readonly maxRetries: number;
+
+  constructor(limits: GovernorLimits = {}) {
+    this.maxConcurrent = Math.max(1, limits.maxConcurrent || Infinity);
+    this.requestsPerMinute = limits.requestsPerMinute || 0;
+    this.tokensPerMinute = limits.tokensPerMinute || 0;
+    this.maxRetries = limits.maxRetries ?? 3;
+  }
+
+  /**
+   * 実行枠を確保する。返されたSlotは処理後にreleaseすること
+   * 待機中にsignalで中断された場合は待ち行列から外してRequestAbortedErrorで失敗する
+   */
+  acquire(priority: RequestPriority, tokens: number, signal?: AbortSignal): Promise<Slot> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new RequestAbortedError());
+        return;
+      }
+      const onAbort = () => {
+        const index = this.queue.indexOf(waiter);
+        if (index >= 0) {
+          this.queue.splice(index, 1);
+          reject(new RequestAbortedError());
+          if (this.queue.length === 0) {
+            // 待つリクエストが無くなったら再試行のタイマーも止める（プロセスの終了を妨げない）
+            this.cancelRetry();
+          }
+          this.pump();
+        }
+      };
+      const waiter: Waiter = {
+        priority,
+        tokens,
+        resolve: slot => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(slot);
+        },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(waiter);
+      this.pump();
+    });
+  }
+
+  /**
+   * 実行枠を解放する。実際の使用トークン数が分かればTPMの計上を補正する
+   */
+  release(slot: Slot, actualTokens?: number): void {
+    if (actualTokens !== undefined) {
+      slot.tokens = actualTokens;
+    }
+    this.active--;
+    this.pump();
+  }
+
+  /**
+   * 待機中のリクエスト数
+   */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  private pump(): void {
+    while (this.queue.length > 0) {
+      const waiter = this.nextWaiter();
+      const now = Date.now();
+      this.window = this.window.filter(slot => now - slot.time < WINDOW_MS);
+
+      if (this.active >= this.maxConcurrent) {
+        return;
+      }
+
+      const waitMs = this.windowWait(waiter.tokens, now);
+      if (waitMs > 0) {
+        this.scheduleRetry(waitMs);
+        return;
+      }
+
+      this.queue.splice(this.queue.indexOf(waiter), 1);
+      const slot: Slot = { time: now, tokens: waiter.tokens };
+      this.window.push(slot);
+      this.active++;
+      waiter.resolve(slot);
+    }
+  }
+
+  private nextWaiter(): Waiter {
+    for (const priority of PRIORITY_ORDER) {
+      const waiter = this.queue.find(w => w.priority === priority);
+      if (waiter) {
+        return waiter;
+      }
+    }
+    return this.queue[0];
+  }
+
+  /**
+   * 1分間の上限に空きができるまでの時間（ミリ秒、0なら即時開始可能）
+   */
+  private windowWait(tokens: number, now: number): number {
+    if (this.window.length === 0) {
+      // 上限より大きいリクエストでも、枠が空なら開始する
+      return 0;
+    }
+
+    const oldestExpiry = this.window[0].time + WINDOW_MS - now;
+
+    if (this.requestsPerMinute > 0 && this.window.length >= this.requestsPerMinute) {
+      return Math.max(1, oldestExpiry);
+    }
+
+    if (this.tokensPerMinute > 0) {
+      const used = this.window.reduce((sum, slot) => sum + slot.tokens, 0);
+      if (used + tokens > this.tokensPerMinute) {
+        return Math.max(1, oldestExpiry);
+      }
+    }
+
+    return 0;
+  }
+
+  private scheduleRetry(waitMs: number): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.pump();
+    }, waitMs);
+  }
+
+  private cancelRetry(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+/**
+ * RequestGovernorの制限の下でプロバイダーを呼び出し、
+ * 429応答はRetry-Afterに従って、5xx・接続エラーは間隔を広げながら再試行するプロバイダー
+ */
+export class GovernedProvider extends DelegatingProvider {
+  private inner: AIProvider;
+  private governor: RequestGovernor;
+
+  constructor(inner: AIProvider, governor: RequestGovernor) {
+    super();
+    this.inner = inner;
+    this.governor = governor;
+  }
+
+  protected get delegate(): AIProvider {
+    return this.inner;
+  }
+
+  async complete(options: CompletionOptions): Promise<CompletionResponse> {
+    for (let attempt = 0; ; attempt++) {
+      const slot = await this.governor.acquire(options.priority || 'background', this.estimateRequestTokens(options), options.signal);
+      let usedTokens: number | undefined;
+
+      try {
+        // 待機中に中断された場合は呼び出さない
+        if (options.signal?.aborted) {
+          throw new RequestAbortedError();
+        }
+        const response = await this.inner.complete(options);
+        usedTokens = response.usage?.totalTokens;
+        return response;
+      } catch (error) {
+        if (!this.shouldRetry(error, attempt)) {
+          throw error;
+        }
+        // 待機中も枠を保持し、他のリクエストで429を重ねないようにする
+        await this.backoff(error, attempt, options.signal);
+      } finally {
+        this.governor.release(slot, usedTokens);
+      }
+    }
+  }
+
+  async *streamComplete(options: CompletionOptions): AsyncGenerator<StreamChunk, void, unknown> {
+    for (let attempt = 0; ; attempt++) {
+      const slot = await this.governor.acquire(options.priority || 'background', this.estimateRequestTokens(options), options.signal);
+      let usedTokens: number | undefined;
+
+      try {
+        if (options.signal?.aborted) {
+          throw new RequestAbortedError();
+        }
+        const stream = this.inner.streamComplete(options);
+        let first: IteratorResult<StreamChunk, void>;
+
+        // 最初のチャンクを受信するまでは再試行可能
+        try {
+          first = await stream.next();
+        } catch (error) {
+          if (!this.shouldRetry(error, attempt)) {
+            throw error;
+          }
+          await this.backoff(error, attempt, options.signal);
+          continue;
+        }
+
+        if (first.done) {
+          return;
+        }
+        // 最終チャンクの使用量（APIが返した場合）でTPMの計上を補正する
+        try {
+          for (let result: IteratorResult<StreamChunk, void> = first; !result.done; result = await stream.next()) {
+            usedTokens = result.value.usage?.totalTokens ?? usedTokens;
+            yield result.value;
+          }
+        } finally {
+          // 途中で読むのをやめた場合も内側のストリームを閉じる
+          await stream.return(undefined);
+        }
+        return;
+      } finally {
+        this.governor.release(slot, usedTokens);
+      }
+    }
+  }
+
+  private estimateRequestTokens(options: CompletionOptions): number {
+    const prompt = options.messages.map(message => getTextContent(message.content)).join('\n');
+    return this.inner.estimateTokens(prompt) + (options.maxTokens || 0);
+  }
+
+  private shouldRetry(error: unknown, attempt: number): boolean {
+    if (attempt >= this.governor.maxRetries) {
+      return false;
+    }
+    return (error instanceof ProviderError && error.status === 429) || isTransientError(error);
+  }
+
+  /**
+   * 再試行までの待機（signalで中断された場合はすぐにRequestAbortedErrorで失敗する）
+   */
+  private async backoff(error: unknown, attempt: number, signal?: AbortSignal): Promise<void> {
+    const retryAfterMs = error instanceof ProviderError ? error.retryAfterMs : undefined;
+    const delay = retryAfterMs ?? Math.min(1000 * 2 ** attempt, 30000);
+    await new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new RequestAbortedError());
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new RequestAbortedError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, delay);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  async embed(texts: string[], model?: string): Promise<number[][]> {
+    const slot = await this.governor.acquire('background', texts.reduce((sum, text) => sum + this.inner.estimateTokens(text), 0));
+    try {
+      return await this.inner.embed(texts, model);
+    } finally {
+      this.governor.release(slot);
+    }
+  }
+}
@@ -0,0 +1,473 @@
+import fs from 'fs-extra';
+
+/**
+ * HuggingFaceのtokenizer.jsonを読み込み、トークン数を数える軽量実装
+ *
+ * BPE（GPT-2系のバイトレベルBPE、SentencePiece由来のBPE）とUnigramに対応する。
+ * トークン数の見積もりが目的のため、特殊トークンやpost_processorは扱わない
+ */
+// tokenizer.jsonのうちトークン数の計算に使う部分
+interface TokenizerJson {
+  normalizer?: NormalizerConfig | null;
+  pre_tokenizer?: PreTokenizerConfig | null;
+  model?: ModelConfig;
+}
+
+interface PatternConfig {
+  String?: string;
+  Regex?: string;
+}
+
+interface NormalizerConfig {
+  type: string;
+  normalizers?: NormalizerConfig[];
+  prepend?: string;
+  pattern?: PatternConfig;
+  content?: string;
+}
+
+interface PreTokenizerConfig {
+  type: string;
+  pretokenizers?: PreTokenizerConfig[];
+  use_regex?: boolean;
+  add_prefix_space?: boolean;
+  pattern?: PatternConfig;
+  behavior?: string;
+  replacement?: string;
+  prepend_scheme?: 'always' | 'never' | 'first';
+  split?: boolean;
+  individual_digits?: boolean;
+}
+
+interface ModelConfig {
+  type?: string;
+  vocab?: unknown;
+  merges?: Array<string | string[]>;
+  byte_fallback?: boolean;
+}
+
+interface BPEModelConfig extends ModelConfig {
+  vocab?: Record<string, number>;
+}
+
+interface UnigramModelConfig extends ModelConfig {
+  vocab?: Array<[string, number]>;
+}
+
+export class HuggingFaceTokenizer {
+  private model: BPEModel | UnigramModel;
+  private normalizers: Array<(text: string) => string> = [];
+  private preTokenizers: Array<(pieces: string[]) => string[]> = [];
+  private byteLevel = false;
+
+  constructor(json: TokenizerJson) {
+    this.buildNormalizer(json.normalizer);
+    this.buildPreTokenizer(json.pre_tokenizer);
+
+    const model = json.model || {};
+    if (model.type === 'Unigram') {
+      this.model = new UnigramModel(model as UnigramModelConfig);
+    } else if (model.type === 'BPE' || model.merges) {
+      this.model = new BPEModel(model as BPEModelConfig);
+    } else {
+      throw new Error(`未対応のトークナイザーモデルです: ${model.type}`);
+    }
+  }
+
+  static fromFile(filePath: string): HuggingFaceTokenizer {
+    return new HuggingFaceTokenizer(fs.readJsonSync(filePath));
+  }
+
+  /**
+   * テキストをトークン列に分割する
+   */
+  tokenize(text: string): string[] {
+    let normalized = text;
+    for (const normalize of this.normalizers) {
+      normalized = normalize(normalized);
+    }
+
+    let pieces = [normalized];
+    for (const preTokenize of this.preTokenizers) {
+      pieces = preTokenize(pieces);
+    }
+    // SentencePiece由来のBPEはpre_tokenizerが無いため、単語境界（▁）で区切って計算量を抑える
+    if (this.preTokenizers.length === 0 && this.model instanceof BPEModel) {
+      pieces = pieces.flatMap(piece => piece.match(/▁*[^▁]+|▁+/gu) || []);
+    }
+
+    const tokens: string[] = [];
+    for (const piece of pieces) {
+      if (!piece) {
+        continue;
+      }
+      tokens.push(...this.model.tokenize(this.byteLevel ? toByteLevel(piece) : piece));
+    }
+    return tokens;
+  }
+
+  count(text: string): number {
+    return this.tokenize(text).length;
+  }
+
+  private buildNormalizer(config: NormalizerConfig | null | undefined): void {
+    if (!config) {
+      return;
+    }
+
+    switch (config.type) {
+      case 'Sequence':
+        for (const child of config.normalizers || []) {
+          this.buildNormalizer(child);
+        }
+        break;
+      case 'NFC':
+      case 'NFD':
+      case 'NFKC':
+      case 'NFKD':
+        this.normalizers.push(text => text.normalize(config.type as 'NFC' | 'NFD' | 'NFKC' | 'NFKD'));
+        break;
+      case 'Precompiled':
+        // SentencePieceのプリコンパイル済み正規化はNFKCで近似する
+        this.normalizers.push(text => text.normalize('NFKC'));
+        break;
+      case 'Lowercase':
+        this.normalizers.push(text => text.toLowerCase());
+        break;
+      case 'Prepend':
+        this.normalizers.push(text => (config.prepend || '') + text);
+        break;
+      case 'Replace': {
+        const pattern = toRegExp(config.pattern);
+        if (pattern) {
+          this.normalizers.push(text => text.replace(pattern, config.content || ''));
+        }
+        break;
+      }
+    }
+  }
+
+  private buildPreTokenizer(config: PreTokenizerConfig | null | undefined): void {
+    if (!config) {
+      return;
+    }
+
+    switch (config.type) {
+      case 'Sequence':
+        for (const child of config.pretokenizers || []) {
+          this.buildPreTokenizer(child);
+        }
+        break;
+
+      case 'ByteLevel': {
+        this.byteLevel = true;
+        if (config.use_regex !== false) {
+          const pattern = new RegExp(GPT2_PATTERN, 'gu');
+          this.preTokenizers.push(pieces => pieces.flatMap(piece => {
+            const text = config.add_prefix_space && !piece.startsWith(' ') ? ' ' + piece : piece;
+            return text.match(pattern) || [];
+          }));
+        }
+        break;
+      }
+
+      case 'Split': {
+        const pattern = toRegExp(config.pattern);
+        if (pattern) {
+          this.preTokenizers.push(pieces => pieces.flatMap(piece => splitKeepingMatches(piece, pattern, config.behavior)));
+        }
+        break;
+      }
+
+      case 'Metaspace': {
+        const replacement = config.replacement || '▁';
+        const prepend = config.prepend_scheme ? config.prepend_scheme !== 'never' : config.add_prefix_space !== false;
+        this.preTokenizers.push(pieces => pieces.flatMap((piece, index) => {
+          let text = piece.replace(/ /g, replacement);
+          if (prepend && !text.startsWith(replacement) && (config.prepend_scheme !== 'first' || index === 0)) {
+            text = replacement + text;
+          }
+          return config.split === false ? [text] : text.match(new RegExp(`${escapeRegExp(replacement)}?[^${escapeRegExp(replacement)}]+|${escapeRegExp(replacement)}+`, 'gu')) || [];
+        }));
+        break;
+      }
+
+      case 'Whitespace':
+        this.preTokenizers.push(pieces => pieces.flatMap(piece => piece.match(/\w+|[^\w\s]+/gu) || []));
+        break;
+
+      case 'WhitespaceSplit':
+        this.preTokenizers.push(pieces => pieces.flatMap(piece => piece.split(/\s+/).filter(Boolean)));
+        break;
+
+      case 'Digits':
+        this.preTokenizers.push(pieces => pieces.flatMap(piece =>
+          splitKeepingMatches(piece, config.individual_digits ? /\p{N}/gu : /\p{N}+/gu, 'Isolated')
+        ));
+        break;
+    }
+  }
+}
+
+// GPT-2のバイトレベルBPEの分割パターン
+const GPT2_PATTERN = "'s|'t|'re|'ve|'m|'ll|'d| ?\\p{L}+| ?\\p{N}+| ?[^\\s\\p{L}\\p{N}]+|\\s+(?!\\S)|\\s+";
+
+/**
+ * tokenizer.jsonのパターン（String/Regex）をJavaScriptの正規表現に変換
+ * JavaScriptが対応していないインラインフラグ (?i:...) は通常のグループとして扱う
+ */
+function toRegExp(pattern: PatternConfig | undefined): RegExp | null {
+  if (!pattern) {
+    return null;
+  }
+  if (typeof pattern.String === 'string') {
+    return new RegExp(escapeRegExp(pattern.String), 'gu');
+  }
+  if (typeof pattern.Regex === 'string') {
+    try {
+      return new RegExp(pattern.Regex.replace(/\(\?i:/g, '(?:'), 'gu');
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 一致部分と非一致部分を順に返す（behavior: Removedでは一致部分を捨てる）
+ */
+function splitKeepingMatches(text: string, pattern: RegExp, behavior: string = 'Isolated'): string[] {
+  const pieces: string[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(pattern)) {
+    if (match[0].length === 0) {
+      continue;
+    }
+    if (match.index! > last) {
+      pieces.push(text.slice(last, match.index));
+    }
+    if (behavior !== 'Removed') {
+      pieces.push(match[0]);
+    }
+    last = match.index! + match[0].length;
+  }
+
+  if (last < text.length) {
+    pieces.push(text.slice(last));
+  }
+  return pieces;
+}
+
+// GPT-2のバイト → 表示可能なUnicode文字の対応表
+const BYTE_TO_CHAR: string[] = (() => {
+  const printable: number[] = [];
+  for (let b = 33; b <= 126; b++) printable.push(b);
+  for (let b = 161; b <= 172; b++) printable.push(b);
+  for (let b = 174; b <= 255; b++) printable.push(b);
+
+  const table: string[] = new Array(256);
+  let extra = 0;
+  for (let b = 0; b < 256; b++) {
+    table[b] = printable.includes(b) ? String.fromCharCode(b) : String.fromCharCode(256 + extra++);
+  }
+  return table;
+})();
+
+function toByteLevel(text: string): string {
+  return Array.from(Buffer.from(text, 'utf-8'), byte => BYTE_TO_CHAR[byte]).join('');
+}
+
+class BPEModel {
+  private vocab: Map<string, number>;
+  private ranks: Map<string, number> = new Map();
+  private byteFallback: boolean;
+  private cache: Map<string, string[]> = new Map();
+
+  constructor(model: BPEModelConfig) {
+    this.vocab = new Map(Object.entries(model.vocab || {}));
+    this.byteFallback = model.byte_fallback === true;
+
+    (model.merges || []).forEach((merge, rank) => {
+      const [left, right] = Array.isArray(merge) ? merge : merge.split(' ');
+      this.ranks.set(`${left} ${right}`, rank);
+    });
+  }
+
+  tokenize(word: string): string[] {
+    const cached = this.cache.get(word);
+    if (cached) {
+      return cached;
+    }
+
+    const tokens = this.vocab.has(word) ? [word] : this.merge(Array.from(word));
+    const result = tokens.flatMap(token => this.vocab.has(token) || !this.byteFallback
+      ? [token]
+      : Array.from(Buffer.from(token, 'utf-8'), byte => `<0x${byte.toString(16).toUpperCase().padStart(2, '0')}>`));
+
+    if (this.cache.size > 10000) {
+      this.cache.clear();
+    }
+    this.cache.set(word, result);
+    return result;
+  }
+
+  /**
+   * 優先度（ランク）の高い隣接ペアから順に結合する
+   */
+  private merge(symbols: string[]): string[] {
+    if (symbols.length < 2) {
+      return symbols;
+    }
+
+    // 双方向リストとヒープで O(n log n) に抑える
+    const prev = symbols.map((_, i) => i - 1);
+    const next = symbols.map((_, i) => (i + 1 < symbols.length ? i + 1 : -1));
+    const heap = new MinHeap<[number, number, string, string]>((a, b) => a[0] - b[0] || a[1] - b[1]);
+
+    const pushPair = (left: number) => {
+      const right = next[left];
+      if (right === -1) {
+        return;
+      }
+      const rank = this.ranks.get(`${symbols[left]} ${symbols[right]}`);
+      if (rank !== undefined) {
+        heap.push([rank, left, symbols[left], symbols[right]]);
+      }
+    };
+
+    for (let i = 0; i < symbols.length - 1; i++) {
+      pushPair(i);
+    }
+
+    while (heap.size > 0) {
+      const [, left, leftSymbol, rightSymbol] = heap.pop()!;
+      const right = next[left];
+      // 既に結合されて無効になったペアは読み飛ばす
+      if (right === -1 || symbols[left] !== leftSymbol || symbols[right] !== rightSymbol) {
+        continue;
+      }
+
+      symbols[left] = leftSymbol + rightSymbol;
+      symbols[right] = '';
+      next[left] = next[right];
+      if (next[right] !== -1) {
+        prev[next[right]] = left;
+      }
+
+      if (prev[left] !== -1) {
+        pushPair(prev[left]);
+      }
+      pushPair(left);
+    }
+
+    return symbols.filter(symbol => symbol !== '');
+  }
+}
+
+class UnigramModel {
+  private scores: Map<string, number> = new Map();
+  private maxPieceLength = 1;
+  private unkScore: number;
+  private byteFallback: boolean;
+
+  constructor(model: UnigramModelConfig) {
+    let minScore = 0;
+    for (const [piece, score] of model.vocab || []) {
+      this.scores.set(piece, score);
+      this.maxPieceLength = Math.max(this.maxPieceLength, Array.from(piece).length);
+      minScore = Math.min(minScore, score);
+    }
+    this.unkScore = minScore - 10;
+    this.byteFallback = model.byte_fallback === true;
+  }
+
+  /**
+   * Viterbiで対数尤度が最大になる分割を求める
+   */
+  tokenize(text: string): string[] {
+    const chars = Array.from(text);
+    const best: Array<{ score: number; start: number; piece: string | null }> = [{ score: 0, start: -1, piece: null }];
+
+    for (let end = 1; end <= chars.length; end++) {
+      best[end] = { score: -Infinity, start: end - 1, piece: null };
+      for (let start = Math.max(0, end - this.maxPieceLength); start < end; start++) {
+        if (best[start].score === -Infinity) {
+          continue;
+        }
+        const piece = chars.slice(start, end).join('');
+        const score = this.scores.get(piece);
+        if (score !== undefined && best[start].score + score > best[end].score) {
+          best[end] = { score: best[start].score + score, start, piece };
+        }
+      }
+      // 語彙に無い文字は未知語として1文字ずつ扱う
+      if (best[end].piece === null) {
+        best[end] = { score: best[end - 1].score + this.unkScore, start: end - 1, piece: null };
+      }
+    }
+
+    const tokens: string[] = [];
+    for (let end = chars.length; end > 0; end = best[end].start) {
+      const { start, piece } = best[end];
+      if (piece !== null) {
+        tokens.unshift(piece);
+      } else if (this.byteFallback) {
+        const bytes = Buffer.from(chars.slice(start, end).join(''), 'utf-8');
+        tokens.unshift(...Array.from(bytes, byte => `<0x${byte.toString(16).toUpperCase().padStart(2, '0')}>`));
+      } else {
+        tokens.unshift('<unk>');
+      }
+    }
+    return tokens;
+  }
+}
+
+class MinHeap<T> {
+  private items: T[] = [];
+
+  constructor(private compare: (a: T, b: T) => number) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: T): void {
+    this.items.push(item);
+    let i = this.items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.compare(this.items[i], this.items[parent]) >= 0) {
+        break;
+      }
+      [this.items[i], this.items[parent]] = [this.items[parent], this.items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const top = this.items[0];
+    const last = this.items.pop();
+    if (this.items.length > 0 && last !== undefined) {
+      this.items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.items.length && this.compare(this.items[left], this.items[smallest]) < 0) smallest = left;
+        if (right < this.items.length && this.compare(this.items[right], this.items[smallest]) < 0) smallest = right;
+        if (smallest === i) {
+          break;
+        }
+        [this.items[i], this.items[smallest]] = [this.items[smallest], this.items[i]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
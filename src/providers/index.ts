@@ -1,32 +1,148 @@
+import path from 'path';
 import { AIProvider } from './base';
 import { OpenAIProvider } from './openai';
+import { AnthropicProvider } from './anthropic';
+import { AzureOpenAIProvider } from './azure';
+import { ProviderSettings, providerRegistry } from './registry';
+import { ReplayProvider } from './replay';
+import { FailoverProvider, FailoverBackend } from './failover';
+import { UsageTrackingProvider } from './tracking';
+import { CachingProvider, ResponseCache } from './cache';
+import { GovernedProvider, RequestGovernor } from './governor';
+import { usageLedger } from '../usage/ledger';
+import { getCacheDir } from '../utils/setup';
 import { config } from '../config';
+import { ChatProfile, readProfiles } from '../config/profiles';
 
 export * from './base';
 export * from './openai';
+export * from './anthropic';
+export * from './azure';
+export * from './registry';
+export * from './replay';
+export * from './failover';
+export * from './tracking';
+export * from './cache';
+export * from './governor';
+export * from './models';
+export * from './tokenizer';
+export * from './structured';
+export * from './reasoning';
+
+// 組み込みプロバイダーの登録
+providerRegistry.register('openai', ({ apiKey, baseUrl, model, tokenizer }) => new OpenAIProvider(apiKey, baseUrl, model, tokenizer));
+providerRegistry.register('anthropic', ({ apiKey, baseUrl, model }) => new AnthropicProvider(apiKey, baseUrl, model));
+providerRegistry.register('azure', ({ apiKey, baseUrl, model, tokenizer, apiVersion, deployments }) => new AzureOpenAIProvider({
+  apiKey,
+  endpoint: baseUrl,
+  deployment: model,
+  apiVersion,
+  deployments,
+  tokenizer,
+}));
 
 export class ProviderFactory {
   private static instance: AIProvider | null = null;
 
   /**
    * 設定に基づいてAIプロバイダーのインスタンスを取得
+   * プロファイル切替でresetされるため、利用側はインスタンスを保持せず毎回ここから取得する
    */
   public static getProvider(): AIProvider {
     if (!ProviderFactory.instance) {
       const cfg = config.getConfig();
-      
-      // 現在はOpenAI互換プロバイダーのみサポート
-      // 将来的にbase_urlに基づいて異なるプロバイダーを選択可能
-      ProviderFactory.instance = new OpenAIProvider(
-        cfg.apiKey,
-        cfg.apiBaseUrl,
-        cfg.model
-      );
+
+      if (cfg.replayMode === 'replay') {
+        // 再生モードでは実プロバイダーを作成しない（オフラインで動作）
+        ProviderFactory.instance = new ReplayProvider('replay', cfg.replayDir, { model: cfg.model });
+      } else {
+        const backend = cfg.failover.length > 0
+          ? ProviderFactory.createFailoverProvider()
+          : ProviderFactory.govern(ProviderFactory.createProvider(cfg.provider, ProviderFactory.toSettings(cfg)), cfg);
+        // 再生モードは実際の呼び出しではないため使用量を記録しない
+        const tracked = new UsageTrackingProvider(backend, event => usageLedger.record(event));
+        // キャッシュヒットはAPIを呼ばないため使用量の記録より外側に置く
+        const provider = cfg.cache
+          ? new CachingProvider(tracked, new ResponseCache(path.join(getCacheDir(), 'responses'), {
+            ttlMs: cfg.cacheTtl * 1000,
+            maxBytes: cfg.cacheMaxSize * 1024 * 1024,
+          }))
+          : tracked;
+        ProviderFactory.instance = cfg.replayMode === 'record'
+          ? new ReplayProvider('record', cfg.replayDir, { inner: provider, model: cfg.model })
+          : provider;
+      }
     }
     
     return ProviderFactory.instance;
   }
 
+  /**
+   * 登録名を指定してプロバイダーのインスタンスを作成
+   */
+  public static createProvider(name: string, settings: ProviderSettings): AIProvider {
+    return providerRegistry.create(name, settings);
+  }
+
+  /**
+   * 設定またはプロファイルの接続情報をプロバイダーの設定に変換
+   */
+  private static toSettings(
+    source: Pick<ChatProfile, 'apiKey' | 'apiBaseUrl' | 'model' | 'tokenizer' | 'apiVersion' | 'deployments'>
+  ): ProviderSettings {
+    return {
+      apiKey: source.apiKey,
+      baseUrl: source.apiBaseUrl,
+      model: source.model,
+      tokenizer: source.tokenizer || undefined,
+      apiVersion: source.apiVersion || undefined,
+      deployments: source.deployments,
+    };
+  }
+
+  /**
+   * 現在の設定を先頭に、failoverに列挙したプロファイルを順に試すプロバイダーを作成
+   */
+  public static createFailoverProvider(): FailoverProvider {
+    const cfg = config.getConfig();
+    const profiles = readProfiles();
+
+    const backends: FailoverBackend[] = [{
+      name: 'default',
+      provider: ProviderFactory.govern(ProviderFactory.createProvider(cfg.provider, ProviderFactory.toSettings(cfg)), cfg),
+    }];
+
+    for (const profileName of cfg.failover) {
+      const profile = profiles.get(profileName);
+      if (!profile) {
+        throw new Error(`フェイルオーバー先のプロファイルが見つかりません: ${profileName}`);
+      }
+      backends.push({
+        name: profileName,
+        provider: ProviderFactory.govern(
+          ProviderFactory.createProvider(profile.provider || cfg.provider, ProviderFactory.toSettings(profile)),
+          profile
+        ),
+      });
+    }
+
+    return new FailoverProvider(backends, { cooldownMs: cfg.failoverCooldown * 1000 });
+  }
+
+  /**
+   * 接続先ごとに同時実行数・レート制限を適用する
+   */
+  private static govern(
+    provider: AIProvider,
+    limits: Pick<ChatProfile, 'maxParallel' | 'requestsPerMinute' | 'tokensPerMinute'>
+  ): GovernedProvider {
+    return new GovernedProvider(provider, new RequestGovernor({
+      maxConcurrent: limits.maxParallel,
+      requestsPerMinute: limits.requestsPerMinute,
+      tokensPerMinute: limits.tokensPerMinute,
+    }));
+  }
+
   /**
    * カスタムプロバイダーを作成
    */
@@ -38,6 +154,15 @@ export class ProviderFactory {
     return new OpenAIProvider(apiKey, baseUrl, model);
   }
 
+  /**
+   * 設定ファイルに記載された外部プロバイダーモジュールを読み込む（起動時に1回呼ぶ）
+   */
+  public static async loadProviderModules(): Promise<void> {
+    for (const modulePath of config.get('providerModules') || []) {
+      await providerRegistry.loadModule(modulePath);
+    }
+  }
+
   /**
    * プロバイダーインスタンスをリセット
    */
@@ -49,7 +174,18 @@ export class ProviderFactory {
    * 利用可能なプロバイダータイプのリスト
    */
   public static getAvailableProviders(): string[] {
-    return ['openai', 'custom'];
+    return providerRegistry.list();
+  }
+
+  /**
+   * サーバーからモデル情報を取得してコンテキスト長などを更新する（失敗しても無視）
+   */
+  public static async detectModelInfo(): Promise<void> {
+    try {
+      await ProviderFactory.getProvider().detectModelInfo();
+    } catch {
+      // 取得できない場合は同梱の定義を使用する
+    }
   }
 
   /**
@@ -66,4 +202,3 @@ export class ProviderFactory {
 }
 
 export const provider = () => ProviderFactory.getProvider();
-
@@ -0,0 +1,134 @@
+import fs from 'fs-extra';
+import path from 'path';
+import bundledModels from './models.json';
+
+// 100万トークンあたりの料金（USD）
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+export interface ModelInfo {
+  // コンテキスト長（入力と出力の合計トークン数）
+  contextLength: number;
+  // 1回の応答で生成できる最大トークン数
+  maxOutputTokens?: number;
+  supportsTools?: boolean;
+  supportsVision?: boolean;
+  // トークン数の計算方法（tokenizer.tsのcreateTokenizerの指定: o200k_base / vllm / hf:<path> / approx）
+  tokenizer?: string;
+  pricing?: ModelPricing;
+}
+
+type ModelTable = Record<string, Partial<ModelInfo>>;
+
+// 優先度の低い順（後のものが前のものを上書きする）
+type Layer = 'bundled' | 'detected' | 'project';
+const LAYERS: Layer[] = ['bundled', 'detected', 'project'];
+
+/**
+ * モデルのメタデータ（コンテキスト長・機能・料金）のレジストリ
+ *
+ * エントリ名はモデル名の前方一致（大文字小文字を区別しない）で照合し、
+ * 「Qwen/Qwen2.5-7B-Instruct」のような名前は組織名を除いた部分でも照合する。
+ * 同梱のmodels.json、サーバーから検出した値、プロジェクトの
+ * .nipponcode/models.json の順に、一致したエントリの項目を重ねて返す
+ */
+export class ModelRegistry {
+  private layers: Record<Layer, Map<string, Partial<ModelInfo>>> = {
+    bundled: new Map(),
+    detected: new Map(),
+    project: new Map(),
+  };
+  private projectLoaded = false;
+
+  constructor(bundled: ModelTable = {}) {
+    this.addAll('bundled', bundled);
+  }
+
+  /**
+   * サーバーから取得した情報を登録（/v1/modelsのmax_model_lenなど）
+   */
+  registerDetected(model: string, info: Partial<ModelInfo>): void {
+    this.add('detected', model, info);
+  }
+
+  /**
+   * 設定ファイル形式（モデル名 → ModelInfo）のJSONを読み込み、同梱の定義より優先させる
+   */
+  loadFile(filePath: string): void {
+    this.addAll('project', fs.readJsonSync(filePath));
+  }
+
+  lookup(model: string): Partial<ModelInfo> | undefined {
+    this.ensureProjectLoaded();
+
+    let result: Partial<ModelInfo> | undefined;
+    for (const layer of LAYERS) {
+      // 同じ層の中では短い（汎用的な）エントリから順に重ねる
+      for (const key of this.matchingKeys(layer, model)) {
+        result = { ...result, ...this.layers[layer].get(key) };
+      }
+    }
+    return result;
+  }
+
+  getContextLength(model: string, fallback: number): number {
+    return this.lookup(model)?.contextLength ?? fallback;
+  }
+
+  /**
+   * 料金が定義されたエントリの一覧（usageコマンドの料金計算用）
+   */
+  getPricingTable(): Record<string, ModelPricing> {
+    this.ensureProjectLoaded();
+
+    const table: Record<string, ModelPricing> = {};
+    for (const layer of LAYERS) {
+      for (const [name, info] of this.layers[layer]) {
+        if (info.pricing) {
+          table[name] = info.pricing;
+        }
+      }
+    }
+    return table;
+  }
+
+  private matchingKeys(layer: Layer, model: string): string[] {
+    const normalized = model.toLowerCase();
+    const baseName = normalized.split('/').pop() || normalized;
+
+    return [...this.layers[layer].keys()]
+      .filter(key => normalized.startsWith(key) || baseName.startsWith(key))
+      .sort((a, b) => a.length - b.length);
+  }
+
+  private add(layer: Layer, model: string, info: Partial<ModelInfo>): void {
+    const key = model.toLowerCase();
+    this.layers[layer].set(key, { ...this.layers[layer].get(key), ...info });
+  }
+
+  private addAll(layer: Layer, table: ModelTable): void {
+    for (const [model, info] of Object.entries(table)) {
+      this.add(layer, model, info);
+    }
+  }
+
+  private ensureProjectLoaded(): void {
+    if (this.projectLoaded) {
+      return;
+    }
+    this.projectLoaded = true;
+
+    const projectPath = path.join(process.cwd(), '.nipponcode', 'models.json');
+    if (fs.existsSync(projectPath)) {
+      try {
+        this.loadFile(projectPath);
+      } catch {
+        console.warn(`モデル定義の読み込みに失敗しました: ${projectPath}`);
+      }
+    }
+  }
+}
+
+export const modelRegistry = new ModelRegistry(bundledModels as ModelTable);
@@ -1,27 +1,81 @@
 import OpenAI from 'openai';
-import { AIProvider, CompletionOptions, CompletionResponse, StreamChunk } from './base';
-import { Tiktoken, encoding_for_model } from 'tiktoken';
+import {
+  AIProvider,
+  CompletionOptions,
+  CompletionResponse,
+  JsonSchema,
+  Message,
+  ProviderError,
+  RequestAbortedError,
+  StreamChunk,
+  TokenUsage,
+  ToolCall,
+  ToolChoice,
+  ToolDefinition,
+  getTextContent,
+  parseRetryAfter,
+} from './base';
+import { modelRegistry } from './models';
+import { Tokenizer, createTokenizer } from './tokenizer';
+import { ThinkingStreamParser, splitThinking } from './reasoning';
+
+// vLLMのreasoning parserが応答に追加するフィールド（OpenAIの型定義には無い）
+interface ReasoningFields {
+  reasoning_content?: string;
+  reasoning?: string;
+}
 
 export class OpenAIProvider extends AIProvider {
   private client: OpenAI;
-  private encoder: Tiktoken | null = null;
+  private tokenizerSpec?: string;
+  private tokenizer?: Tokenizer;
 
-  constructor(apiKey: string, baseUrl: string = 'https://api.openai.com/v1', model: string = 'gpt-4-turbo-preview') {
+  constructor(
+    apiKey: string,
+    baseUrl: string = 'https://api.openai.com/v1',
+    model: string = 'gpt-4-turbo-preview',
+    tokenizer?: string,
+    // 接続方法の異なるクライアント（AzureOpenAIなど）を使う場合に指定
+    client?: OpenAI
+  ) {
     super(apiKey, baseUrl, model);
     
-    this.client = new OpenAI({
+    this.client = client || new OpenAI({
       apiKey: this.apiKey,
       baseURL: this.baseUrl,
       timeout: 120000, // 2分のタイムアウト
-      maxRetries: 2, // 自動リトライ2回
+      maxRetries: 0, // 429・5xx・接続エラーのリトライはRequestGovernorが行う
     });
 
-    // エンコーダーの初期化
+    this.tokenizerSpec = tokenizer;
+  }
+
+  /**
+   * トークナイザーは初回使用時に作成する（サブクラスのモデル名の解決を使えるようにするため）
+   */
+  private getTokenizer(): Tokenizer {
+    if (!this.tokenizer) {
+      this.tokenizer = this.initTokenizer(this.tokenizerSpec);
+    }
+    return this.tokenizer;
+  }
+
+  /**
+   * 指定が無ければモデル定義のトークナイザーを使い、
+   * 定義の無いモデルはOpenAI本家ならtiktoken、それ以外（vLLMなど）は /tokenize で数える
+   */
+  private initTokenizer(spec?: string): Tokenizer {
+    const model = this.resolveModel(this.model);
+    const resolved = spec
+      || modelRegistry.lookup(model)?.tokenizer
+      || (this.isOpenAI() ? 'tiktoken' : 'vllm');
+    const context = { model, baseUrl: this.baseUrl, apiKey: this.apiKey };
+
     try {
-      this.encoder = encoding_for_model(model as any);
-    } catch {
-      // モデル固有のエンコーダーが利用できない場合は、汎用的なものを使用
-      this.encoder = encoding_for_model('gpt-3.5-turbo');
+      return createTokenizer(resolved, context);
+    } catch (error: any) {
+      console.warn(`トークナイザー(${resolved})を利用できないためtiktokenで代用します: ${error.message}`);
+      return createTokenizer('tiktoken', context);
     }
   }
 
@@ -42,10 +96,11 @@ export class OpenAIProvider extends AIProvider {
     if (!options.messages || options.messages.length === 0) {
       throw new Error('messages are required for chat.completions.create');
     }
+    this.assertVisionSupport(options);
     
     const params: OpenAI.Chat.ChatCompletionCreateParams = {
       model,
-      messages: options.messages,
+      messages: options.messages.map(message => this.convertMessage(message)),
       temperature: options.temperature,
       max_tokens: options.maxTokens,
       stream,
@@ -55,23 +110,115 @@ export class OpenAIProvider extends AIProvider {
       presence_penalty: options.presencePenalty,
     };
 
+    if (stream) {
+      // 最終チャンクで使用量を受け取る
+      (params as OpenAI.Chat.ChatCompletionCreateParamsStreaming).stream_options = { include_usage: true };
+    }
+
+    if (options.responseFormat) {
+      if (this.isOpenAI()) {
+        params.response_format = {
+          type: 'json_schema',
+          json_schema: {
+            name: options.responseFormat.name,
+            schema: options.responseFormat.schema as Record<string, unknown>,
+            strict: false,
+          },
+        };
+      } else {
+        // vLLMのガイド付きデコーディング
+        (params as typeof params & { guided_json?: JsonSchema }).guided_json = options.responseFormat.schema;
+      }
+    }
+
+    if (options.tools && options.tools.length > 0) {
+      params.tools = options.tools.map(tool => this.convertTool(tool));
+      if (options.toolChoice) {
+        params.tool_choice = this.convertToolChoice(options.toolChoice);
+      }
+    }
+
     return params as any; // TypeScriptのオーバーロード制約のため必要
   }
 
+  private convertMessage(message: Message): OpenAI.Chat.ChatCompletionMessageParam {
+    if (message.role === 'tool') {
+      return {
+        role: 'tool',
+        content: getTextContent(message.content),
+        tool_call_id: message.toolCallId || '',
+      };
+    }
+
+    if (message.role === 'assistant' && message.toolCalls && message.toolCalls.length > 0) {
+      return {
+        role: 'assistant',
+        content: getTextContent(message.content) || null,
+        tool_calls: message.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function' as const,
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      };
+    }
+
+    if (message.role === 'user' && typeof message.content !== 'string') {
+      // 画像はdata URLとして送る
+      return {
+        role: 'user',
+        content: message.content.map((part): OpenAI.Chat.ChatCompletionContentPart => part.type === 'text'
+          ? { type: 'text', text: part.text }
+          : { type: 'image_url', image_url: { url: `data:${part.mediaType};base64,${part.data || ''}` } }),
+      };
+    }
+
+    return { role: message.role, content: getTextContent(message.content) };
+  }
+
+  private convertTool(tool: ToolDefinition): OpenAI.Chat.ChatCompletionTool {
+    return {
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+    };
+  }
+
+  private convertToolChoice(choice: ToolChoice): OpenAI.Chat.ChatCompletionToolChoiceOption {
+    if (typeof choice === 'string') {
+      return choice;
+    }
+    return { type: 'function', function: { name: choice.name } };
+  }
+
   async complete(options: CompletionOptions): Promise<CompletionResponse> {
     try {
       const params = this.buildCompletionParams(options, false);
-      const completion = await this.client.chat.completions.create(params);
+      const completion = await this.client.chat.completions.create(params, { signal: options.signal });
 
       if (!completion.choices || completion.choices.length === 0) {
         throw new Error('No response from API');
       }
 
-      const content = completion.choices[0].message.content || '';
+      const message = completion.choices[0].message;
+      // vLLMのreasoning parserはreasoning_contentで、それ以外は本文中の<think>タグで思考過程を返す
+      const { content, reasoning } = splitThinking(message.content || '');
+      const reasoningMessage = message as typeof message & ReasoningFields;
+      const reasoningContent = reasoningMessage.reasoning_content || reasoningMessage.reasoning;
       const finishReason = completion.choices[0].finish_reason;
+      const toolCalls: ToolCall[] = (message.tool_calls || [])
+        .filter(call => call.type === 'function')
+        .map(call => ({
+          id: call.id,
+          name: call.function.name,
+          arguments: call.function.arguments,
+        }));
       
       return {
         content,
+        reasoning: [reasoningContent, reasoning].filter(Boolean).join('\n\n') || undefined,
         usage: completion.usage ? {
           promptTokens: completion.usage.prompt_tokens,
           completionTokens: completion.usage.completion_tokens,
@@ -79,65 +226,131 @@ export class OpenAIProvider extends AIProvider {
         } : undefined,
         model: completion.model,
         finishReason,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
       };
     } catch (error: any) {
-      if (error instanceof OpenAI.APIError) {
-        throw new Error(`API Error (${error.status}): ${error.message}`);
-      }
-      throw new Error(`Error: ${error.message}`);
+      throw this.toError(error, options.signal);
     }
   }
 
   async *streamComplete(options: CompletionOptions): AsyncGenerator<StreamChunk, void, unknown> {
     try {
       const params = this.buildCompletionParams(options, true);
-      const stream = await this.client.chat.completions.create(params);
+      const stream = await this.client.chat.completions.create(params, { signal: options.signal });
+      // ツール呼び出しは複数チャンクに分割されて届くため、indexごとに組み立てる
+      const pendingToolCalls = new Map<number, ToolCall>();
+      let finishReason: string | undefined;
+      let usage: TokenUsage | undefined;
+      const thinking = new ThinkingStreamParser();
 
+      // include_usage指定時は、finish_reasonの後にchoicesが空のusageチャンクが届く
       for await (const chunk of stream) {
-        const content = chunk.choices[0]?.delta?.content || '';
-        const finishReason = chunk.choices[0]?.finish_reason;
+        const delta = chunk.choices[0]?.delta;
+        const reasoningDelta = delta as (typeof delta & ReasoningFields) | undefined;
+        const reasoningContent = reasoningDelta?.reasoning_content || reasoningDelta?.reasoning || '';
+        const { content, reasoning } = thinking.push(delta?.content || '');
         
+        if (reasoningContent || reasoning) {
+          yield { content: '', reasoning: reasoningContent + reasoning, done: false };
+        }
         if (content) {
           yield { content, done: false };
         }
-        
-        if (finishReason) {
-          yield { content: '', done: true };
-          return;
+
+        for (const toolCallDelta of delta?.tool_calls || []) {
+          const pending = pendingToolCalls.get(toolCallDelta.index) || { id: '', name: '', arguments: '' };
+          if (toolCallDelta.id) pending.id = toolCallDelta.id;
+          if (toolCallDelta.function?.name) pending.name += toolCallDelta.function.name;
+          if (toolCallDelta.function?.arguments) pending.arguments += toolCallDelta.function.arguments;
+          pendingToolCalls.set(toolCallDelta.index, pending);
+        }
+
+        if (chunk.choices[0]?.finish_reason) {
+          finishReason = chunk.choices[0].finish_reason;
+        }
+        if (chunk.usage) {
+          usage = {
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens,
+            totalTokens: chunk.usage.total_tokens,
+          };
         }
       }
-    } catch (error: any) {
-      if (error instanceof OpenAI.APIError) {
-        throw new Error(`API Error (${error.status}): ${error.message}`);
+
+      const rest = thinking.flush();
+      if (rest.reasoning) {
+        yield { content: '', reasoning: rest.reasoning, done: false };
       }
-      throw new Error(`Error: ${error.message}`);
+      if (rest.content) {
+        yield { content: rest.content, done: false };
+      }
+
+      const toolCalls = [...pendingToolCalls.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([, call]) => call);
+      yield {
+        content: '',
+        done: true,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        usage,
+        finishReason,
+      };
+    } catch (error: any) {
+      throw this.toError(error, options.signal);
     }
   }
 
+  private toError(error: unknown, signal?: AbortSignal): Error {
+    if (signal?.aborted) {
+      return new RequestAbortedError();
+    }
+    if (error instanceof OpenAI.APIError) {
+      const headers = error.headers as Headers | undefined;
+      const retryAfterMs = headers?.get?.('retry-after-ms');
+      return new ProviderError(
+        `API Error (${error.status}): ${error.message}`,
+        error.status,
+        retryAfterMs ? Number(retryAfterMs) : parseRetryAfter(headers?.get?.('retry-after'))
+      );
+    }
+    return new Error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
   estimateTokens(text: string): number {
-    if (!this.encoder) {
-      // エンコーダーが利用できない場合は簡易推定
-      return Math.ceil(text.length / 4);
+    return this.getTokenizer().estimate(text);
+  }
+
+  async countTokens(text: string): Promise<number> {
+    return this.getTokenizer().count(text);
+  }
+
+  /**
+   * /v1/embeddingsでテキストを埋め込みベクトルに変換する
+   * vLLMでは埋め込みモデルを別途起動し、そのモデル名を指定する
+   */
+  async embed(texts: string[], model?: string): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+    try {
+      const response = await this.client.embeddings.create({
+        model: this.getEmbeddingModel(model),
+        input: texts,
+      });
+      // 入力順に並んでいない実装もあるためindexで並べ直す
+      return [...response.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+    } catch (error: any) {
+      throw this.toError(error);
     }
-    return this.encoder.encode(text).length;
   }
 
-  getMaxTokens(): number {
-    // モデルごとの最大トークン数
-    const modelLimits: Record<string, number> = {
-      'gpt-5': 128000,
-      'gpt-5-mini': 128000,
-      'gpt-4o': 128000,
-      'gpt-4o-mini': 128000,
-      'gpt-4-turbo-preview': 128000,
-      'gpt-4-turbo': 128000,
-      'gpt-4': 8192,
-      'gpt-4-32k': 32768,
-      'gpt-3.5-turbo': 16385,
-      'gpt-3.5-turbo-16k': 16385,
-    };
+  getEmbeddingModel(model?: string): string {
+    return model || (this.isOpenAI() ? 'text-embedding-3-small' : this.model);
+  }
 
-    return modelLimits[this.model] || 4096;
+  getMaxTokens(): number {
+    // 未知のモデルはvLLMなどの小さなコンテキストを想定して控えめに見積もる
+    return modelRegistry.getContextLength(this.resolveModel(this.model), 4096);
   }
 
   getName(): string {
@@ -146,12 +359,10 @@ export class OpenAIProvider extends AIProvider {
 
   async getAvailableModels(): Promise<string[]> {
     try {
-      const models = await this.client.models.list();
-      const gptModels = models.data
-        .filter((model: any) => model.id.includes('gpt'))
-        .map((model: any) => model.id)
-        .sort();
-      return gptModels;
+      const models = await this.listModels();
+      const ids = models.map(model => model.id).sort();
+      // OpenAI本家ではチャット以外のモデル（埋め込み・音声など）を除外する
+      return this.isOpenAI() ? ids.filter(id => id.includes('gpt')) : ids;
     } catch (error) {
       console.error('Failed to fetch models:', error);
       return [
@@ -166,6 +377,32 @@ export class OpenAIProvider extends AIProvider {
     }
   }
 
+  async detectModelInfo(): Promise<void> {
+    await this.listModels();
+  }
+
+  /**
+   * /v1/modelsを取得し、vLLMが返すmax_model_lenをコンテキスト長として登録する
+   */
+  private async listModels(): Promise<Array<{ id: string; max_model_len?: number }>> {
+    const models = await this.client.models.list();
+    const data = models.data as Array<{ id: string; max_model_len?: number }>;
+
+    for (const model of data) {
+      if (typeof model.max_model_len === 'number') {
+        modelRegistry.registerDetected(model.id, { contextLength: model.max_model_len });
+      }
+    }
+    return data;
+  }
+
+  /**
+   * OpenAI本家のAPI（response_formatやtiktokenが使える）かどうか
+   */
+  protected isOpenAI(): boolean {
+    return /api\.openai\.com/.test(this.baseUrl);
+  }
+
   async healthCheck(): Promise<boolean> {
     try {
       await this.client.models.list();
@@ -0,0 +1,106 @@
+const OPEN_TAG = '<think>';
+const CLOSE_TAG = '</think>';
+
+/**
+ * 応答本文に埋め込まれた<think>...</think>（思考過程）を本文から分離する
+ * DeepSeek-R1の蒸留モデルなどは開始タグを出力しないことがあるため、
+ * 閉じタグだけがある場合はその前までを思考とみなす
+ */
+export function splitThinking(text: string): { content: string; reasoning?: string } {
+  if (!text.includes(OPEN_TAG) && !text.includes(CLOSE_TAG)) {
+    return { content: text };
+  }
+
+  const reasoning: string[] = [];
+  let content = text;
+
+  const close = content.indexOf(CLOSE_TAG);
+  const open = content.indexOf(OPEN_TAG);
+  if (close !== -1 && (open === -1 || close < open)) {
+    reasoning.push(content.slice(0, close).trim());
+    content = content.slice(close + CLOSE_TAG.length);
+  }
+
+  content = content.replace(/<think>([\s\S]*?)(?:<\/think>|$)/g, (_match, inner: string) => {
+    reasoning.push(inner.trim());
+    return '';
+  });
+
+  const joined = reasoning.filter(Boolean).join('\n\n');
+  return { content: content.trim(), reasoning: joined || undefined };
+}
+
+/**
+ * 解析の前に思考過程を取り除く
+ */
+export function stripThinking(text: string): string {
+  return splitThinking(text).content;
+}
+
+/**
+ * ストリーミング中の<think>タグで本文と思考過程を振り分ける
+ * タグがチャンクの境目で分割されても扱えるよう、タグの途中になりうる末尾は次のチャンクまで保留する
+ */
+export class ThinkingStreamParser {
+  private buffer = '';
+  private thinking = false;
+  // 閉じタグ直後の改行を本文に含めない
+  private trimNext = false;
+
+  push(text: string): { content: string; reasoning: string } {
+    this.buffer += text;
+    let content = '';
+    let reasoning = '';
+
+    for (;;) {
+      const tag = this.thinking ? CLOSE_TAG : OPEN_TAG;
+      const index = this.buffer.indexOf(tag);
+      const end = index === -1 ? this.buffer.length - this.partialTagLength(tag) : index;
+      const piece = this.buffer.slice(0, end);
+
+      if (this.thinking) {
+        reasoning += piece;
+      } else {
+        content += this.takeContent(piece);
+      }
+
+      if (index === -1) {
+        this.buffer = this.buffer.slice(end);
+        return { content, reasoning };
+      }
+
+      this.buffer = this.buffer.slice(index + tag.length);
+      this.trimNext = this.thinking;
+      this.thinking = !this.thinking;
+    }
+  }
+
+  /**
+   * 保留している末尾を出力する
+   */
+  flush(): { content: string; reasoning: string } {
+    const rest = this.buffer;
+    this.buffer = '';
+    return this.thinking ? { content: '', reasoning: rest } : { content: this.takeContent(rest), reasoning: '' };
+  }
+
+  private takeContent(text: string): string {
+    if (!this.trimNext) {
+      return text;
+    }
+    const trimmed = text.replace(/^\s+/, '');
+    if (trimmed) {
+      this.trimNext = false;
+    }
+    return trimmed;
+  }
+
+  private partialTagLength(tag: string): number {
+    for (let length = Math.min(tag.length - 1, this.buffer.length); length > 0; length--) {
+      if (this.buffer.endsWith(tag.slice(0, length))) {
+        return length;
+      }
+    }
+    return 0;
+  }
+}
@@ -0,0 +1,86 @@
+import path from 'path';
+import { AIProvider } from './base';
+
+export interface ProviderSettings {
+  apiKey: string;
+  baseUrl: string;
+  model: string;
+  // トークナイザーの指定（省略時はモデル定義から決定）
+  tokenizer?: string;
+  // Azure OpenAIのAPIバージョンと、デプロイ名 → モデル名の対応
+  apiVersion?: string;
+  deployments?: Record<string, string>;
+}
+
+export type ProviderCreator = (settings: ProviderSettings) => AIProvider;
+
+/**
+ * 外部プロバイダーモジュールが実装するインターフェース
+ *
+ * module.exports.register = (registry) => {
+ *   registry.register('my-provider', (settings) => new MyProvider(settings));
+ * };
+ */
+export interface ProviderModule {
+  register(registry: ProviderRegistry): void;
+}
+
+export class ProviderRegistry {
+  private creators: Map<string, ProviderCreator> = new Map();
+  private loadedModules: Set<string> = new Set();
+
+  /**
+   * プロバイダー実装を名前で登録（同名の登録は上書き）
+   */
+  public register(name: string, creator: ProviderCreator): void {
+    this.creators.set(name, creator);
+  }
+
+  public unregister(name: string): void {
+    this.creators.delete(name);
+  }
+
+  public has(name: string): boolean {
+    return this.creators.has(name);
+  }
+
+  public list(): string[] {
+    return [...this.creators.keys()];
+  }
+
+  public create(name: string, settings: ProviderSettings): AIProvider {
+    const creator = this.creators.get(name);
+    if (!creator) {
+      throw new Error(`不明なプロバイダーです: ${name}（利用可能: ${this.list().join(', ')}）`);
+    }
+    return creator(settings);
+  }
+
+  /**
+   * ローカルのモジュールからプロバイダーを読み込む
+   * 相対パスはbaseDirを基準に解決する
+   */
+  public async loadModule(modulePath: string, baseDir: string = process.cwd()): Promise<void> {
+    const resolved = path.resolve(baseDir, modulePath);
+    if (this.loadedModules.has(resolved)) {
+      return;
+    }
+
+    let loaded: Partial<ProviderModule> & { default?: Partial<ProviderModule> };
+    try {
+      loaded = await import(resolved);
+    } catch (error: any) {
+      throw new Error(`プロバイダーモジュールの読み込みに失敗しました: ${modulePath} (${error.message})`);
+    }
+
+    const register = loaded.register || loaded.default?.register;
+    if (typeof register !== 'function') {
+      throw new Error(`プロバイダーモジュールがregister関数をエクスポートしていません: ${modulePath}`);
+    }
+
+    register(this);
+    this.loadedModules.add(resolved);
+  }
+}
+
+export const providerRegistry = new ProviderRegistry();
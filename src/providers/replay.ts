@@ -0,0 +1,254 @@
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import { AIProvider, CompletionOptions, CompletionResponse, Message, MessageContent, RequestAbortedError, StreamChunk } from './base';
+import { modelRegistry } from './models';
+import { ApproxTokenizer, Tokenizer, createTokenizer } from './tokenizer';
+
+export type ReplayMode = 'record' | 'replay';
+
+interface RecordedChunk {
+  // 直前のチャンクからの経過時間（ミリ秒）
+  delay: number;
+  chunk: StreamChunk;
+}
+
+type Interaction =
+  | { type: 'complete'; response: CompletionResponse }
+  | { type: 'stream'; chunks: RecordedChunk[] }
+  | { type: 'embed'; embeddings: number[][] };
+
+interface Cassette {
+  key: string;
+  request: Record<string, unknown>;
+  interactions: Interaction[];
+}
+
+export interface ReplayProviderOptions {
+  // 記録モードで呼び出す実プロバイダー（再生モードでは不要）
+  inner?: AIProvider;
+  model?: string;
+  // 再生時のチャンク間隔の倍率（0で待機なし）
+  timingScale?: number;
+  // キーから取り除く作業ディレクトリ（既定はprocess.cwd()）
+  workingDir?: string;
+}
+
+/**
+ * リクエスト/レスポンスをカセットとしてディスクに記録・再生するプロバイダー
+ *
+ * 同じリクエストが複数回行われた場合は記録順に再生し、
+ * 記録数を超えたら最後のレスポンスを繰り返す
+ */
+export class ReplayProvider extends AIProvider {
+  private mode: ReplayMode;
+  private cassetteDir: string;
+  private inner?: AIProvider;
+  private timingScale: number;
+  private workingDir: string;
+  private tokenizer?: Tokenizer;
+  // カセットごとの再生位置
+  private playbackIndex: Map<string, number> = new Map();
+
+  constructor(mode: ReplayMode, cassetteDir: string, options: ReplayProviderOptions = {}) {
+    super('', '', options.model || 'replay');
+    this.mode = mode;
+    this.cassetteDir = cassetteDir;
+    this.inner = options.inner;
+    this.timingScale = options.timingScale ?? 1;
+    this.workingDir = options.workingDir ?? process.cwd();
+
+    if (mode === 'record' && !this.inner) {
+      throw new Error('記録モードには実プロバイダーが必要です');
+    }
+  }
+
+  async complete(options: CompletionOptions): Promise<CompletionResponse> {
+    const request = this.normalizeRequest(options, false);
+    const key = this.hashRequest(request);
+
+    if (this.mode === 'replay') {
+      const interaction = await this.nextInteraction(key, 'complete');
+      return interaction.response;
+    }
+
+    const response = await this.inner!.complete(options);
+    await this.appendInteraction(key, request, { type: 'complete', response });
+    return response;
+  }
+
+  async *streamComplete(options: CompletionOptions): AsyncGenerator<StreamChunk, void, unknown> {
+    const request = this.normalizeRequest(options, true);
+    const key = this.hashRequest(request);
+
+    if (this.mode === 'replay') {
+      const interaction = await this.nextInteraction(key, 'stream');
+      for (const recorded of interaction.chunks) {
+        if (recorded.delay > 0 && this.timingScale > 0) {
+          await new Promise(resolve => setTimeout(resolve, recorded.delay * this.timingScale));
+        }
+        if (options.signal?.aborted) {
+          throw new RequestAbortedError();
+        }
+        yield recorded.chunk;
+      }
+      return;
+    }
+
+    const chunks: RecordedChunk[] = [];
+    let last = Date.now();
+
+    for await (const chunk of this.inner!.streamComplete(options)) {
+      const now = Date.now();
+      chunks.push({ delay: now - last, chunk });
+      last = now;
+      yield chunk;
+    }
+
+    await this.appendInteraction(key, request, { type: 'stream', chunks });
+  }
+
+  async embed(texts: string[], model?: string): Promise<number[][]> {
+    const request = { embed: true, model: model || null, texts: texts.map(text => text.replace(/\r\n/g, '\n')) };
+    const key = this.hashRequest(request);
+
+    if (this.mode === 'replay') {
+      const interaction = await this.nextInteraction(key, 'embed');
+      return interaction.embeddings;
+    }
+
+    const embeddings = await this.inner!.embed(texts, model);
+    await this.appendInteraction(key, request, { type: 'embed', embeddings });
+    return embeddings;
+  }
+
+  /**
+   * キーに影響しない差異（改行コードや前後の空白、作業ディレクトリの絶対パス）を取り除いたリクエスト
+   */
+  private normalizeRequest(options: CompletionOptions, stream: boolean): Record<string, unknown> {
+    const request = {
+      stream,
+      model: options.model || this.model,
+      messages: options.messages.map((message: Message) => ({
+        role: message.role,
+        content: this.normalizeContent(message.content),
+        toolCalls: message.toolCalls,
+        toolCallId: message.toolCallId,
+      })),
+      temperature: options.temperature,
+      maxTokens: options.maxTokens,
+      stopSequences: options.stopSequences,
+      tools: options.tools?.map(tool => tool.name),
+      toolChoice: options.toolChoice,
+      responseFormat: options.responseFormat?.name,
+    };
+    // システムプロンプトなどに含まれる作業ディレクトリは環境ごとに異なるため、
+    // 別のマシンで記録したカセットも再生できるよう置き換える
+    const json = JSON.stringify(request);
+    if (this.workingDir.length <= 1) {
+      return JSON.parse(json);
+    }
+    return JSON.parse(json.split(JSON.stringify(this.workingDir).slice(1, -1)).join('<cwd>'));
+  }
+
+  private normalizeContent(content: MessageContent): unknown {
+    if (typeof content === 'string') {
+      return content.replace(/\r\n/g, '\n').trim();
+    }
+    // 画像はカセットが肥大化しないようハッシュだけを残す
+    return content.map(part => part.type === 'text'
+      ? { type: 'text', text: part.text.replace(/\r\n/g, '\n').trim() }
+      : { type: 'image', mediaType: part.mediaType, hash: crypto.createHash('sha256').update(part.data || '').digest('hex').substring(0, 16) });
+  }
+
+  private hashRequest(request: Record<string, unknown>): string {
+    return crypto.createHash('sha256').update(JSON.stringify(request)).digest('hex').substring(0, 16);
+  }
+
+  private getCassettePath(key: string): string {
+    return path.join(this.cassetteDir, `${key}.json`);
+  }
+
+  private async nextInteraction<T extends Interaction['type']>(
+    key: string,
+    type: T
+  ): Promise<Extract<Interaction, { type: T }>> {
+    const cassettePath = this.getCassettePath(key);
+    if (!await fs.pathExists(cassettePath)) {
+      throw new Error(`カセットが見つかりません: ${cassettePath}（記録モードで再実行してください）`);
+    }
+
+    const cassette: Cassette = await fs.readJson(cassettePath);
+    const interactions = cassette.interactions.filter(
+      (interaction): interaction is Extract<Interaction, { type: T }> => interaction.type === type
+    );
+    if (interactions.length === 0) {
+      throw new Error(`カセットに${type}の記録がありません: ${cassettePath}`);
+    }
+
+    const index = this.playbackIndex.get(key) || 0;
+    this.playbackIndex.set(key, index + 1);
+    return interactions[Math.min(index, interactions.length - 1)];
+  }
+
+  private async appendInteraction(key: string, request: Record<string, unknown>, interaction: Interaction): Promise<void> {
+    const cassettePath = this.getCassettePath(key);
+    await fs.ensureDir(this.cassetteDir);
+
+    // 同一プロセス内で最初に記録する時は古い記録を置き換える
+    let cassette: Cassette = { key, request, interactions: [] };
+    if (this.playbackIndex.has(key) && await fs.pathExists(cassettePath)) {
+      cassette = await fs.readJson(cassettePath);
+    }
+    this.playbackIndex.set(key, (this.playbackIndex.get(key) || 0) + 1);
+
+    cassette.interactions.push(interaction);
+    await fs.writeJson(cassettePath, cassette, { spaces: 2 });
+  }
+
+  /**
+   * 記録時と再生時で要約や履歴の切り詰めの判定が変わるとリクエストが一致しなくなるため、
+   * トークン数は実プロバイダーではなくモデル定義からローカルで数える
+   * （サーバーに問い合わせるvllmトークナイザーは再生時に使えないので簡易推定にする）
+   */
+  private getTokenizer(): Tokenizer {
+    if (!this.tokenizer) {
+      const spec = modelRegistry.lookup(this.model)?.tokenizer;
+      try {
+        this.tokenizer = spec && spec !== 'vllm' ? createTokenizer(spec, { model: this.model }) : new ApproxTokenizer();
+      } catch {
+        this.tokenizer = new ApproxTokenizer();
+      }
+    }
+    return this.tokenizer;
+  }
+
+  estimateTokens(text: string): number {
+    return this.getTokenizer().estimate(text);
+  }
+
+  async countTokens(text: string): Promise<number> {
+    return this.getTokenizer().count(text);
+  }
+
+  // detectModelInfoは実プロバイダーに渡さないため、記録時も再生時も同梱の定義の値になる
+  getMaxTokens(): number {
+    return modelRegistry.getContextLength(this.model, 128000);
+  }
+
+  getEmbeddingModel(model?: string): string {
+    return this.inner ? this.inner.getEmbeddingModel(model) : super.getEmbeddingModel(model);
+  }
+
+  getName(): string {
+    return this.inner ? `Replay(${this.inner.getName()})` : 'Replay';
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    return this.inner ? this.inner.getAvailableModels() : [this.model];
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return this.inner ? this.inner.healthCheck() : true;
+  }
+}
@@ -0,0 +1,188 @@
+import { AIProvider, CompletionOptions, JsonSchema, Message } from './base';
+import { stripThinking } from './reasoning';
+
+/**
+ * 型情報付きのJSONスキーマ（Tは検証に通った値の型）
+ */
+export interface TypedSchema<T> {
+  name: string;
+  schema: JsonSchema;
+  // 型推論のためだけに使う（実行時には存在しない）
+  readonly __type?: T;
+}
+
+export function defineSchema<T>(name: string, schema: JsonSchema): TypedSchema<T> {
+  return { name, schema };
+}
+
+/**
+ * 修正の再依頼を繰り返しても応答がスキーマに適合しなかった場合の例外
+ */
+export class StructuredOutputError extends Error {
+  public errors: string[];
+  public raw: string;
+
+  constructor(errors: string[], raw: string) {
+    super(`応答がJSONスキーマに適合しませんでした: ${errors.slice(0, 3).join(' / ')}`);
+    this.name = 'StructuredOutputError';
+    this.errors = errors;
+    this.raw = raw;
+  }
+}
+
+/**
+ * 値をスキーマで検証し、エラーメッセージの一覧を返す（適合する場合は空配列）
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, location: string = '$'): string[] {
+  if (schema.enum && !schema.enum.some(option => option === value)) {
+    return [`${location}: ${schema.enum.map(v => JSON.stringify(v)).join(', ')} のいずれかである必要があります`];
+  }
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    return [`${location}: ${schema.type}型である必要があります`];
+  }
+
+  const errors: string[] = [];
+
+  if (schema.type === 'object' || schema.properties) {
+    if (!isPlainObject(value)) {
+      return errors;
+    }
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) {
+        errors.push(`${location}.${key}: 必須です`);
+      }
+    }
+    for (const [key, child] of Object.entries(schema.properties || {})) {
+      if (value[key] !== undefined) {
+        errors.push(...validateSchema(value[key], child, `${location}.${key}`));
+      }
+    }
+    if (schema.additionalProperties === false) {
+      for (const key of Object.keys(value)) {
+        if (!schema.properties || !(key in schema.properties)) {
+          errors.push(`${location}.${key}: 定義されていないプロパティです`);
+        }
+      }
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${location}: ${schema.minItems}件以上必要です`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateSchema(item, schema.items!, `${location}[${index}]`)));
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${location}: ${schema.minimum}以上である必要があります`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${location}: ${schema.maximum}以下である必要があります`);
+    }
+  }
+
+  return errors;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function matchesType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+  switch (type) {
+    case 'object':
+      return isPlainObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'null':
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * 応答テキストからJSONを取り出す
+ * （スキーマ指定に対応していないサーバーでは前後に説明文やコードブロックが付くことがある）
+ */
+export function extractJSON(text: string): unknown {
+  const trimmed = stripThinking(text).trim();
+  const candidates = [trimmed];
+
+  const codeBlock = trimmed.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/);
+  if (codeBlock) {
+    candidates.push(codeBlock[1]);
+  }
+  const object = trimmed.match(/\{[\s\S]*\}/);
+  if (object) {
+    candidates.push(object[0]);
+  }
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // 次の候補を試す
+    }
+  }
+  throw new Error('応答にJSONが含まれていません');
+}
+
+/**
+ * 応答からJSONを取り出してスキーマで検証し、違反内容を返す（適合する場合は空配列）
+ */
+function checkResponse(raw: string, schema: JsonSchema): { value: unknown; errors: string[] } {
+  try {
+    const value = extractJSON(raw);
+    return { value, errors: validateSchema(value, schema) };
+  } catch (error: any) {
+    return { value: undefined, errors: [error.message] };
+  }
+}
+
+/**
+ * JSONスキーマを指定して呼び出し、応答を検証して返す
+ * 検証に失敗した場合はエラー内容を伝えて修正を再依頼する（失敗した応答はキャッシュに保存させない）
+ */
+export async function completeStructured<T>(
+  provider: AIProvider,
+  options: CompletionOptions,
+  schema: TypedSchema<T>,
+  maxRepairs: number = 2
+): Promise<T> {
+  const messages: Message[] = [...options.messages];
+  let errors: string[] = [];
+  let raw = '';
+
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    const response = await provider.complete({
+      ...options,
+      messages,
+      responseFormat: { type: 'json_schema', name: schema.name, schema: schema.schema },
+      cacheIf: candidate => checkResponse(candidate.content, schema.schema).errors.length === 0,
+    });
+    raw = response.content;
+
+    const result = checkResponse(raw, schema.schema);
+    errors = result.errors;
+    if (errors.length === 0) {
+      return result.value as T;
+    }
+
+    messages.push(
+      { role: 'assistant', content: raw },
+      {
+        role: 'user',
+        content: `直前の応答はJSONスキーマに適合しませんでした:\n${errors.map(e => `- ${e}`).join('\n')}\n\nスキーマに従ったJSONだけを出力し直してください。`,
+      }
+    );
+  }
+
+  throw new StructuredOutputError(errors, raw);
+}
@@ -0,0 +1,224 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { Tiktoken, TiktokenEncoding, TiktokenModel, encoding_for_model, get_encoding } from 'tiktoken';
+import { HuggingFaceTokenizer } from './hf-tokenizer';
+
+/**
+ * トークン数の計算方法
+ *
+ * countは正確な値（サーバー問い合わせを含む）、estimateは同期的に得られる値を返す。
+ * ローカルで計算できるトークナイザーでは両者は一致する
+ */
+export interface Tokenizer {
+  count(text: string): Promise<number>;
+  estimate(text: string): number;
+  // 正確に数えられなかった場合（サーバーに問い合わせられないなど）はnullを返す。
+  // 省略時はcountを正確な値として扱う
+  tryCount?(text: string): Promise<number | null>;
+}
+
+export interface TokenizerContext {
+  model: string;
+  // vllmトークナイザーが問い合わせるAPIのベースURL（/v1を含んでもよい）
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+/**
+ * 文字種から見積もる簡易トークナイザー
+ * 日本語などのマルチバイト文字はおおよそ1文字1トークン
+ */
+export class ApproxTokenizer implements Tokenizer {
+  async count(text: string): Promise<number> {
+    return this.estimate(text);
+  }
+
+  estimate(text: string): number {
+    const multibyte = (text.match(/[\u0080-\uFFFF]/g) || []).length;
+    const ascii = text.length - multibyte;
+    return Math.ceil(ascii / 4) + multibyte;
+  }
+}
+
+export class TiktokenTokenizer implements Tokenizer {
+  private encoder: Tiktoken;
+
+  constructor(encoding: Tiktoken) {
+    this.encoder = encoding;
+  }
+
+  static forEncoding(name: string): TiktokenTokenizer {
+    return new TiktokenTokenizer(get_encoding(name as TiktokenEncoding));
+  }
+
+  static forModel(model: string): TiktokenTokenizer {
+    try {
+      return new TiktokenTokenizer(encoding_for_model(model as TiktokenModel));
+    } catch {
+      // モデル固有のエンコーダーが利用できない場合は、汎用的なものを使用
+      return new TiktokenTokenizer(encoding_for_model('gpt-3.5-turbo'));
+    }
+  }
+
+  async count(text: string): Promise<number> {
+    return this.estimate(text);
+  }
+
+  estimate(text: string): number {
+    return this.encoder.encode(text).length;
+  }
+}
+
+export class HuggingFaceFileTokenizer implements Tokenizer {
+  private tokenizer: HuggingFaceTokenizer;
+
+  constructor(filePath: string) {
+    this.tokenizer = HuggingFaceTokenizer.fromFile(filePath);
+  }
+
+  async count(text: string): Promise<number> {
+    return this.estimate(text);
+  }
+
+  estimate(text: string): number {
+    return this.tokenizer.count(text);
+  }
+}
+
+/**
+ * vLLMの /tokenize エンドポイントで数えるトークナイザー
+ * エンドポイントが無い（404・405）場合は以降の問い合わせをやめ、簡易推定を使う
+ * タイムアウトなど一時的なエラーではその回だけ簡易推定を使う
+ */
+export class VLLMTokenizer implements Tokenizer {
+  private url: string;
+  private model: string;
+  private apiKey?: string;
+  private fallback = new ApproxTokenizer();
+  private available = true;
+
+  constructor(baseUrl: string, model: string, apiKey?: string) {
+    // /tokenize はOpenAI互換APIの /v1 ではなくサーバー直下にある
+    this.url = baseUrl.replace(/\/+$/, '').replace(/\/v1$/, '') + '/tokenize';
+    this.model = model;
+    this.apiKey = apiKey;
+  }
+
+  async count(text: string): Promise<number> {
+    return (await this.tryCount(text)) ?? this.fallback.estimate(text);
+  }
+
+  async tryCount(text: string): Promise<number | null> {
+    if (!this.available) {
+      return null;
+    }
+
+    try {
+      const { data } = await axios.post(
+        this.url,
+        { model: this.model, prompt: text, add_special_tokens: false },
+        {
+          timeout: 10000,
+          headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : undefined,
+        }
+      );
+      return typeof data.count === 'number' ? data.count : (data.tokens || []).length;
+    } catch (error: any) {
+      if ([404, 405].includes(error?.response?.status)) {
+        this.available = false;
+      }
+      return null;
+    }
+  }
+
+  estimate(text: string): number {
+    return this.fallback.estimate(text);
+  }
+}
+
+/**
+ * 文字列のハッシュごとに結果をキャッシュするトークナイザー
+ * 一度正確に数えた文字列は、同期的なestimateでも正確な値を返す
+ * （簡易推定で代用した値はキャッシュしない）
+ */
+export class CachedTokenizer implements Tokenizer {
+  private inner: Tokenizer;
+  private maxEntries: number;
+  private cache: Map<string, number> = new Map();
+
+  constructor(inner: Tokenizer, maxEntries: number = 10000) {
+    this.inner = inner;
+    this.maxEntries = maxEntries;
+  }
+
+  async count(text: string): Promise<number> {
+    const key = this.hash(text);
+    const cached = this.cache.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const count = this.inner.tryCount ? await this.inner.tryCount(text) : await this.inner.count(text);
+    if (count === null) {
+      return this.inner.estimate(text);
+    }
+    this.remember(key, count);
+    return count;
+  }
+
+  estimate(text: string): number {
+    const cached = this.cache.get(this.hash(text));
+    return cached !== undefined ? cached : this.inner.estimate(text);
+  }
+
+  private remember(key: string, count: number): void {
+    if (this.cache.size >= this.maxEntries) {
+      // 最も古いエントリから削除
+      const oldest = this.cache.keys().next().value;
+      if (oldest !== undefined) {
+        this.cache.delete(oldest);
+      }
+    }
+    this.cache.set(key, count);
+  }
+
+  private hash(text: string): string {
+    return crypto.createHash('sha1').update(text).digest('hex');
+  }
+}
+
+/**
+ * 指定からトークナイザーを作成する
+ *
+ * - 'approx': 文字種による簡易推定
+ * - 'vllm': vLLMの /tokenize エンドポイント
+ * - 'hf:<path>': HuggingFaceのtokenizer.json
+ * - 'tiktoken' / 'tiktoken:<encoding>' / '<encoding>'（o200k_baseなど）: tiktoken
+ */
+export function createTokenizer(spec: string, context: TokenizerContext): Tokenizer {
+  const [kind, ...rest] = spec.split(':');
+  const argument = rest.join(':');
+
+  let tokenizer: Tokenizer;
+  switch (kind) {
+    case 'approx':
+      tokenizer = new ApproxTokenizer();
+      break;
+    case 'vllm':
+      if (!context.baseUrl) {
+        throw new Error('vllmトークナイザーにはAPIのベースURLが必要です');
+      }
+      tokenizer = new VLLMTokenizer(context.baseUrl, context.model, context.apiKey);
+      break;
+    case 'hf':
+      tokenizer = new HuggingFaceFileTokenizer(argument);
+      break;
+    case 'tiktoken':
+      tokenizer = argument ? TiktokenTokenizer.forEncoding(argument) : TiktokenTokenizer.forModel(context.model);
+      break;
+    default:
+      tokenizer = TiktokenTokenizer.forEncoding(kind);
+  }
+
+  return new CachedTokenizer(tokenizer);
+}
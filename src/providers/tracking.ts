@@ -0,0 +1,105 @@
+import { AIProvider, CompletionOptions, CompletionResponse, StreamChunk, TokenUsage, getTextContent } from './base';
+import { DelegatingProvider } from './delegating';
+
+export interface UsageEvent {
+  provider: string;
+  model: string;
+  caller: string;
+  promptTokens: number;
+  completionTokens: number;
+  // APIがusageを返さなかったためestimateTokensで推定した場合
+  estimated: boolean;
+  servedBy?: string;
+}
+
+export type UsageListener = (event: UsageEvent) => void;
+
+/**
+ * すべての呼び出しのトークン使用量をリスナーに通知するプロバイダー
+ */
+export class UsageTrackingProvider extends DelegatingProvider {
+  private inner: AIProvider;
+  private listener: UsageListener;
+
+  constructor(inner: AIProvider, listener: UsageListener) {
+    super();
+    this.inner = inner;
+    this.listener = listener;
+  }
+
+  protected get delegate(): AIProvider {
+    return this.inner;
+  }
+
+  async complete(options: CompletionOptions): Promise<CompletionResponse> {
+    const response = await this.inner.complete(options);
+
+    this.notify(options, {
+      model: response.model,
+      promptTokens: response.usage?.promptTokens,
+      completionTokens: response.usage?.completionTokens,
+      content: (response.reasoning || '') + response.content,
+      servedBy: response.servedBy,
+    });
+
+    return response;
+  }
+
+  async *streamComplete(options: CompletionOptions): AsyncGenerator<StreamChunk, void, unknown> {
+    let content = '';
+    let servedBy: string | undefined;
+    let usage: TokenUsage | undefined;
+
+    try {
+      for await (const chunk of this.inner.streamComplete(options)) {
+        // 思考過程も出力トークンとして課金される
+        content += (chunk.reasoning || '') + chunk.content;
+        servedBy = chunk.servedBy ?? servedBy;
+        usage = chunk.usage ?? usage;
+        yield chunk;
+      }
+    } finally {
+      // 中断された場合も、生成済みの分は課金されるため記録する
+      if (content || usage) {
+        this.notify(options, {
+          promptTokens: usage?.promptTokens,
+          completionTokens: usage?.completionTokens,
+          content,
+          servedBy,
+        });
+      }
+    }
+  }
+
+  private notify(
+    options: CompletionOptions,
+    result: { model?: string; promptTokens?: number; completionTokens?: number; content: string; servedBy?: string }
+  ): void {
+    const estimated = result.promptTokens === undefined || result.completionTokens === undefined;
+
+    try {
+      this.listener({
+        provider: this.inner.getName(),
+        // ストリームのチャンクにはモデル名が無いため、省略時はプロバイダーの既定のモデルとする
+        model: result.model || options.model || this.inner.getModel() || 'unknown',
+        caller: options.caller || 'unknown',
+        promptTokens: result.promptTokens ?? this.estimateTokens(options.messages.map(m => getTextContent(m.content)).join('\n')),
+        completionTokens: result.completionTokens ?? this.estimateTokens(result.content),
+        estimated,
+        servedBy: result.servedBy,
+      });
+    } catch {
+      // 使用量の記録失敗で本処理を止めない
+    }
+  }
+
+  async embed(texts: string[], model?: string): Promise<number[][]> {
+    const vectors = await this.inner.embed(texts, model);
+    // 埋め込みAPIの使用量は返されないことが多いため入力から推定する
+    this.notify(
+      { messages: texts.map(text => ({ role: 'user' as const, content: text })), model, caller: 'embedding' },
+      { completionTokens: 0, content: '' }
+    );
+    return vectors;
+  }
+}
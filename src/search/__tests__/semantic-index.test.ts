@@ -0,0 +1,101 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { SemanticIndex, chunkText } from '../semantic-index';
+import { StubProvider } from '../../providers/__tests__/helpers/stub-provider';
+
+const VOCABULARY = ['invoice', 'validate', 'user', 'login', 'password'];
+
+// 語彙の出現回数をベクトルにする簡易的な埋め込み
+class StubEmbeddingProvider extends StubProvider {
+  public embedded: string[] = [];
+  public embeddingModel = 'stub-embedding';
+  public vocabulary = VOCABULARY;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    this.embedded.push(...texts);
+    return texts.map(text => this.vocabulary.map(word => text.toLowerCase().split(word).length - 1));
+  }
+
+  getEmbeddingModel(model?: string): string {
+    return model || this.embeddingModel;
+  }
+}
+
+describe('chunkText', () => {
+  it('splits long files into overlapping line ranges', () => {
+    const content = Array.from({ length: 120 }, (_, i) => `line ${i + 1}`).join('\n');
+    const chunks = chunkText('src/a.ts', content);
+
+    expect(chunks.map(chunk => [chunk.startLine, chunk.endLine])).toEqual([[1, 60], [51, 110], [101, 120]]);
+    expect(chunks[1].text.startsWith('line 51\n')).toBe(true);
+  });
+});
+
+describe('SemanticIndex', () => {
+  let dir: string;
+  let provider: StubEmbeddingProvider;
+
+  const createIndex = () => new SemanticIndex({
+    rootDir: dir,
+    indexPath: path.join(dir, '.cache', 'index.json'),
+    provider,
+    listFiles: async root => (await fs.readdir(path.join(root, 'src'))).map(file => path.join(root, 'src', file)),
+  });
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'semantic-'));
+    provider = new StubEmbeddingProvider();
+    await fs.outputFile(path.join(dir, 'src', 'billing.ts'), 'export function validateInvoice(invoice) {\n  // invoice validate\n}\n');
+    await fs.outputFile(path.join(dir, 'src', 'auth.ts'), 'export function login(user, password) {\n  return user;\n}\n');
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('finds the file most related to the query', async () => {
+    const index = createIndex();
+    await expect(index.update()).resolves.toEqual({ files: 2, chunks: 2, updated: 2, removed: 0 });
+
+    const results = await index.search('where do we validate invoices?', 1);
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ path: 'src/billing.ts', startLine: 1, endLine: 4 });
+  });
+
+  it('only re-embeds changed files and drops deleted ones', async () => {
+    await createIndex().update();
+    provider.embedded = [];
+
+    // 保存された索引を読み込むため、変更が無ければ埋め込まない
+    const index = createIndex();
+    await expect(index.update()).resolves.toMatchObject({ updated: 0, removed: 0 });
+    expect(provider.embedded).toEqual([]);
+
+    await fs.appendFile(path.join(dir, 'src', 'auth.ts'), '// password check\n');
+    await fs.remove(path.join(dir, 'src', 'billing.ts'));
+    await expect(index.update()).resolves.toEqual({ files: 1, chunks: 1, updated: 1, removed: 1 });
+    expect(provider.embedded).toHaveLength(1);
+    expect(provider.embedded[0].startsWith('src/auth.ts\n')).toBe(true);
+  });
+
+  it('rebuilds the index when the embedding model changes', async () => {
+    await createIndex().update();
+    provider.embedded = [];
+
+    provider.embeddingModel = 'other-embedding';
+    await expect(createIndex().update()).resolves.toMatchObject({ files: 2, updated: 2 });
+    expect(provider.embedded).toHaveLength(2);
+  });
+
+  it('rebuilds the index when the vector dimensions change under the same model', async () => {
+    await createIndex().update();
+    provider.vocabulary = VOCABULARY.slice(0, 3);
+
+    // 変更されたファイルの埋め込みで次元数の違いに気付き、すべて埋め込み直す
+    await fs.appendFile(path.join(dir, 'src', 'auth.ts'), '// user login\n');
+    const index = createIndex();
+    await expect(index.update()).resolves.toMatchObject({ files: 2, updated: 2 });
+    await expect(index.search('validate invoice', 1)).resolves.toMatchObject([{ path: 'src/billing.ts' }]);
+  });
+});
@@ -0,0 +1,36 @@
+import path from 'path';
+import crypto from 'crypto';
+import { AIProvider, ProviderFactory } from '../providers';
+import { ProjectAnalyzer } from '../analyzers/project';
+import { config } from '../config';
+import { getCacheDir } from '../utils/setup';
+import { SemanticIndex } from './semantic-index';
+
+let current: { key: string; provider: AIProvider; index: SemanticIndex } | undefined;
+
+/**
+ * カレントディレクトリのプロジェクトの意味検索索引を取得
+ * （索引ファイルはプロジェクト・接続先・埋め込みモデルごとに分け、プロファイルを切り替えても混ざらないようにする）
+ */
+export function getProjectIndex(): SemanticIndex {
+  const rootDir = process.cwd();
+  const model = config.get('embeddingModel') || undefined;
+  const provider = ProviderFactory.getProvider();
+  const key = [rootDir, provider.getBaseUrl(), provider.getEmbeddingModel(model)].join('\n');
+
+  if (!current || current.key !== key || current.provider !== provider) {
+    const projectId = crypto.createHash('sha1').update(key).digest('hex').slice(0, 12);
+    current = {
+      key,
+      provider,
+      index: new SemanticIndex({
+        rootDir,
+        indexPath: path.join(getCacheDir(), 'search', `${projectId}.json`),
+        provider,
+        model,
+        listFiles: dir => new ProjectAnalyzer().listTextFiles(dir),
+      }),
+    };
+  }
+  return current.index;
+}
@@ -0,0 +1,310 @@
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import { AIProvider } from '../providers/base';
+
+// 1チャンクの行数と、前のチャンクと重ねる行数
+const CHUNK_LINES = 60;
+const CHUNK_OVERLAP = 10;
+// 埋め込みモデルの入力上限を超えないよう1チャンクの文字数を制限する
+const MAX_CHUNK_CHARS = 4000;
+// 生成物や巨大なデータファイルは索引に含めない
+const MAX_FILE_SIZE = 256 * 1024;
+const EMBED_BATCH_SIZE = 32;
+const INDEX_VERSION = 2;
+
+export interface CodeChunk {
+  // プロジェクトルートからの相対パス
+  path: string;
+  startLine: number;
+  endLine: number;
+  text: string;
+}
+
+export interface SearchResult extends CodeChunk {
+  // コサイン類似度
+  score: number;
+}
+
+export interface IndexUpdateResult {
+  files: number;
+  chunks: number;
+  // 埋め込みを計算し直したファイル数
+  updated: number;
+  removed: number;
+}
+
+export interface SemanticIndexOptions {
+  rootDir: string;
+  indexPath: string;
+  provider: AIProvider;
+  // 埋め込みモデル（省略時はプロバイダーの既定）
+  model?: string;
+  // 索引対象のファイル（絶対パス）を列挙する
+  listFiles: (rootDir: string) => Promise<string[]>;
+}
+
+interface StoredChunk {
+  startLine: number;
+  endLine: number;
+  text: string;
+  // Float32Arrayをbase64にしたもの（JSONの数値配列より大幅に小さい）
+  vector: string;
+}
+
+interface StoredFile {
+  mtimeMs: number;
+  size: number;
+  hash: string;
+  chunks: StoredChunk[];
+}
+
+interface StoredIndex {
+  version: number;
+  // 埋め込みを計算した接続先とモデル（どちらかが変わったら作り直す）
+  baseUrl: string;
+  model: string;
+  // ベクトルの次元数（まだ埋め込んでいない場合はnull）
+  dimensions: number | null;
+  files: Record<string, StoredFile>;
+}
+
+/**
+ * ファイルを行単位で重なりのあるチャンクに分割する
+ */
+export function chunkText(filePath: string, content: string): CodeChunk[] {
+  const lines = content.split('\n');
+  const chunks: CodeChunk[] = [];
+
+  for (let start = 0; start < lines.length; start += CHUNK_LINES - CHUNK_OVERLAP) {
+    const end = Math.min(start + CHUNK_LINES, lines.length);
+    const text = lines.slice(start, end).join('\n').slice(0, MAX_CHUNK_CHARS);
+    if (text.trim()) {
+      chunks.push({ path: filePath, startLine: start + 1, endLine: end, text });
+    }
+    if (end === lines.length) {
+      break;
+    }
+  }
+  return chunks;
+}
+
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length) {
+    throw new Error(`次元数の異なるベクトルは比較できません（${a.length}と${b.length}）`);
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * 検索結果をプロンプトに含める形式に整形する
+ */
+export function formatSearchResults(results: SearchResult[]): string {
+  return results
+    .map(result => `--- ${result.path}:${result.startLine}-${result.endLine} ---\n${result.text}`)
+    .join('\n\n');
+}
+
+/**
+ * プロジェクトのファイルを埋め込みベクトルで検索するための索引
+ * 変更されたファイルだけを埋め込み直し、キャッシュディレクトリのJSONに保存する
+ */
+export class SemanticIndex {
+  private options: SemanticIndexOptions;
+  private index?: StoredIndex;
+  private updating?: Promise<IndexUpdateResult>;
+
+  constructor(options: SemanticIndexOptions) {
+    this.options = options;
+  }
+
+  /**
+   * 追加・変更・削除されたファイルを索引に反映する
+   * （同時に呼ばれた場合は実行中の更新を共有する）
+   */
+  async update(onProgress?: (done: number, total: number) => void): Promise<IndexUpdateResult> {
+    if (!this.updating) {
+      this.updating = this.runUpdate(onProgress).finally(() => {
+        this.updating = undefined;
+      });
+    }
+    return this.updating;
+  }
+
+  /**
+   * クエリに意味的に近いチャンクを類似度の高い順に返す
+   */
+  async search(query: string, limit: number = 5, minScore: number = 0): Promise<SearchResult[]> {
+    const index = await this.load();
+    const [queryVector] = await this.options.provider.embed([query], this.options.model);
+    if (index.dimensions !== null && queryVector.length !== index.dimensions) {
+      // 同じ名前のまま埋め込みモデルが入れ替わった場合。次回の更新で作り直す
+      this.index = this.createIndex();
+      throw new Error(`埋め込みの次元数（${queryVector.length}）が索引（${index.dimensions}）と一致しません。索引を作り直してください`);
+    }
+    const results: SearchResult[] = [];
+
+    for (const [filePath, file] of Object.entries(index.files)) {
+      for (const chunk of file.chunks) {
+        const score = cosineSimilarity(queryVector, decodeVector(chunk.vector));
+        if (score >= minScore) {
+          results.push({ path: filePath, startLine: chunk.startLine, endLine: chunk.endLine, text: chunk.text, score });
+        }
+      }
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  async getStats(): Promise<{ files: number; chunks: number }> {
+    const index = await this.load();
+    const files = Object.values(index.files);
+    return { files: files.length, chunks: files.reduce((sum, file) => sum + file.chunks.length, 0) };
+  }
+
+  private async runUpdate(onProgress?: (done: number, total: number) => void, rebuilding: boolean = false): Promise<IndexUpdateResult> {
+    const index = await this.load();
+    const { rootDir } = this.options;
+    const seen = new Set<string>();
+    const pending: Array<{ path: string; stat: fs.Stats; hash: string; chunks: CodeChunk[] }> = [];
+
+    for (const absolutePath of await this.options.listFiles(rootDir)) {
+      const relativePath = path.relative(rootDir, absolutePath).split(path.sep).join('/');
+      let stat: fs.Stats;
+      try {
+        stat = await fs.stat(absolutePath);
+      } catch {
+        continue;
+      }
+      if (stat.size === 0 || stat.size > MAX_FILE_SIZE) {
+        continue;
+      }
+      seen.add(relativePath);
+
+      const stored = index.files[relativePath];
+      if (stored && stored.mtimeMs === stat.mtimeMs && stored.size === stat.size) {
+        continue;
+      }
+
+      const content = await fs.readFile(absolutePath, 'utf-8');
+      const hash = crypto.createHash('sha1').update(content).digest('hex');
+      if (stored && stored.hash === hash) {
+        // 内容が同じ（touchやチェックアウトのみ）なら埋め込みは再利用する
+        stored.mtimeMs = stat.mtimeMs;
+        continue;
+      }
+      pending.push({ path: relativePath, stat, hash, chunks: chunkText(relativePath, content) });
+    }
+
+    let removed = 0;
+    for (const relativePath of Object.keys(index.files)) {
+      if (!seen.has(relativePath)) {
+        delete index.files[relativePath];
+        removed++;
+      }
+    }
+
+    try {
+      for (let done = 0; done < pending.length; done++) {
+        const file = pending[done];
+        const vectors: number[][] = [];
+        for (let i = 0; i < file.chunks.length; i += EMBED_BATCH_SIZE) {
+          const batch = file.chunks.slice(i, i + EMBED_BATCH_SIZE);
+          // パスも含めて埋め込むと「どこで〜しているか」という質問に当たりやすい
+          vectors.push(...await this.options.provider.embed(
+            batch.map(chunk => `${chunk.path}\n${chunk.text}`),
+            this.options.model
+          ));
+        }
+        for (const vector of vectors) {
+          if (index.dimensions === null) {
+            index.dimensions = vector.length;
+          } else if (vector.length !== index.dimensions) {
+            if (rebuilding) {
+              throw new Error(`埋め込みの次元数が一定しません（${index.dimensions}と${vector.length}）`);
+            }
+            // 同じ名前のまま埋め込みモデルが入れ替わった場合は、次元の異なるベクトルを混ぜずに作り直す
+            this.index = this.createIndex();
+            return await this.runUpdate(onProgress, true);
+          }
+        }
+
+        index.files[file.path] = {
+          mtimeMs: file.stat.mtimeMs,
+          size: file.stat.size,
+          hash: file.hash,
+          chunks: file.chunks.map((chunk, i) => ({
+            startLine: chunk.startLine,
+            endLine: chunk.endLine,
+            text: chunk.text,
+            vector: encodeVector(vectors[i]),
+          })),
+        };
+        onProgress?.(done + 1, pending.length);
+      }
+    } finally {
+      // 途中で失敗しても埋め込み済みのファイルは次回に持ち越す
+      await this.save();
+    }
+
+    const stats = await this.getStats();
+    return { ...stats, updated: pending.length, removed };
+  }
+
+  private async load(): Promise<StoredIndex> {
+    if (this.index) {
+      return this.index;
+    }
+
+    const empty = this.createIndex();
+    try {
+      const stored: StoredIndex = await fs.readJson(this.options.indexPath);
+      // 接続先や埋め込みモデルが変わった場合はベクトル空間が異なるため作り直す
+      if (stored.version === INDEX_VERSION && stored.baseUrl === empty.baseUrl && stored.model === empty.model) {
+        this.index = stored;
+        return stored;
+      }
+    } catch {
+      // 索引が無い・壊れている場合は空から作る
+    }
+
+    this.index = empty;
+    return this.index;
+  }
+
+  private createIndex(): StoredIndex {
+    const { provider, model } = this.options;
+    return {
+      version: INDEX_VERSION,
+      baseUrl: provider.getBaseUrl(),
+      model: provider.getEmbeddingModel(model),
+      dimensions: null,
+      files: {},
+    };
+  }
+
+  private async save(): Promise<void> {
+    if (!this.index) {
+      return;
+    }
+    await fs.ensureDir(path.dirname(this.options.indexPath));
+    await fs.writeJson(this.options.indexPath, this.index);
+  }
+}
+
+function encodeVector(vector: number[]): string {
+  return Buffer.from(new Float32Array(vector).buffer).toString('base64');
+}
+
+function decodeVector(encoded: string): Float32Array {
+  // Bufferはプール上の4バイト境界でない位置を指すことがあるためコピーしてから読む
+  return new Float32Array(new Uint8Array(Buffer.from(encoded, 'base64')).buffer);
+}
@@ -0,0 +1,134 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+
+jest.mock('../../utils/setup', () => ({ getSessionDir: () => '' }));
+
+import { SESSION_VERSION, SessionManager, getActiveMessages, listBranches } from '../manager';
+
+describe('SessionManager', () => {
+  let dir: string;
+  let manager: SessionManager;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'sessions-'));
+    manager = new SessionManager(dir);
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('saves messages, contexts, model and usage and loads them by name or id prefix', async () => {
+    const session = await manager.createSession('refactor');
+    await manager.addMessage({ role: 'user', content: [{ type: 'text', text: 'これを見て' }, { type: 'image', mediaType: 'image/png', data: 'AAAA', path: '/tmp/a.png' }] });
+    await manager.addMessage({ role: 'assistant', content: '見ました' });
+    manager.addUsage({ promptTokens: 10, completionTokens: 5, totalTokens: 15 });
+    manager.updateState({ profile: 'work', model: 'gpt-4o', contexts: [{ id: 'src/a.ts', type: 'file', content: 'code' }] });
+    await manager.saveSession();
+
+    const byName = await new SessionManager(dir).loadSession('refactor');
+    const byPrefix = await new SessionManager(dir).loadSession(session.id.substring(0, 8));
+
+    expect(byPrefix!.id).toBe(session.id);
+    expect(byName).toMatchObject({
+      id: session.id,
+      profile: 'work',
+      model: 'gpt-4o',
+      contexts: [{ id: 'src/a.ts', type: 'file', content: 'code' }],
+      usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+    });
+    // 画像はパスだけを保存する
+    expect(byName!.messages[0].content).toEqual([
+      { type: 'text', text: 'これを見て' },
+      { type: 'image', mediaType: 'image/png', path: '/tmp/a.png' },
+    ]);
+  });
+
+  it('rejects duplicate names', async () => {
+    await manager.createSession('work');
+
+    await expect(manager.createSession('work')).rejects.toThrow('既に使われています');
+  });
+
+  it('migrates sessions saved by the old simple manager', async () => {
+    await fs.writeJson(path.join(dir, 'dev.json'), {
+      id: 'dev',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      updatedAt: '2025-01-02T00:00:00.000Z',
+      messages: [{ role: 'user', content: 'hello' }],
+    });
+
+    const session = await manager.loadSession('dev');
+
+    expect(session).toMatchObject({ version: SESSION_VERSION, id: 'dev', name: 'dev', contexts: [] });
+    expect(session!.messages).toEqual([{ id: 'm1', parentId: null, role: 'user', content: 'hello' }]);
+    expect(session!.head).toBe('m1');
+    expect((await fs.readJson(path.join(dir, 'dev.json'))).version).toBe(SESSION_VERSION);
+  });
+
+  it('migrates named sessions with contexts and renames the file to the id', async () => {
+    const id = '0b6f6a5e-2f53-4c4c-9a57-3f1d2b6c7e10';
+    await fs.writeJson(path.join(dir, 'project.json'), {
+      id,
+      name: 'project',
+      messages: [{ role: 'user', content: 'hi' }, { role: 'tool', content: 'ignored', toolCallId: 'x' }],
+      contexts: [{ type: 'file', path: 'src/index.ts', content: 'export {}' }],
+      metadata: { createdAt: '2025-01-01T00:00:00.000Z', updatedAt: '2025-01-03T00:00:00.000Z', model: 'qwen', totalTokens: 42 },
+    });
+
+    const [session] = await manager.listSessions();
+
+    expect(session).toMatchObject({
+      id,
+      name: 'project',
+      model: 'qwen',
+      updatedAt: '2025-01-03T00:00:00.000Z',
+      contexts: [{ id: 'src/index.ts', type: 'file', content: 'export {}' }],
+      usage: { totalTokens: 42 },
+    });
+    expect(session.messages).toHaveLength(1);
+    expect(await fs.pathExists(path.join(dir, `${id}.json`))).toBe(true);
+    expect(await fs.pathExists(path.join(dir, 'project.json'))).toBe(false);
+  });
+
+  it('keeps rewound turns as a branch and reuses the question when it is sent again', async () => {
+    await manager.createSession();
+    await manager.addMessage({ role: 'user', content: 'Q1' });
+    await manager.addMessage({ role: 'assistant', content: 'A1' });
+    await manager.addMessage({ role: 'user', content: 'Q2' });
+    await manager.addMessage({ role: 'assistant', content: 'A2' });
+
+    expect(manager.rewind(1).map(message => message.content)).toEqual(['Q2', 'A2']);
+    // /retry: 同じ質問を送り直すと応答だけが分岐する
+    await manager.addMessage({ role: 'user', content: 'Q2' });
+    await manager.addMessage({ role: 'assistant', content: 'A2 again' });
+
+    const session = manager.getCurrentSession()!;
+    expect(getActiveMessages(session).map(message => message.content)).toEqual(['Q1', 'A1', 'Q2', 'A2 again']);
+    expect(session.messages).toHaveLength(5);
+
+    const branches = listBranches(session);
+    expect(branches).toEqual([
+      { head: 'm4', length: 4, forkAt: 3, lastUserMessage: 'Q2', lastAssistantMessage: 'A2', current: false },
+      { head: 'm5', length: 4, forkAt: 4, lastUserMessage: 'Q2', lastAssistantMessage: 'A2 again', current: true },
+    ]);
+
+    manager.switchBranch(branches[0].head);
+    expect(getActiveMessages(manager.getCurrentSession()!).map(message => message.content)).toEqual(['Q1', 'A1', 'Q2', 'A2']);
+    expect(() => manager.rewind(3)).toThrow('2往復まで');
+  });
+
+  it('records a summary on the last summarized message of the active branch', async () => {
+    for (const content of ['Q1', 'A1', 'Q2', 'A2', 'Q3', 'A3']) {
+      await manager.addMessage({ role: content.startsWith('Q') ? 'user' : 'assistant', content });
+    }
+
+    // 直近2件（Q3, A3）を残して要約した
+    manager.setSummary('Q1〜A2の要約', 2);
+    await manager.saveSession();
+
+    const session = (await manager.loadSession(manager.getCurrentSessionId()!))!;
+    expect(session.messages.find(message => message.summary)).toMatchObject({ content: 'A2', summary: 'Q1〜A2の要約' });
+  });
+});
@@ -0,0 +1,59 @@
+import { ChatSession, SESSION_VERSION } from '../manager';
+import { applyHighlights, searchSessions, tokenize } from '../search';
+
+jest.mock('../../utils/setup', () => ({ getSessionDir: () => '' }));
+
+function session(id: string, messages: string[], options: { model?: string; updatedAt?: string } = {}): ChatSession {
+  return {
+    version: SESSION_VERSION,
+    id,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: options.updatedAt || '2025-01-01T00:00:00.000Z',
+    model: options.model,
+    messages: messages.map((content, i) => ({
+      id: `m${i + 1}`,
+      parentId: i > 0 ? `m${i}` : null,
+      role: i % 2 === 0 ? 'user' : 'assistant',
+      content,
+    })),
+    head: `m${messages.length}`,
+    contexts: [],
+    usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+  };
+}
+
+describe('tokenize', () => {
+  it('splits Japanese into bigrams and normalizes full-width letters', () => {
+    expect(tokenize('請求書 ＡＰＩ')).toEqual(['請求', '求書', 'api']);
+  });
+});
+
+describe('searchSessions', () => {
+  const sessions = [
+    session('login', ['ログイン画面のバリデーションを修正したい', 'パスワードが空の場合にエラーを表示します'], { model: 'qwen2.5-coder', updatedAt: '2025-03-01T00:00:00.000Z' }),
+    session('invoice', ['請求書の検証処理はどこ？', 'src/invoice.ts の validateInvoice です'], { model: 'gpt-4o', updatedAt: '2025-02-01T00:00:00.000Z' }),
+    session('config', ['configurationの読み込み順を教えて'], { model: 'gpt-4o', updatedAt: '2025-01-15T00:00:00.000Z' }),
+  ];
+
+  it('finds Japanese words inside unsegmented text and highlights them', () => {
+    const hits = searchSessions(sessions, 'バリデーション');
+
+    expect(hits.map(hit => hit.session.id)).toEqual(['login']);
+    expect(applyHighlights(hits[0].snippet, text => `[${text}]`)).toBe('ログイン画面の[バリデーション]を修正したい');
+  });
+
+  it('requires every query term and matches English words by prefix', () => {
+    expect(searchSessions(sessions, '請求書 validate').map(hit => hit.session.id)).toEqual(['invoice']);
+    expect(searchSessions(sessions, 'config').map(hit => hit.session.id)).toEqual(['config']);
+    expect(searchSessions(sessions, '請求書 パスワード')).toEqual([]);
+  });
+
+  it('filters by model and date', () => {
+    expect(searchSessions(sessions, 'の', { model: 'gpt' }).map(hit => hit.session.id).sort()).toEqual(['config', 'invoice']);
+    expect(searchSessions(sessions, 'の', { since: new Date('2025-02-15T00:00:00.000Z') }).map(hit => hit.session.id)).toEqual(['login']);
+  });
+
+  it('rejects queries without searchable characters', () => {
+    expect(() => searchSessions(sessions, '  ？ ')).toThrow('検索語を指定してください');
+  });
+});
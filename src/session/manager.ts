@@ -1,142 +1,521 @@
 import fs from 'fs-extra';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
-import { Session } from '../agents/chat';
+import { MessageContent, TokenUsage, getTextContent } from '../providers/base';
 import { getSessionDir } from '../utils/setup';
+import { withoutImageData } from '../utils/images';
+
+export const SESSION_VERSION = 2;
+
+// 旧形式のセッションから引き継ぐメッセージのロール
+const LEGACY_ROLES = ['user', 'assistant', 'system'] as const;
+
+export interface SessionMessage {
+  // セッション内で一意なID（m1, m2, ...）
+  id: string;
+  // 直前のメッセージのID（最初のメッセージはnull）。/edit や /retry で分岐すると同じ親を持つメッセージが複数になる
+  parentId: string | null;
+  role: 'user' | 'assistant' | 'system';
+  // 添付画像はファイルの参照（path）だけを保存する
+  content: MessageContent;
+  // 推論モデルの思考過程（saveReasoningが有効な場合のみ）
+  reasoning?: string;
+  // このメッセージまでの会話の要約（/compact や自動要約。復元時はここまでを要約に置き換える）
+  summary?: string;
+}
+
+// @ファイルや -f で追加したコンテキスト（idは /context に表示するパス）
+export interface SessionContext {
+  id: string;
+  type: string;
+  content: string;
+}
+
+// 会話の分岐（/branch list に表示する）
+export interface SessionBranch {
+  // 分岐の最後のメッセージのID（会話の先頭まで巻き戻した場合はnull）
+  head: string | null;
+  // 分岐に含まれるメッセージ数
+  length: number;
+  // 現在の分岐と共通するメッセージ数（この位置から分かれている）
+  forkAt: number;
+  // 分岐の最後の質問と応答（見分けるため一覧に表示する）
+  lastUserMessage?: string;
+  lastAssistantMessage?: string;
+  current: boolean;
+}
+
+export interface ChatSession {
+  version: number;
+  id: string;
+  // 人が付けた名前（省略可。セッション間で重複しない）
+  name?: string;
+  createdAt: string;
+  updatedAt: string;
+  // 最後に使ったプロファイルとモデル（読み込み時に切り替える）
+  profile?: string;
+  model?: string;
+  // すべての分岐のメッセージ（追加した順）。parentIdをたどると会話の木になる
+  messages: SessionMessage[];
+  // 現在の分岐の最後のメッセージのID
+  head: string | null;
+  contexts: SessionContext[];
+  usage: TokenUsage;
+}
+
+/**
+ * 旧形式のセッションを現在の形式に変換する
+ * - SimpleSessionManagerの形式: { id, createdAt, updatedAt, messages }
+ * - SessionManagerの形式: { id, name, messages, contexts, metadata: { createdAt, updatedAt, model, totalTokens } }
+ * fallbackIdはidが無い場合に使う（ファイル名）
+ */
+export function migrateSession(data: unknown, fallbackId: string): ChatSession {
+  const record = asRecord(data);
+  if (record.version === SESSION_VERSION) {
+    return record as unknown as ChatSession;
+  }
+
+  const metadata = asRecord(record.metadata);
+  const now = new Date().toISOString();
+  const id = asString(record.id) || fallbackId;
+  // 旧形式では名前付きセッションのidが名前そのものだった
+  const name = asString(record.name) || (isUuid(id) ? undefined : id);
+  const model = asString(metadata.model);
+
+  return {
+    version: SESSION_VERSION,
+    id,
+    ...(name ? { name } : {}),
+    createdAt: toIsoString(record.createdAt || metadata.createdAt) || now,
+    updatedAt: toIsoString(record.updatedAt || metadata.updatedAt) || now,
+    ...(model ? { model } : {}),
+    ...linkMessages(asArray(record.messages).map(asRecord).flatMap(message => {
+      const role = LEGACY_ROLES.find(candidate => candidate === message.role);
+      const reasoning = asString(message.reasoning);
+      return role ? [{
+        role,
+        content: asString(message.content) ?? '',
+        ...(reasoning ? { reasoning } : {}),
+      }] : [];
+    })),
+    contexts: asArray(record.contexts).map(asRecord).map(context => ({
+      id: asString(context.path) || asString(context.name) || asString(context.type) || '',
+      type: asString(context.type) ?? '',
+      content: asString(context.content) ?? '',
+    })),
+    usage: {
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: typeof metadata.totalTokens === 'number' ? metadata.totalTokens : 0,
+    },
+  };
+}
+
+/**
+ * 現在の分岐の会話（最初のメッセージからheadまで）
+ */
+export function getActiveMessages(session: Pick<ChatSession, 'messages' | 'head'>): SessionMessage[] {
+  return getPath(session.messages, session.head);
+}
+
+/**
+ * 会話の分岐の一覧（分岐の最後のメッセージを追加した順）
+ * 先に続きがあるメッセージまで巻き戻している場合は、その位置も現在の分岐として含める
+ */
+export function listBranches(session: ChatSession): SessionBranch[] {
+  const parents = new Set(session.messages.map(message => message.parentId));
+  const heads: Array<string | null> = session.messages
+    .filter(message => !parents.has(message.id) || message.id === session.head)
+    .map(message => message.id);
+  if (session.head === null) {
+    heads.unshift(null);
+  }
+
+  const active = getActiveMessages(session);
+  return heads.map(head => {
+    const messages = getPath(session.messages, head);
+    let forkAt = 0;
+    while (forkAt < messages.length && forkAt < active.length && messages[forkAt].id === active[forkAt].id) {
+      forkAt++;
+    }
+    const lastUser = [...messages].reverse().find(message => message.role === 'user');
+    const last = messages[messages.length - 1];
+    return {
+      head,
+      length: messages.length,
+      forkAt,
+      ...(lastUser ? { lastUserMessage: summarizeText(getTextContent(lastUser.content)) } : {}),
+      ...(last?.role === 'assistant' ? { lastAssistantMessage: summarizeText(getTextContent(last.content)) } : {}),
+      current: head === session.head,
+    };
+  });
+}
+
+/**
+ * 一覧に表示するセッションの見出し（名前、無ければ最初の質問）
+ */
+export function getSessionTitle(session: ChatSession): string {
+  if (session.name) {
+    return session.name;
+  }
+  const first = session.messages.find(message => message.role === 'user');
+  if (!first) {
+    return '（空のセッション）';
+  }
+  return summarizeText(getTextContent(first.content));
+}
 
 export class SessionManager {
   private sessionDir: string;
+  private currentSession: ChatSession | null = null;
+
+  constructor(sessionDir: string = getSessionDir()) {
+    this.sessionDir = sessionDir;
+    fs.ensureDirSync(this.sessionDir);
+  }
+
+  public async createSession(name?: string): Promise<ChatSession> {
+    if (name) {
+      await this.assertNameAvailable(name);
+    }
+    const now = new Date().toISOString();
+    const session: ChatSession = {
+      version: SESSION_VERSION,
+      id: uuidv4(),
+      ...(name ? { name } : {}),
+      createdAt: now,
+      updatedAt: now,
+      messages: [],
+      head: null,
+      contexts: [],
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+    };
 
-  constructor() {
-    this.sessionDir = getSessionDir();
-    this.ensureSessionDir();
+    this.currentSession = session;
+    await this.saveSession();
+    return session;
   }
 
-  private async ensureSessionDir(): Promise<void> {
-    await fs.ensureDir(this.sessionDir);
+  /**
+   * ID・名前・IDの先頭部分（4文字以上）のいずれかでセッションを読み込む
+   */
+  public async loadSession(ref: string): Promise<ChatSession | null> {
+    const session = await this.findSession(ref);
+    if (session) {
+      this.currentSession = session;
+    }
+    return session;
+  }
+
+  /**
+   * 保存されているセッションを新しい順に返す（旧形式のファイルはこの時に変換する）
+   */
+  public async listSessions(): Promise<ChatSession[]> {
+    const files = await fs.readdir(this.sessionDir);
+    const sessions: ChatSession[] = [];
+
+    for (const file of files) {
+      if (file.endsWith('.json')) {
+        const session = await this.readSessionFile(path.join(this.sessionDir, file));
+        if (session) {
+          sessions.push(session);
+        }
+      }
+    }
+
+    return sessions.sort((a, b) =>
+      new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+    );
   }
 
-  public async loadOrCreate(name: string): Promise<Session> {
-    const sessionPath = this.getSessionPath(name);
+  /**
+   * 現在の分岐の末尾にメッセージを追加する
+   * 巻き戻した位置から同じ質問を送り直した場合（/retry）は、既存の質問の続きに分岐を作る
+   */
+  public async addMessage(message: Omit<SessionMessage, 'id' | 'parentId'>): Promise<void> {
+    if (!this.currentSession) {
+      await this.createSession();
+    }
 
-    if (await fs.pathExists(sessionPath)) {
-      return await this.load(name);
+    const session = this.currentSession!;
+    const content = withoutImageData(message.content);
+    const existing = message.role === 'user'
+      ? session.messages.find(candidate =>
+        candidate.parentId === session.head && candidate.role === 'user' && isSameContent(candidate.content, content))
+      : undefined;
+
+    if (existing) {
+      session.head = existing.id;
     } else {
-      return this.create(name);
+      const id = `m${session.messages.length + 1}`;
+      session.messages.push({
+        id,
+        parentId: session.head,
+        role: message.role,
+        content,
+        ...(message.reasoning ? { reasoning: message.reasoning } : {}),
+      });
+      session.head = id;
     }
+    session.updatedAt = new Date().toISOString();
+  }
+
+  /**
+   * 現在の分岐の最後のn往復（質問と応答）を取り消す
+   * 取り消したメッセージは削除せず、別の分岐として残す
+   */
+  public rewind(turns: number = 1): SessionMessage[] {
+    const active = this.currentSession ? getActiveMessages(this.currentSession) : [];
+    const userIndexes = active
+      .map((message, index) => (message.role === 'user' ? index : -1))
+      .filter(index => index >= 0);
+    if (userIndexes.length === 0) {
+      throw new Error('取り消せる会話がありません');
+    }
+    if (turns > userIndexes.length) {
+      throw new Error(`取り消せるのは${userIndexes.length}往復までです`);
+    }
+
+    const index = userIndexes[userIndexes.length - turns];
+    this.currentSession!.head = active[index].parentId;
+    this.currentSession!.updatedAt = new Date().toISOString();
+    return active.slice(index);
   }
 
-  public async load(name: string): Promise<Session> {
-    const sessionPath = this.getSessionPath(name);
+  /**
+   * 指定したメッセージで終わる分岐に切り替える
+   */
+  public switchBranch(head: string | null): void {
+    if (!this.currentSession) {
+      throw new Error('セッションがありません');
+    }
+    if (head !== null && !this.currentSession.messages.some(message => message.id === head)) {
+      throw new Error(`メッセージ ${head} が見つかりません`);
+    }
+    this.currentSession.head = head;
+    this.currentSession.updatedAt = new Date().toISOString();
+  }
 
-    if (!await fs.pathExists(sessionPath)) {
-      throw new Error(`セッション "${name}" が見つかりません`);
+  /**
+   * 会話を要約したことを記録する
+   * 現在の分岐の直近keptCount件より前のメッセージは、復元時に要約に置き換える
+   * （要約より前まで巻き戻した場合や、要約より前で分かれた分岐には影響しない）
+   */
+  public setSummary(summary: string, keptCount: number): void {
+    const active = this.currentSession ? getActiveMessages(this.currentSession) : [];
+    const last = active[active.length - keptCount - 1];
+    if (!last) {
+      return;
     }
+    last.summary = summary;
+    this.currentSession!.updatedAt = new Date().toISOString();
+  }
 
-    const data = await fs.readJson(sessionPath);
-    
-    // 日付をDateオブジェクトに変換
-    data.metadata.createdAt = new Date(data.metadata.createdAt);
-    data.metadata.updatedAt = new Date(data.metadata.updatedAt);
+  /**
+   * 応答の使用量をセッションの合計に加える
+   */
+  public addUsage(usage: TokenUsage | undefined): void {
+    if (!this.currentSession || !usage) {
+      return;
+    }
+    const total = this.currentSession.usage;
+    total.promptTokens += usage.promptTokens;
+    total.completionTokens += usage.completionTokens;
+    total.totalTokens += usage.totalTokens;
+  }
 
-    return data as Session;
+  /**
+   * 使用中のプロファイル・モデルと追加したコンテキストを記録する
+   */
+  public updateState(state: { profile?: string; model?: string; contexts?: SessionContext[] }): void {
+    if (!this.currentSession) {
+      return;
+    }
+    if (state.profile !== undefined) {
+      this.currentSession.profile = state.profile;
+    }
+    if (state.model !== undefined) {
+      this.currentSession.model = state.model;
+    }
+    if (state.contexts !== undefined) {
+      this.currentSession.contexts = state.contexts;
+    }
   }
 
-  public create(name: string): Session {
-    return {
-      id: uuidv4(),
-      name,
-      messages: [],
-      contexts: [],
-      metadata: {
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        totalTokens: 0,
-      },
-    };
+  public async rename(name: string): Promise<void> {
+    if (!this.currentSession) {
+      throw new Error('名前を付けるセッションがありません');
+    }
+    await this.assertNameAvailable(name, this.currentSession.id);
+    this.currentSession.name = name;
+    await this.saveSession();
   }
 
-  public async save(name: string, session?: Session): Promise<void> {
-    const sessionPath = this.getSessionPath(name);
-    
-    // セッションが提供されていない場合は、現在のセッションを読み込む
-    if (!session) {
-      if (await fs.pathExists(sessionPath)) {
-        session = await this.load(name);
-      } else {
-        throw new Error(`セッション "${name}" が見つかりません`);
-      }
+  public async saveSession(): Promise<void> {
+    if (!this.currentSession) {
+      return;
     }
 
-    await fs.writeJson(sessionPath, session, { spaces: 2 });
+    const sessionPath = path.join(this.sessionDir, `${this.currentSession.id}.json`);
+    await fs.writeJson(sessionPath, this.currentSession, { spaces: 2 });
   }
 
-  public async delete(name: string): Promise<void> {
-    const sessionPath = this.getSessionPath(name);
-    
-    if (await fs.pathExists(sessionPath)) {
-      await fs.remove(sessionPath);
+  public async deleteSession(ref: string): Promise<boolean> {
+    const session = await this.findSession(ref);
+    if (!session) {
+      return false;
+    }
+    await fs.remove(path.join(this.sessionDir, `${session.id}.json`));
+    if (this.currentSession?.id === session.id) {
+      this.currentSession = null;
     }
+    return true;
   }
 
-  public async list(): Promise<string[]> {
-    await this.ensureSessionDir();
-    
-    const files = await fs.readdir(this.sessionDir);
-    return files
-      .filter(file => file.endsWith('.json'))
-      .map(file => path.basename(file, '.json'));
+  public getCurrentSession(): ChatSession | null {
+    return this.currentSession;
+  }
+
+  public getCurrentSessionId(): string | null {
+    return this.currentSession?.id || null;
   }
 
   public async getLastSession(): Promise<string | null> {
-    const sessions = await this.list();
-    
-    if (sessions.length === 0) {
-      return null;
+    const sessions = await this.listSessions();
+    return sessions.length > 0 ? sessions[0].id : null;
+  }
+
+  /**
+   * 名前を指定してセッションを読み込む（無ければその名前で作成する）
+   */
+  public async loadOrCreate(sessionName: string): Promise<ChatSession> {
+    const session = await this.loadSession(sessionName);
+    if (session) {
+      return session;
     }
+    return await this.createSession(sessionName);
+  }
 
-    // 最終更新日時でソート
-    const sessionInfos = await Promise.all(
-      sessions.map(async name => {
-        const session = await this.load(name);
-        return {
-          name,
-          updatedAt: session.metadata.updatedAt,
-        };
-      })
-    );
+  /**
+   * 起動オプションに応じてセッションを開く
+   * name: 名前付きセッション（無ければ作成） / resume: 最後に更新されたセッション
+   * どちらも指定しない場合や再開できるセッションが無い場合はnull
+   */
+  public async open(options: { name?: string; resume?: boolean }): Promise<ChatSession | null> {
+    if (options.name) {
+      return this.loadOrCreate(options.name);
+    }
+    if (options.resume) {
+      const lastSessionId = await this.getLastSession();
+      return lastSessionId ? this.loadSession(lastSessionId) : null;
+    }
+    return null;
+  }
 
-    sessionInfos.sort((a, b) => 
-      new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
-    );
+  /**
+   * セッションをMarkdown形式で書き出す
+   */
+  public async export(ref: string, outputPath: string): Promise<void> {
+    const session = await this.findSession(ref);
+    if (!session) {
+      throw new Error(`セッション "${ref}" が見つかりません`);
+    }
+    await fs.writeFile(outputPath, this.sessionToMarkdown(session), 'utf-8');
+  }
+
+  /**
+   * 指定した日数より前に更新されたセッションを削除する
+   */
+  public async cleanup(daysOld: number = 30): Promise<number> {
+    const cutoffTime = Date.now() - (daysOld * 24 * 60 * 60 * 1000);
+    let deletedCount = 0;
+
+    for (const session of await this.listSessions()) {
+      if (new Date(session.updatedAt).getTime() < cutoffTime) {
+        await fs.remove(path.join(this.sessionDir, `${session.id}.json`));
+        deletedCount++;
+      }
+    }
+
+    return deletedCount;
+  }
+
+  private async findSession(ref: string): Promise<ChatSession | null> {
+    const direct = path.join(this.sessionDir, `${ref}.json`);
+    if (/^[\w.-]+$/.test(ref) && await fs.pathExists(direct)) {
+      const session = await this.readSessionFile(direct);
+      if (session) {
+        return session;
+      }
+    }
+
+    const sessions = await this.listSessions();
+    const byName = sessions.find(session => session.name === ref);
+    if (byName) {
+      return byName;
+    }
+    const byPrefix = ref.length >= 4 ? sessions.filter(session => session.id.startsWith(ref)) : [];
+    if (byPrefix.length > 1) {
+      throw new Error(`"${ref}" に一致するセッションが複数あります。IDをもう少し長く指定してください`);
+    }
+    return byPrefix[0] || null;
+  }
+
+  /**
+   * セッションファイルを読み込む
+   * 旧形式の場合は現在の形式に変換して <id>.json に保存し直す
+   */
+  private async readSessionFile(filePath: string): Promise<ChatSession | null> {
+    let data: unknown;
+    try {
+      data = await fs.readJson(filePath);
+    } catch {
+      // 無効なセッションファイルは無視
+      return null;
+    }
+    if (asRecord(data).version === SESSION_VERSION) {
+      return data as ChatSession;
+    }
 
-    return sessionInfos[0].name;
+    const session = migrateSession(data, path.basename(filePath, '.json'));
+    const migratedPath = path.join(this.sessionDir, `${session.id}.json`);
+    await fs.writeJson(migratedPath, session, { spaces: 2 });
+    if (path.resolve(migratedPath) !== path.resolve(filePath)) {
+      await fs.remove(filePath);
+    }
+    return session;
   }
 
-  public async export(name: string, outputPath: string): Promise<void> {
-    const session = await this.load(name);
-    
-    // マークダウン形式でエクスポート
-    const markdown = this.sessionToMarkdown(session);
-    await fs.writeFile(outputPath, markdown, 'utf-8');
+  private async assertNameAvailable(name: string, exceptId?: string): Promise<void> {
+    if (!/^[^\s/\\]+$/.test(name)) {
+      throw new Error(`セッション名に空白や「/」「\\」は使用できません: ${name}`);
+    }
+    const sessions = await this.listSessions();
+    if (sessions.some(session => session.id !== exceptId && (session.name === name || session.id === name))) {
+      throw new Error(`セッション名 "${name}" は既に使われています`);
+    }
   }
 
-  private sessionToMarkdown(session: Session): string {
+  private sessionToMarkdown(session: ChatSession): string {
     const lines: string[] = [];
-    
-    lines.push(`# VLLMCode Session: ${session.name}`);
+
+    lines.push(`# NipponCode Session: ${getSessionTitle(session)}`);
     lines.push('');
-    lines.push(`**Created:** ${session.metadata.createdAt}`);
-    lines.push(`**Updated:** ${session.metadata.updatedAt}`);
-    lines.push(`**Total Tokens:** ${session.metadata.totalTokens || 0}`);
+    lines.push(`**ID:** ${session.id}`);
+    lines.push(`**Created:** ${session.createdAt}`);
+    lines.push(`**Updated:** ${session.updatedAt}`);
+    if (session.model) {
+      lines.push(`**Model:** ${session.model}`);
+    }
+    lines.push(`**Total Tokens:** ${session.usage.totalTokens}`);
     lines.push('');
-    
+
     if (session.contexts.length > 0) {
       lines.push('## Context');
       lines.push('');
-      
+
       for (const context of session.contexts) {
-        lines.push(`### ${context.type}: ${context.path || context.name || 'N/A'}`);
+        lines.push(`### ${context.type}: ${context.id}`);
         lines.push('');
         lines.push('```');
         lines.push(context.content);
@@ -144,57 +523,77 @@ export class SessionManager {
         lines.push('');
       }
     }
-    
-    if (session.messages.length > 0) {
+
+    const messages = getActiveMessages(session);
+    if (messages.length > 0) {
       lines.push('## Conversation');
       lines.push('');
-      
-      for (const message of session.messages) {
-        if (message.role === 'user') {
-          lines.push('### User');
-        } else if (message.role === 'assistant') {
-          lines.push('### Assistant');
-        } else {
-          lines.push(`### ${message.role}`);
-        }
+
+      for (const message of messages) {
+        lines.push(message.role === 'user' ? '### User' : message.role === 'assistant' ? '### Assistant' : `### ${message.role}`);
         lines.push('');
-        lines.push(message.content);
+        lines.push(getTextContent(message.content));
         lines.push('');
       }
     }
-    
+
     return lines.join('\n');
   }
+}
 
-  private getSessionPath(name: string): string {
-    return path.join(this.sessionDir, `${name}.json`);
-  }
+/**
+ * 一続きの会話に分岐用のIDを付ける
+ */
+function linkMessages(messages: Array<Omit<SessionMessage, 'id' | 'parentId'>> = []): Pick<ChatSession, 'messages' | 'head'> {
+  const linked = messages.map((message, index) => ({
+    id: `m${index + 1}`,
+    parentId: index > 0 ? `m${index}` : null,
+    ...message,
+  }));
+  return { messages: linked, head: linked.length > 0 ? linked[linked.length - 1].id : null };
+}
 
-  public async cleanup(daysOld: number = 30): Promise<number> {
-    await this.ensureSessionDir();
-    
-    const now = new Date();
-    const cutoffTime = now.getTime() - (daysOld * 24 * 60 * 60 * 1000);
-    
-    const sessions = await this.list();
-    let deletedCount = 0;
-    
-    for (const name of sessions) {
-      try {
-        const session = await this.load(name);
-        const updatedTime = new Date(session.metadata.updatedAt).getTime();
-        
-        if (updatedTime < cutoffTime) {
-          await this.delete(name);
-          deletedCount++;
-        }
-      } catch (error) {
-        // エラーが発生した場合はスキップ
-        console.warn(`セッション "${name}" の処理中にエラーが発生しました:`, error);
-      }
-    }
-    
-    return deletedCount;
+/**
+ * headのメッセージから親をたどり、最初のメッセージからの順に並べる
+ */
+function getPath(messages: SessionMessage[], head: string | null): SessionMessage[] {
+  const byId = new Map(messages.map(message => [message.id, message]));
+  const path: SessionMessage[] = [];
+  for (let message = head ? byId.get(head) : undefined; message; message = message.parentId ? byId.get(message.parentId) : undefined) {
+    path.unshift(message);
   }
+  return path;
+}
+
+function isSameContent(a: MessageContent, b: MessageContent): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function summarizeText(text: string): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > 40 ? `${line.substring(0, 40)}…` : line;
+}
+
+function isUuid(value: string): boolean {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value);
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
 }
 
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function toIsoString(value: unknown): string | undefined {
+  if (!value || (typeof value !== 'string' && typeof value !== 'number')) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
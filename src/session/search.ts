@@ -0,0 +1,240 @@
+import { getTextContent } from '../providers/base';
+import { ChatSession } from './manager';
+
+// スニペットの前後の文字数
+const SNIPPET_BEFORE = 30;
+const SNIPPET_LENGTH = 120;
+
+// 漢字・ひらがな・カタカナの連続、またはそれ以外の文字・数字の連続
+const TOKEN_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー々]+|[\p{L}\p{N}_]+/gu;
+const CJK_PATTERN = /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー々]/u;
+
+export interface SessionFilter {
+  // 最終更新日時の範囲
+  since?: Date;
+  until?: Date;
+  // モデル名（部分一致）
+  model?: string;
+}
+
+export interface SessionSearchOptions extends SessionFilter {
+  limit?: number;
+}
+
+export interface SessionSnippet {
+  text: string;
+  // text中の一致箇所（[開始, 終了)）
+  highlights: Array<[number, number]>;
+}
+
+export interface SessionSearchHit {
+  session: ChatSession;
+  // 最もよく一致したメッセージ
+  messageIndex: number;
+  // 検索語を含むメッセージの数
+  matches: number;
+  score: number;
+  snippet: SessionSnippet;
+}
+
+/**
+ * 検索用に正規化する（全角英数字を半角に、大文字を小文字に）
+ */
+export function normalizeText(text: string): string {
+  return text.normalize('NFKC').toLowerCase();
+}
+
+/**
+ * 検索用のトークンに分割する
+ * 日本語は空白で区切られないため、漢字・かなの連続は2文字ずつ（bi-gram）に分ける
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const match of normalizeText(text).matchAll(TOKEN_PATTERN)) {
+    const run = match[0];
+    if (!CJK_PATTERN.test(run)) {
+      tokens.push(run);
+      continue;
+    }
+    const chars = Array.from(run);
+    if (chars.length === 1) {
+      tokens.push(run);
+    }
+    for (let i = 0; i < chars.length - 1; i++) {
+      tokens.push(chars[i] + chars[i + 1]);
+    }
+  }
+  return tokens;
+}
+
+/**
+ * 更新日時とモデルでセッションを絞り込む
+ */
+export function filterSessions(sessions: ChatSession[], filter: SessionFilter): ChatSession[] {
+  const model = filter.model?.toLowerCase();
+  return sessions.filter(session => {
+    const updatedAt = new Date(session.updatedAt).getTime();
+    if (filter.since && updatedAt < filter.since.getTime()) {
+      return false;
+    }
+    if (filter.until && updatedAt > filter.until.getTime()) {
+      return false;
+    }
+    return !model || (session.model || '').toLowerCase().includes(model);
+  });
+}
+
+/**
+ * セッションの会話を全文検索する
+ * 検索語のトークンをすべて含む（質問と回答に分かれていてもよい）セッションを、TF-IDFのスコア順に返す
+ * （英数字の単語は前方一致: 「config」で「configuration」も見つける）
+ */
+export function searchSessions(sessions: ChatSession[], query: string, options: SessionSearchOptions = {}): SessionSearchHit[] {
+  const queryTokens = [...new Set(tokenize(query))];
+  if (queryTokens.length === 0) {
+    throw new Error('検索語を指定してください');
+  }
+
+  const documents = filterSessions(sessions, options).flatMap(session =>
+    session.messages.map((message, messageIndex) => {
+      const text = getTextContent(message.content);
+      return { session, messageIndex, text, counts: countTokens(tokenize(text)) };
+    })
+  );
+
+  // トークンを含むメッセージ数（IDFの計算用）
+  const documentFrequency = new Map<string, number>();
+  for (const document of documents) {
+    for (const token of queryTokens) {
+      if (termFrequency(document.counts, token) > 0) {
+        documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1);
+      }
+    }
+  }
+
+  const candidates = new Map<ChatSession, { hit: SessionSearchHit; found: Set<string>; best: { found: number; score: number } }>();
+  for (const document of documents) {
+    const frequencies = queryTokens.map(token => termFrequency(document.counts, token));
+    const found = queryTokens.filter((_, i) => frequencies[i] > 0);
+    if (found.length === 0) {
+      continue;
+    }
+
+    const length = [...document.counts.values()].reduce((sum, count) => sum + count, 0);
+    const score = frequencies.reduce((sum, frequency, i) => {
+      if (frequency === 0) {
+        return sum;
+      }
+      const idf = Math.log(1 + documents.length / documentFrequency.get(queryTokens[i])!);
+      return sum + (1 + Math.log(frequency)) * idf;
+    }, 0) / Math.sqrt(length);
+
+    const candidate = candidates.get(document.session);
+    if (!candidate) {
+      candidates.set(document.session, {
+        hit: { session: document.session, messageIndex: document.messageIndex, matches: 1, score, snippet: buildSnippet(document.text, queryTokens) },
+        found: new Set(found),
+        best: { found: found.length, score },
+      });
+      continue;
+    }
+    candidate.hit.matches++;
+    candidate.hit.score += score;
+    found.forEach(token => candidate.found.add(token));
+    // より多くの検索語を含むメッセージをスニペットに使う
+    const { best } = candidate;
+    if (found.length > best.found || (found.length === best.found && score > best.score)) {
+      candidate.best = { found: found.length, score };
+      Object.assign(candidate.hit, { messageIndex: document.messageIndex, snippet: buildSnippet(document.text, queryTokens) });
+    }
+  }
+
+  const hits = [...candidates.values()]
+    .filter(candidate => candidate.found.size === queryTokens.length)
+    .map(candidate => candidate.hit);
+
+  return hits
+    .sort((a, b) => b.score - a.score || new Date(b.session.updatedAt).getTime() - new Date(a.session.updatedAt).getTime())
+    .slice(0, options.limit ?? 20);
+}
+
+/**
+ * 一致箇所を含む本文の一部を切り出す
+ */
+export function buildSnippet(text: string, queryTokens: string[]): SessionSnippet {
+  // 改行などを空白にして1行で表示する（文字数を変えないよう1文字ずつ置き換える）
+  const normalized = normalizeText(text).replace(/\s/g, ' ');
+  const ranges = findRanges(normalized, queryTokens);
+
+  const first = ranges.length > 0 ? ranges[0][0] : 0;
+  const start = Math.max(0, Math.min(first - SNIPPET_BEFORE, normalized.length - SNIPPET_LENGTH));
+  const end = Math.min(normalized.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < normalized.length ? '…' : '';
+
+  const highlights = ranges
+    .filter(([from, to]) => to > start && from < end)
+    .map(([from, to]): [number, number] => [Math.max(from, start) - start + prefix.length, Math.min(to, end) - start + prefix.length]);
+
+  return { text: prefix + normalized.slice(start, end) + suffix, highlights };
+}
+
+/**
+ * スニペットの一致箇所を装飾する（装飾は表示側で指定する）
+ */
+export function applyHighlights(snippet: SessionSnippet, decorate: (text: string) => string): string {
+  let result = '';
+  let position = 0;
+  for (const [from, to] of snippet.highlights) {
+    result += snippet.text.slice(position, from) + decorate(snippet.text.slice(from, to));
+    position = to;
+  }
+  return result + snippet.text.slice(position);
+}
+
+function countTokens(tokens: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const token of tokens) {
+    counts.set(token, (counts.get(token) || 0) + 1);
+  }
+  return counts;
+}
+
+function termFrequency(counts: Map<string, number>, token: string): number {
+  const cjk = CJK_PATTERN.test(token);
+  if (cjk && Array.from(token).length > 1) {
+    return counts.get(token) || 0;
+  }
+  // 1文字の漢字・かなはその文字を含むbi-gram、英数字は前方一致で数える
+  let frequency = 0;
+  for (const [candidate, count] of counts) {
+    if (cjk ? candidate.includes(token) : candidate.startsWith(token)) {
+      frequency += count;
+    }
+  }
+  return frequency;
+}
+
+/**
+ * トークンの出現位置を探し、重なる・隣り合う範囲をまとめる
+ */
+function findRanges(text: string, tokens: string[]): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  for (const token of tokens) {
+    for (let index = text.indexOf(token); index >= 0; index = text.indexOf(token, index + 1)) {
+      ranges.push([index, index + token.length]);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const merged: Array<[number, number]> = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([...range]);
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,68 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+
+jest.mock('../../utils/setup', () => ({ getUsageLedgerPath: () => '' }));
+
+import { UsageLedger, UsageRecord } from '../ledger';
+
+describe('UsageLedger', () => {
+  let dir: string;
+  let ledger: UsageLedger;
+
+  const event = {
+    provider: 'OpenAI',
+    model: 'gpt-4o-mini',
+    caller: 'chat',
+    promptTokens: 1000,
+    completionTokens: 500,
+    estimated: false,
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'usage-'));
+    ledger = new UsageLedger(path.join(dir, 'usage.jsonl'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('records events with the current context', async () => {
+    ledger.setContext({ profile: 'work', sessionId: 's1' });
+    ledger.record(event);
+
+    const records = await ledger.read();
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({ ...event, totalTokens: 1500, profile: 'work', sessionId: 's1' });
+  });
+
+  it('filters by date range and skips broken lines', async () => {
+    const old: UsageRecord = { ...event, timestamp: '2020-01-01T00:00:00.000Z', totalTokens: 1500 };
+    await fs.writeFile(ledger.getPath(), JSON.stringify(old) + '\n{broken\n');
+    ledger.record(event);
+
+    expect(await ledger.read()).toHaveLength(2);
+    expect(await ledger.read({ since: new Date('2021-01-01') })).toHaveLength(1);
+    expect(await ledger.read({ until: new Date('2021-01-01') })).toHaveLength(1);
+  });
+
+  it('summarizes by group with longest-prefix pricing', () => {
+    const records: UsageRecord[] = [
+      { ...event, timestamp: '2024-05-01T00:00:00.000Z', totalTokens: 1500 },
+      { ...event, model: 'gpt-4o-2024-08-06', caller: 'agent', timestamp: '2024-05-01T00:00:00.000Z', totalTokens: 1500 },
+      { ...event, model: 'local-llama', caller: 'agent', estimated: true, timestamp: '2024-05-01T00:00:00.000Z', totalTokens: 1500 },
+    ];
+
+    const rows = ledger.summarize(records, 'caller');
+    expect(rows.map(row => row.key)).toEqual(['agent', 'chat']);
+
+    const [agent, chat] = rows;
+    expect(agent.calls).toBe(2);
+    expect(agent.estimatedCalls).toBe(1);
+    // gpt-4o: 1000 * 2.5 + 500 * 10 (USD/100万トークン)、local-llamaは料金表に無いため0
+    expect(agent.cost).toBeCloseTo(0.0075);
+    // gpt-4o-mini: 1000 * 0.15 + 500 * 0.6
+    expect(chat.cost).toBeCloseTo(0.00045);
+  });
+});
@@ -0,0 +1,191 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { UsageEvent } from '../providers/tracking';
+import { ModelPricing, modelRegistry } from '../providers/models';
+import { getUsageLedgerPath } from '../utils/setup';
+
+export interface UsageRecord extends UsageEvent {
+  timestamp: string;
+  profile?: string;
+  sessionId?: string;
+  totalTokens: number;
+}
+
+export interface UsageContext {
+  profile?: string;
+  sessionId?: string;
+}
+
+export type UsageGroupBy = 'day' | 'model' | 'session' | 'profile' | 'caller';
+
+export interface UsageFilter {
+  since?: Date;
+  until?: Date;
+}
+
+export interface UsageSummaryRow {
+  key: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // 料金表に無いモデルが含まれる場合は判明分のみ
+  cost: number;
+  // 推定値を含む呼び出し数
+  estimatedCalls: number;
+}
+
+/**
+ * LLM呼び出しごとのトークン使用量をJSONLファイルに追記する台帳
+ */
+export class UsageLedger {
+  private ledgerPath?: string;
+  private context: UsageContext = {};
+
+  constructor(ledgerPath?: string) {
+    this.ledgerPath = ledgerPath;
+  }
+
+  /**
+   * 以降の記録に付与するプロファイル・セッション
+   */
+  setContext(context: UsageContext): void {
+    this.context = { ...this.context, ...context };
+  }
+
+  getPath(): string {
+    return this.ledgerPath || getUsageLedgerPath();
+  }
+
+  /**
+   * 使用量を記録（プロセス終了直前の呼び出しも失われないよう同期的に追記）
+   */
+  record(event: UsageEvent): void {
+    const record: UsageRecord = {
+      timestamp: new Date().toISOString(),
+      ...event,
+      totalTokens: event.promptTokens + event.completionTokens,
+      profile: this.context.profile,
+      sessionId: this.context.sessionId,
+    };
+
+    try {
+      const ledgerPath = this.getPath();
+      fs.ensureDirSync(path.dirname(ledgerPath));
+      fs.appendFileSync(ledgerPath, JSON.stringify(record) + '\n');
+    } catch {
+      // 台帳に書き込めなくても本処理は継続する
+    }
+  }
+
+  /**
+   * 記録を読み込む（壊れた行は無視）
+   */
+  async read(filter: UsageFilter = {}): Promise<UsageRecord[]> {
+    const ledgerPath = this.getPath();
+    if (!await fs.pathExists(ledgerPath)) {
+      return [];
+    }
+
+    const content = await fs.readFile(ledgerPath, 'utf-8');
+    const records: UsageRecord[] = [];
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        const record: UsageRecord = JSON.parse(line);
+        const time = new Date(record.timestamp);
+        if (filter.since && time < filter.since) {
+          continue;
+        }
+        if (filter.until && time > filter.until) {
+          continue;
+        }
+        records.push(record);
+      } catch {
+        continue;
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * 指定した軸で集計する
+   */
+  summarize(
+    records: UsageRecord[],
+    groupBy: UsageGroupBy,
+    pricing: Record<string, ModelPricing> = modelRegistry.getPricingTable()
+  ): UsageSummaryRow[] {
+    const rows = new Map<string, UsageSummaryRow>();
+
+    for (const record of records) {
+      const key = this.groupKey(record, groupBy);
+      let row = rows.get(key);
+      if (!row) {
+        row = { key, calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0, estimatedCalls: 0 };
+        rows.set(key, row);
+      }
+
+      row.calls++;
+      row.promptTokens += record.promptTokens;
+      row.completionTokens += record.completionTokens;
+      row.totalTokens += record.totalTokens;
+      row.cost += this.calculateCost(record, pricing);
+      if (record.estimated) {
+        row.estimatedCalls++;
+      }
+    }
+
+    return Array.from(rows.values()).sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  /**
+   * 1件の呼び出しの料金（USD）。料金表に無いモデルは0
+   */
+  calculateCost(record: UsageRecord, pricing: Record<string, ModelPricing> = modelRegistry.getPricingTable()): number {
+    const price = this.findPricing(record.model, pricing);
+    if (!price) {
+      return 0;
+    }
+    return (record.promptTokens * price.input + record.completionTokens * price.output) / 1_000_000;
+  }
+
+  findPricing(model: string, pricing: Record<string, ModelPricing>): ModelPricing | undefined {
+    if (pricing[model]) {
+      return pricing[model];
+    }
+
+    // 料金表のキーはモデル名の前方一致（大文字小文字を区別しない）
+    const normalized = model.toLowerCase();
+    const prefix = Object.keys(pricing)
+      .filter(name => normalized.startsWith(name.toLowerCase()))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix ? pricing[prefix] : undefined;
+  }
+
+  private groupKey(record: UsageRecord, groupBy: UsageGroupBy): string {
+    switch (groupBy) {
+      case 'day': {
+        // ローカル時刻の日付で集計
+        const time = new Date(record.timestamp);
+        const month = String(time.getMonth() + 1).padStart(2, '0');
+        const day = String(time.getDate()).padStart(2, '0');
+        return `${time.getFullYear()}-${month}-${day}`;
+      }
+      case 'model':
+        return record.model;
+      case 'session':
+        return record.sessionId || '(なし)';
+      case 'profile':
+        return record.profile || 'default';
+      case 'caller':
+        return record.caller;
+    }
+  }
+}
+
+export const usageLedger = new UsageLedger();
@@ -0,0 +1,61 @@
+import { MarkdownStreamRenderer, displayWidth, splitCompleteBlocks, stripMarkdown } from '../markdown';
+
+describe('stripMarkdown', () => {
+  it('removes markdown syntax but keeps code block contents', () => {
+    const markdown = [
+      '## 修正点',
+      '- **null** を返す前に `user` を確認',
+      '* [詳細](https://example.com)',
+      '```ts',
+      'const a = **b**;',
+      '```',
+    ].join('\n');
+
+    expect(stripMarkdown(markdown)).toBe([
+      '修正点',
+      '- null を返す前に user を確認',
+      '- 詳細 (https://example.com)',
+      'const a = **b**;',
+    ].join('\n'));
+  });
+});
+
+describe('splitCompleteBlocks', () => {
+  it('treats blank lines and closed code fences as block boundaries', () => {
+    expect(splitCompleteBlocks('# 見出し\n\n本文の途中')).toEqual({ complete: '# 見出し\n\n', rest: '本文の途中' });
+    expect(splitCompleteBlocks('```ts\nconst a = 1;\n\nconst b')).toEqual({ complete: '', rest: '```ts\nconst a = 1;\n\nconst b' });
+    expect(splitCompleteBlocks('```ts\nconst a = 1;\n```\n続き')).toEqual({ complete: '```ts\nconst a = 1;\n```\n', rest: '続き' });
+  });
+});
+
+describe('MarkdownStreamRenderer', () => {
+  it('redraws the pending block and commits completed blocks', () => {
+    const writes: string[] = [];
+    const renderer = new MarkdownStreamRenderer({
+      write: text => writes.push(text),
+      render: markdown => `<${markdown.trim()}>`,
+      columns: 80,
+      rows: 24,
+    });
+
+    renderer.push('こんに');
+    renderer.push('ちは\n\n次');
+    renderer.finish();
+
+    expect(writes).toEqual([
+      '<こんに>',
+      '\r\x1b[J',
+      '<こんにちは>\n',
+      '<次>',
+      '\r\x1b[J',
+      '<次>\n',
+    ]);
+  });
+});
+
+describe('displayWidth', () => {
+  it('counts full-width characters as two columns', () => {
+    expect(displayWidth('日本語abc')).toBe(9);
+    expect(displayWidth('\x1b[36m色\x1b[39m')).toBe(2);
+  });
+});
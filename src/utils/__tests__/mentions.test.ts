@@ -0,0 +1,81 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { completeMention, parseMentions, resolveMention } from '../mentions';
+
+describe('parseMentions', () => {
+  it('extracts paths and line ranges but not email addresses', () => {
+    const mentions = parseMentions('@src/foo.ts#L10-40 と @src/utils/ を見て。連絡は me@example.com まで');
+
+    expect(mentions).toEqual([
+      { raw: 'src/foo.ts#L10-40', path: 'src/foo.ts', startLine: 10, endLine: 40 },
+      { raw: 'src/utils/', path: 'src/utils/', startLine: undefined, endLine: undefined },
+    ]);
+  });
+
+  it('drops trailing punctuation', () => {
+    expect(parseMentions('これは @README.md。')[0].path).toBe('README.md');
+  });
+
+  it('drops trailing punctuation after image paths', () => {
+    expect(parseMentions('@shot.png、これを見て').map(mention => mention.path)).toEqual(['shot.png']);
+    expect(parseMentions('画面は @images/shot.png.').map(mention => mention.path)).toEqual(['images/shot.png']);
+  });
+});
+
+describe('resolveMention', () => {
+  let rootDir: string;
+  const options = () => ({
+    cwd: rootDir,
+    // .gitignoreの代わりにignored.tsを除外する
+    listFiles: async (dir: string) => {
+      const files = ['src/a.ts', 'src/lib/b.ts', 'src/ignored.ts'].map(file => path.join(rootDir, file));
+      return files.filter(file => file.startsWith(dir) && !file.endsWith('ignored.ts'));
+    },
+  });
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'nipponcode-mentions-'));
+    await fs.outputFile(path.join(rootDir, 'src/a.ts'), 'line 1\nline 2\nline 3\nline 4\n');
+    await fs.outputFile(path.join(rootDir, 'src/lib/b.ts'), 'export {};\n');
+  });
+
+  afterEach(async () => {
+    await fs.remove(rootDir);
+  });
+
+  it('reads a line range with line numbers', async () => {
+    const context = await resolveMention({ raw: 'src/a.ts#L2-3', path: 'src/a.ts', startLine: 2, endLine: 3 }, options());
+
+    expect(context).toEqual({
+      id: 'src/a.ts#L2-3',
+      type: 'file',
+      path: path.join(rootDir, 'src/a.ts'),
+      content: '2: line 2\n3: line 3',
+    });
+  });
+
+  it('renders a directory tree from the listed files', async () => {
+    const context = await resolveMention({ raw: 'src', path: 'src' }, options());
+
+    expect(context!.id).toBe('src/');
+    expect(context!.content).toBe('src/\n  a.ts\n  lib/\n    b.ts');
+  });
+
+  it('returns null for paths that do not exist', async () => {
+    expect(await resolveMention({ raw: 'someone', path: 'someone' }, options())).toBeNull();
+  });
+});
+
+describe('completeMention', () => {
+  const paths = ['src/', 'src/utils/', 'src/utils/files.ts', 'src/cli.ts', 'README.md'];
+
+  it('completes one directory level at a time', () => {
+    expect(completeMention('見て @src/', paths)).toEqual([['@src/cli.ts', '@src/utils/'], '@src/']);
+    expect(completeMention('@R', paths)).toEqual([['@README.md'], '@R']);
+  });
+
+  it('ignores lines without a trailing mention', () => {
+    expect(completeMention('hello', paths)).toEqual([[], 'hello']);
+  });
+});
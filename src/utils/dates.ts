@@ -0,0 +1,25 @@
+/**
+ * 日付のみ（YYYY-MM-DD）の場合はローカル時刻の日の始まり/終わりとして扱う
+ * 「7d」のような指定はその日数前の日の始まり/終わりとして扱う
+ */
+export function parseDate(value: string, endOfDay: boolean): Date {
+  const relative = value.match(/^(\d+)d$/);
+  if (relative) {
+    const date = new Date();
+    date.setDate(date.getDate() - Number(relative[1]));
+    return endOfDay ? new Date(date.setHours(23, 59, 59, 999)) : new Date(date.setHours(0, 0, 0, 0));
+  }
+
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const date = match
+    ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+    : new Date(value);
+
+  if (isNaN(date.getTime())) {
+    throw new Error(`日付の形式が正しくありません: ${value}`);
+  }
+  if (match && endOfDay) {
+    date.setHours(23, 59, 59, 999);
+  }
+  return date;
+}
@@ -0,0 +1,74 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { ImageContentPart, MessageContent } from '../providers/base';
+
+const IMAGE_MEDIA_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+};
+
+// 主要なAPIの上限（20MB前後）を超える画像は送らない
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+
+/**
+ * 添付できる画像ファイルの拡張子か
+ */
+export function isImagePath(filePath: string): boolean {
+  return path.extname(filePath).toLowerCase() in IMAGE_MEDIA_TYPES;
+}
+
+/**
+ * 画像ファイルを読み込み、メッセージに添付できる形にする
+ */
+export async function loadImage(filePath: string): Promise<ImageContentPart> {
+  const mediaType = IMAGE_MEDIA_TYPES[path.extname(filePath).toLowerCase()];
+  if (!mediaType) {
+    throw new Error(`対応していない画像形式です（png/jpg/gif/webp）: ${filePath}`);
+  }
+
+  const absolutePath = path.isAbsolute(filePath) ? filePath : path.join(process.cwd(), filePath);
+  if (!await fs.pathExists(absolutePath)) {
+    throw new Error(`画像ファイルが見つかりません: ${filePath}`);
+  }
+
+  const { size } = await fs.stat(absolutePath);
+  if (size > MAX_IMAGE_BYTES) {
+    throw new Error(`画像ファイルが大きすぎます（${Math.round(size / 1024 / 1024)}MB）: ${filePath}`);
+  }
+
+  const data = await fs.readFile(absolutePath);
+  return { type: 'image', mediaType, data: data.toString('base64'), path: absolutePath };
+}
+
+/**
+ * セッションに保存するため、画像をファイルの参照だけにする
+ */
+export function withoutImageData(content: MessageContent): MessageContent {
+  if (typeof content === 'string') {
+    return content;
+  }
+  return content.map(part => (part.type === 'image' ? { type: 'image', mediaType: part.mediaType, path: part.path } : part));
+}
+
+/**
+ * セッションから読み込んだ画像の参照を、ファイルを読み直して送信できる形に戻す
+ * （ファイルが無くなっている画像は参照のまま残す）
+ */
+export async function restoreImageData(content: MessageContent): Promise<MessageContent> {
+  if (typeof content === 'string') {
+    return content;
+  }
+  return Promise.all(content.map(async part => {
+    if (part.type !== 'image' || part.data || !part.path) {
+      return part;
+    }
+    try {
+      return await loadImage(part.path);
+    } catch {
+      return part;
+    }
+  }));
+}
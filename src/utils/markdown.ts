@@ -0,0 +1,207 @@
+/**
+ * Markdownの記法を取り除いてプレーンテキストにする
+ * （コードブロックの中身はそのまま残す）
+ */
+export function stripMarkdown(markdown: string): string {
+  const lines: string[] = [];
+  let inCodeBlock = false;
+
+  for (const line of markdown.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCodeBlock = !inCodeBlock;
+      continue;
+    }
+    if (inCodeBlock) {
+      lines.push(line);
+      continue;
+    }
+
+    lines.push(
+      line
+        .replace(/^#{1,6}\s+/, '')
+        .replace(/^(\s*)[-*+]\s+\[( |x)\]\s+/i, '$1- ')
+        .replace(/^(\s*)[*+]\s+/, '$1- ')
+        .replace(/^\s*>\s?/, '')
+        .replace(/^\s*([-*_])(\s*\1){2,}\s*$/, '')
+        .replace(/!\[([^\]]*)\]\(([^)]+)\)/g, '$1')
+        .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '$1 ($2)')
+        .replace(/(\*\*|__)(.+?)\1/g, '$2')
+        .replace(/(^|[^\w*])\*(?!\s)(.+?)\*(?!\w)/g, '$1$2')
+        .replace(/`([^`]+)`/g, '$1')
+    );
+  }
+
+  return lines.join('\n');
+}
+
+// eslint-disable-next-line no-control-regex
+const ANSI_PATTERN = /\x1b\[[0-9;]*[A-Za-z]/g;
+
+/**
+ * 端末上の表示幅（全角文字は2桁、エスケープシーケンスは0桁）
+ */
+export function displayWidth(text: string): number {
+  let width = 0;
+  for (const char of text.replace(ANSI_PATTERN, '')) {
+    const code = char.codePointAt(0)!;
+    if (code === 0x09) {
+      width += 8;
+    } else if (code < 0x20 || (code >= 0x300 && code <= 0x36f) || code === 0x200d || (code >= 0xfe00 && code <= 0xfe0f)) {
+      // 制御文字・結合文字・異体字セレクタは幅を持たない
+      continue;
+    } else {
+      width += isWide(code) ? 2 : 1;
+    }
+  }
+  return width;
+}
+
+function isWide(code: number): boolean {
+  return (code >= 0x1100 && code <= 0x115f)
+    || (code >= 0x2e80 && code <= 0x303e)
+    || (code >= 0x3041 && code <= 0x33ff)
+    || (code >= 0x3400 && code <= 0x4dbf)
+    || (code >= 0x4e00 && code <= 0x9fff)
+    || (code >= 0xa000 && code <= 0xa4cf)
+    || (code >= 0xac00 && code <= 0xd7a3)
+    || (code >= 0xf900 && code <= 0xfaff)
+    || (code >= 0xfe30 && code <= 0xfe4f)
+    || (code >= 0xff00 && code <= 0xff60)
+    || (code >= 0xffe0 && code <= 0xffe6)
+    || (code >= 0x1f300 && code <= 0x1f64f)
+    || (code >= 0x1f900 && code <= 0x1f9ff)
+    || (code >= 0x20000 && code <= 0x3fffd);
+}
+
+/**
+ * 折り返しを含めて端末で占める行数
+ */
+function countRows(text: string, columns: number): number {
+  return text
+    .split('\n')
+    .reduce((rows, line) => rows + Math.max(1, Math.ceil(displayWidth(line) / columns)), 0);
+}
+
+/**
+ * ストリーミング中のMarkdownを、確定したブロックと書きかけの部分に分ける
+ * 空行またはコードブロックの終わりまでを確定とみなす（書きかけの行は含めない）
+ */
+export function splitCompleteBlocks(markdown: string): { complete: string; rest: string } {
+  const lines = markdown.split('\n');
+  let fence: string | null = null;
+  let hasContent = false;
+  let boundary = 0;
+  let offset = 0;
+
+  // 最後の要素は改行で終わっていない書きかけの行
+  for (const line of lines.slice(0, -1)) {
+    offset += line.length + 1;
+    const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/);
+
+    if (fence) {
+      if (fenceMatch && fenceMatch[1].startsWith(fence) && line.trim() === fenceMatch[1]) {
+        fence = null;
+        hasContent = false;
+        boundary = offset;
+      }
+    } else if (fenceMatch) {
+      fence = fenceMatch[1];
+      hasContent = true;
+    } else if (line.trim() === '') {
+      if (hasContent) {
+        boundary = offset;
+      }
+      hasContent = false;
+    } else {
+      hasContent = true;
+    }
+  }
+
+  return { complete: markdown.slice(0, boundary), rest: markdown.slice(boundary) };
+}
+
+export interface MarkdownStreamOptions {
+  write: (text: string) => void;
+  // Markdownを端末向けの文字列に変換する（widthは折り返しの桁数）
+  render: (markdown: string, width: number) => string;
+  columns: number;
+  rows: number;
+}
+
+/**
+ * ストリーミングされるMarkdownを逐次描画する
+ * 確定したブロックは整形して出力し、書きかけのブロックはプレビューとして描画しては消して描き直す
+ */
+export class MarkdownStreamRenderer {
+  private options: MarkdownStreamOptions;
+  private pending = '';
+  // 画面に描画中のプレビュー
+  private preview = '';
+
+  constructor(options: MarkdownStreamOptions) {
+    this.options = { ...options };
+  }
+
+  push(text: string): void {
+    this.pending += text;
+    const { complete, rest } = splitCompleteBlocks(this.pending);
+
+    this.clearPreview();
+    if (complete) {
+      this.options.write(this.render(complete));
+      this.pending = rest;
+    }
+    this.drawPreview();
+  }
+
+  /**
+   * 書きかけの部分も確定として出力する
+   */
+  finish(): void {
+    this.clearPreview();
+    if (this.pending.trim()) {
+      this.options.write(this.render(this.pending));
+    }
+    this.pending = '';
+  }
+
+  /**
+   * 端末のサイズ変更後に、折り返し直されたプレビューを消して新しい幅で描き直す
+   */
+  resize(columns: number, rows: number): void {
+    this.options.columns = columns;
+    this.options.rows = rows;
+    this.clearPreview();
+    this.drawPreview();
+  }
+
+  private render(markdown: string): string {
+    const rendered = this.options.render(markdown, Math.max(this.options.columns - 1, 20));
+    return rendered.endsWith('\n') ? rendered : rendered + '\n';
+  }
+
+  private drawPreview(): void {
+    if (!this.pending.trim()) {
+      return;
+    }
+
+    const lines = this.render(this.pending).replace(/\n+$/, '').split('\n');
+    // 画面の高さを超えると消去できなくなるため、収まる分だけ末尾を表示する
+    const maxRows = Math.max(this.options.rows - 2, 1);
+    let start = lines.length - 1;
+    while (start > 0 && countRows(lines.slice(start - 1).join('\n'), this.options.columns) <= maxRows) {
+      start--;
+    }
+    this.preview = lines.slice(start).join('\n');
+    this.options.write(this.preview);
+  }
+
+  private clearPreview(): void {
+    if (!this.preview) {
+      return;
+    }
+    const rows = Math.min(countRows(this.preview, this.options.columns), this.options.rows);
+    this.options.write('\r' + (rows > 1 ? `\x1b[${rows - 1}A` : '') + '\x1b[J');
+    this.preview = '';
+  }
+}
@@ -0,0 +1,204 @@
+import fs from 'fs-extra';
+import path from 'path';
+
+// これを超えるファイルは行範囲（#L10-40）の指定を求める
+const MAX_MENTION_BYTES = 100 * 1024;
+// ディレクトリツリーに表示する最大ファイル数
+const MAX_TREE_FILES = 300;
+// 補完候補のファイル一覧を読み直すまでの時間
+const COMPLETION_CACHE_MS = 10000;
+
+// @path または @path#L10-40（行頭または空白の直後のみ。メールアドレスは対象外）
+// 読点・句点の後に空白を入れずに文章が続くことがあるため、パスはそこで区切る
+const MENTION_PATTERN = /(?:^|\s)@([^\s#、。]+)(?:#L(\d+)(?:-L?(\d+))?)?/g;
+
+export interface Mention {
+  // メッセージ中の表記（@を除く）
+  raw: string;
+  path: string;
+  startLine?: number;
+  endLine?: number;
+}
+
+export interface MentionContext {
+  // 一覧や削除に使う表記（cwdからの相対パス。ディレクトリは末尾に/、行範囲は#L10-40）
+  id: string;
+  type: 'file' | 'directory';
+  path: string;
+  content: string;
+}
+
+export interface MentionOptions {
+  cwd: string;
+  // 無視パターンを適用したファイルの一覧（絶対パス）を返す
+  listFiles: (dirPath: string) => Promise<string[]>;
+}
+
+/**
+ * メッセージ中の @ファイル・@ディレクトリ の指定を取り出す
+ */
+export function parseMentions(message: string): Mention[] {
+  const mentions: Mention[] = [];
+  for (const match of message.matchAll(MENTION_PATTERN)) {
+    const startLine = match[2] ? parseInt(match[2], 10) : undefined;
+    // 文末の句読点や括弧はパスに含めない（@. や @.. はそのまま）
+    const mentionPath = /^[./]+$/.test(match[1]) ? match[1] : match[1].replace(/[.,;:!?)\]」』、。]+$/, '');
+    mentions.push({
+      raw: match[0].trim().slice(1),
+      path: mentionPath,
+      startLine,
+      endLine: match[3] ? parseInt(match[3], 10) : startLine,
+    });
+  }
+  return mentions;
+}
+
+/**
+ * 指定されたファイルの内容、またはディレクトリのツリーを読み込む
+ * パスが存在しない場合はnullを返す（@ユーザー名 などの通常の文章として扱う）
+ */
+export async function resolveMention(mention: Mention, options: MentionOptions): Promise<MentionContext | null> {
+  const absolutePath = path.resolve(options.cwd, mention.path);
+  if (!await fs.pathExists(absolutePath)) {
+    return null;
+  }
+
+  const relativePath = toPosix(path.relative(options.cwd, absolutePath)) || '.';
+  const stats = await fs.stat(absolutePath);
+
+  if (stats.isDirectory()) {
+    // cwd配下ならプロジェクトの.gitignoreが効くようにcwdから一覧を取る
+    const inside = !path.relative(options.cwd, absolutePath).startsWith('..');
+    const files = (await options.listFiles(inside ? options.cwd : absolutePath))
+      .filter(file => isInside(absolutePath, file))
+      .map(file => toPosix(path.relative(absolutePath, file)));
+    const id = relativePath.endsWith('/') ? relativePath : `${relativePath}/`;
+    return { id, type: 'directory', path: absolutePath, content: formatTree(id, files) };
+  }
+
+  const hasRange = mention.startLine !== undefined;
+  if (!hasRange && stats.size > MAX_MENTION_BYTES) {
+    throw new Error(`ファイルが大きすぎます（${Math.round(stats.size / 1024)}KB）。@${relativePath}#L1-200 のように行範囲を指定してください`);
+  }
+  const content = await fs.readFile(absolutePath, 'utf-8');
+  if (content.includes('\0')) {
+    throw new Error(`テキストファイルではありません: ${relativePath}`);
+  }
+  if (!hasRange) {
+    return { id: relativePath, type: 'file', path: absolutePath, content };
+  }
+
+  const lines = content.split('\n');
+  const start = Math.max(mention.startLine!, 1);
+  const end = Math.min(Math.max(mention.endLine!, start), lines.length);
+  if (start > lines.length) {
+    throw new Error(`${relativePath} は${lines.length}行しかありません`);
+  }
+  return {
+    id: `${relativePath}#L${start}-${end}`,
+    type: 'file',
+    path: absolutePath,
+    // 行番号を付けて、回答で該当行を示せるようにする
+    content: lines.slice(start - 1, end).map((line, i) => `${start + i}: ${line}`).join('\n'),
+  };
+}
+
+/**
+ * ファイル一覧（ディレクトリからの相対パス）をツリー表示にする
+ */
+export function formatTree(root: string, files: string[]): string {
+  const sorted = [...files].sort();
+  const lines = [root];
+  const printed = new Set<string>();
+
+  for (const file of sorted.slice(0, MAX_TREE_FILES)) {
+    const parts = file.split('/');
+    for (let depth = 0; depth < parts.length; depth++) {
+      const key = parts.slice(0, depth + 1).join('/');
+      if (printed.has(key)) {
+        continue;
+      }
+      printed.add(key);
+      const isDir = depth < parts.length - 1;
+      lines.push(`${'  '.repeat(depth + 1)}${parts[depth]}${isDir ? '/' : ''}`);
+    }
+  }
+  if (sorted.length > MAX_TREE_FILES) {
+    lines.push(`  …他${sorted.length - MAX_TREE_FILES}ファイル`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * 入力中の行の最後の @パス を補完する（readlineのcompleterの戻り値の形式）
+ * pathsはcwdからの相対パスで、ディレクトリは末尾に/を付ける
+ */
+export function completeMention(line: string, paths: string[]): [string[], string] {
+  const match = line.match(/(?:^|\s)@(\S*)$/);
+  if (!match) {
+    return [[], line];
+  }
+
+  const partial = match[1];
+  const dir = partial.slice(0, partial.lastIndexOf('/') + 1);
+  const candidates = new Set<string>();
+  for (const candidate of paths) {
+    if (!candidate.startsWith(partial) || candidate === dir) {
+      continue;
+    }
+    // 次の階層の名前までを候補にする（src/ → src/utils/, src/cli.ts）
+    const rest = candidate.slice(dir.length);
+    const slash = rest.indexOf('/');
+    candidates.add(`@${dir}${slash >= 0 ? rest.slice(0, slash + 1) : rest}`);
+  }
+  return [[...candidates].sort(), `@${partial}`];
+}
+
+/**
+ * @パス のタブ補完（ファイル一覧は一定時間キャッシュする）
+ */
+export class MentionCompleter {
+  private options: MentionOptions;
+  private paths: string[] = [];
+  private loadedAt = 0;
+
+  constructor(options: MentionOptions) {
+    this.options = options;
+  }
+
+  async complete(line: string): Promise<[string[], string]> {
+    if (!/(?:^|\s)@\S*$/.test(line)) {
+      return [[], line];
+    }
+    if (Date.now() - this.loadedAt > COMPLETION_CACHE_MS) {
+      this.paths = withDirectories(
+        (await this.options.listFiles(this.options.cwd)).map(file => toPosix(path.relative(this.options.cwd, file)))
+      );
+      this.loadedAt = Date.now();
+    }
+    return completeMention(line, this.paths);
+  }
+}
+
+/**
+ * ファイル一覧に親ディレクトリ（末尾に/）を加える
+ */
+function withDirectories(files: string[]): string[] {
+  const paths = new Set(files);
+  for (const file of files) {
+    const parts = file.split('/');
+    for (let i = 1; i < parts.length; i++) {
+      paths.add(`${parts.slice(0, i).join('/')}/`);
+    }
+  }
+  return [...paths];
+}
+
+function isInside(dir: string, file: string): boolean {
+  const relative = path.relative(dir, file);
+  return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
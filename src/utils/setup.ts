@@ -85,3 +85,14 @@ export function getCacheDir(): string {
   return path.join(os.homedir(), '.nipponcode', 'cache');
 }
 
+
+/**
+ * トークン使用量台帳のパスを取得
+ */
+export function getUsageLedgerPath(): string {
+  const localConfigDir = path.join(process.cwd(), '.nipponcode');
+  if (fs.existsSync(localConfigDir)) {
+    return path.join(localConfigDir, 'usage.jsonl');
+  }
+  return path.join(os.homedir(), '.nipponcode', 'usage.jsonl');
+}
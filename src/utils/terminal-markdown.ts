@@ -0,0 +1,73 @@
+import { Marked, MarkedExtension } from 'marked';
+import { markedTerminal } from 'marked-terminal';
+import { MarkdownStreamRenderer } from './markdown';
+
+const renderers = new Map<number, Marked>();
+
+/**
+ * Markdownを端末向けに整形する（コードブロックはシンタックスハイライト）
+ */
+export function renderMarkdown(markdown: string, width: number): string {
+  let marked = renderers.get(width);
+  if (!marked) {
+    // @types/marked-terminalは戻り値をTerminalRendererとしているが、実際はmarkedの拡張を返す
+    marked = new Marked(markedTerminal({ width, reflowText: true, tab: 2 }) as MarkedExtension);
+    renderers.set(width, marked);
+  }
+  return marked.parse(markdown, { async: false }) as string;
+}
+
+/**
+ * 色や制御シーケンスを使わずに出力すべきか（NO_COLOR指定時やパイプへの出力）
+ */
+export function isPlainOutput(stream: NodeJS.WriteStream = process.stdout): boolean {
+  return !!process.env.NO_COLOR || !stream.isTTY;
+}
+
+/**
+ * 応答のMarkdownを受信しながら端末に書き出す
+ * プレーン出力の場合は受信したテキストをそのまま書き出す
+ */
+export class MarkdownWriter {
+  private stream: NodeJS.WriteStream;
+  private renderer: MarkdownStreamRenderer | null = null;
+  private lastChar = '\n';
+  private onResize = () => this.renderer?.resize(this.stream.columns || 80, this.stream.rows || 24);
+
+  constructor(stream: NodeJS.WriteStream = process.stdout) {
+    this.stream = stream;
+    if (!isPlainOutput(stream)) {
+      this.renderer = new MarkdownStreamRenderer({
+        write: text => this.stream.write(text),
+        render: renderMarkdown,
+        columns: stream.columns || 80,
+        rows: stream.rows || 24,
+      });
+      stream.on('resize', this.onResize);
+    }
+  }
+
+  write(text: string): void {
+    if (!text) {
+      return;
+    }
+    if (this.renderer) {
+      this.renderer.push(text);
+    } else {
+      this.stream.write(text);
+      this.lastChar = text[text.length - 1];
+    }
+  }
+
+  /**
+   * 書きかけの部分を出力して終了する
+   */
+  end(): void {
+    if (this.renderer) {
+      this.renderer.finish();
+      this.stream.off('resize', this.onResize);
+    } else if (this.lastChar !== '\n') {
+      this.stream.write('\n');
+    }
+  }
+}